@@ -3,6 +3,10 @@ import { logger } from '../config/logger.js';
 import { NatsClient } from '../nats/connection.js';
 import { Metrics } from '../metrics/counter.js';
 import { RulesEngine } from '../rules/engine.js';
+import { ShadowRunner } from '../nats/shadow.js';
+import { PartitionCoordinator } from '../nats/partition-coordinator.js';
+import { WorkerPool } from '../nats/worker-pool.js';
+import { DeadLetterQueue } from '../nats/dead-letter.js';
 
 export class ApiServer {
     private server;
@@ -12,6 +16,10 @@ export class ApiServer {
         private natsClient: NatsClient,
         private metrics: Metrics,
         private rulesEngine: RulesEngine,
+        private shadow?: ShadowRunner,
+        private partitions?: PartitionCoordinator,
+        private workers?: WorkerPool,
+        private deadLetters?: DeadLetterQueue,
     ) {
         this.server = createServer(this.handleRequest.bind(this));
     }
@@ -30,10 +38,20 @@ export class ApiServer {
             return;
         }
 
+        const baselines = url?.match(/^\/patients\/([^/]+)\/baselines$/);
+
         if (method === 'GET' && url === '/health') {
             this.handleHealth(res);
         } else if (method === 'GET' && url === '/metrics') {
             this.handleMetrics(res);
+        } else if (method === 'GET' && url === '/acknowledgements') {
+            this.handleAcknowledgements(res);
+        } else if (method === 'GET' && url === '/shadow') {
+            this.handleShadow(res);
+        } else if (method === 'GET' && url === '/dlq') {
+            await this.handleDeadLetters(res);
+        } else if (method === 'GET' && baselines) {
+            this.handleBaselines(baselines[1], res);
         } else {
             res.writeHead(404, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ error: 'Not found' }));
@@ -64,6 +82,97 @@ export class ApiServer {
         const response = {
             ...counters,
             tracked_patients: trackedPatients,
+            state_store: this.rulesEngine.getStateStoreStats(),
+            active_acknowledgements: this.rulesEngine.getAcknowledgements().length,
+            silent_devices: this.rulesEngine.getSilentDevicesCount(),
+            rules_version: this.rulesEngine.getRulesVersion(),
+            risk_model: this.rulesEngine.getRiskModel(),
+            partitions: this.partitions?.getAssignment(),
+            workers: this.workers?.stats(),
+            dead_letters: this.deadLetters?.getStats(),
+            timestamp: new Date().toISOString(),
+        };
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+    }
+
+    private handleAcknowledgements(res: ServerResponse): void {
+        const response = {
+            acknowledgements: this.rulesEngine.getAcknowledgements(),
+            timestamp: new Date().toISOString(),
+        };
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+    }
+
+    private handleShadow(res: ServerResponse): void {
+        if (!this.shadow) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Shadow mode not enabled' }));
+            return;
+        }
+
+        const response = {
+            live_rules_version: this.rulesEngine.getRulesVersion(),
+            live_risk_model: this.rulesEngine.getRiskModel(),
+            ...this.shadow.getSummary(),
+            timestamp: new Date().toISOString(),
+        };
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+    }
+
+    private async handleDeadLetters(res: ServerResponse): Promise<void> {
+        if (!this.deadLetters) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Dead-letter subject not enabled' }));
+            return;
+        }
+
+        let recent;
+        try {
+            recent = await this.deadLetters.listRecent();
+        } catch (err) {
+            logger.error({ error: err }, 'Failed to read dead-letter subject');
+            res.writeHead(503, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Dead-letter subject unavailable' }));
+            return;
+        }
+
+        const response = {
+            subject: this.deadLetters.subject,
+            recent,
+            timestamp: new Date().toISOString(),
+        };
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+    }
+
+    private handleBaselines(encodedPatientId: string, res: ServerResponse): void {
+        let patientId: string;
+        try {
+            patientId = decodeURIComponent(encodedPatientId);
+        } catch {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Malformed patient id' }));
+            return;
+        }
+
+        const baselines = this.rulesEngine.getBaselines(patientId);
+
+        if (!baselines) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Patient not tracked' }));
+            return;
+        }
+
+        const response = {
+            patient_id: patientId,
+            baselines,
             timestamp: new Date().toISOString(),
         };
 
@@ -0,0 +1,87 @@
+import { loadConfig } from '../config/env.js';
+import { NatsClient } from '../nats/connection.js';
+import { replayDeadLetters } from '../nats/dead-letter.js';
+import type { DeadLetterStage, ReplayOptions } from '../nats/dead-letter.js';
+
+const STAGES: DeadLetterStage[] = ['parse', 'validation', 'max_deliver'];
+
+const USAGE = 'Usage: replay-dlq [--from-seq <n>] [--stage parse|validation|max_deliver] [--limit <n>] [--dry-run]';
+
+/**
+ * Parse command line options; undefined if they are invalid
+ */
+function parseArgs(args: string[]): Partial<ReplayOptions> | undefined {
+    const options: Partial<ReplayOptions> = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const value = args[i + 1];
+
+        if (args[i] === '--dry-run') {
+            options.dryRun = true;
+        } else if (args[i] === '--from-seq' && Number(value) > 0) {
+            options.fromSeq = Number(value);
+            i++;
+        } else if (args[i] === '--limit' && Number(value) > 0) {
+            options.limit = Number(value);
+            i++;
+        } else if (args[i] === '--stage' && STAGES.includes(value as DeadLetterStage)) {
+            options.stage = value as DeadLetterStage;
+            i++;
+        } else {
+            return undefined;
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Replay dead-lettered vitals once the contract or rules that rejected
+ * them are fixed. Messages go back to the subject they were consumed from.
+ *
+ * Usage: npm run replay-dlq -- [--from-seq <n>] [--stage <stage>] [--limit <n>] [--dry-run]
+ */
+async function main(): Promise<number> {
+    const options = parseArgs(process.argv.slice(2));
+    if (!options) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const config = loadConfig();
+    const natsClient = new NatsClient({ servers: config.nats.url, name: 'ai-triage-replay-dlq' });
+    await natsClient.connect();
+
+    try {
+        const result = await replayDeadLetters(
+            natsClient.getConnection().jetstream(),
+            {
+                ...options,
+                stream: config.nats.stream,
+                subject: config.deadLetter.subject,
+                fallbackSubject: 'vitals.recorded',
+            },
+            (entry, seq, replayed) => {
+                const action = !replayed ? 'skipped' : options.dryRun ? 'would replay' : 'replayed';
+                console.log(`${seq}\t${action}\t${entry.stage}\t${entry.original_subject ?? ''}\t${entry.reason}`);
+            },
+        );
+
+        const verb = options.dryRun ? 'Would replay' : 'Replayed';
+        console.log(`${verb} ${result.replayed} message(s), skipped ${result.skipped}`);
+        if (result.lastSeq !== undefined) {
+            console.log(`Continue with --from-seq ${result.lastSeq + 1}`);
+        }
+        return 0;
+    } finally {
+        await natsClient.close();
+    }
+}
+
+main().then(
+    (code) => process.exit(code),
+    (err) => {
+        console.error(`✗ Replay failed: ${err instanceof Error ? err.message : err}`);
+        process.exit(1);
+    },
+);
@@ -0,0 +1,41 @@
+import { readFileSync } from 'fs';
+import { SchemaValidator } from '../contracts/schema-validator.js';
+import { rulesVersion } from '../rules/loader.js';
+import { formatIssues, validateRules } from '../rules/validation.js';
+
+/**
+ * Check a rules file before deploying it.
+ *
+ * Usage: npm run validate-rules -- <path/to/rules.json>
+ */
+function main(): number {
+    const rulesPath = process.argv[2];
+
+    if (!rulesPath) {
+        console.error('Usage: validate-rules <path/to/rules.json>');
+        return 2;
+    }
+
+    let content: string;
+    let rules: unknown;
+
+    try {
+        content = readFileSync(rulesPath, 'utf-8');
+        rules = JSON.parse(content);
+    } catch (err) {
+        console.error(`✗ ${rulesPath}: ${err instanceof Error ? err.message : err}`);
+        return 1;
+    }
+
+    const issues = validateRules(rules, new SchemaValidator(''));
+
+    if (issues.length > 0) {
+        console.error(`✗ ${rulesPath} has ${issues.length} problem(s):\n${formatIssues(issues)}`);
+        return 1;
+    }
+
+    console.log(`✓ ${rulesPath} is valid (version ${rulesVersion(content)})`);
+    return 0;
+}
+
+process.exit(main());
@@ -1,4 +1,5 @@
 import { config } from 'dotenv';
+import { hostname } from 'os';
 
 // Load .env file if present
 config();
@@ -14,9 +15,66 @@ export interface AppConfig {
     };
     rules: {
         path: string;
+        hotReload: boolean;
+    };
+    overrides: {
+        path: string;
+        subject: string;
+    };
+    patientContext: {
+        path: string;
+    };
+    acknowledgements: {
+        acknowledgedSubject: string;
+        snoozedSubject: string;
+    };
+    artifacts: {
+        publishEvents: boolean;
+    };
+    deadLetter: {
+        enabled: boolean;
+        subject: string;
+    };
+    signalLoss: {
+        checkIntervalMs: number;
+    };
+    model: {
+        path: string;
+    };
+    shadow: {
+        rulesPath: string;
+        modelPath: string;
+    };
+    processing: {
+        /** Workers handling different patients' readings in parallel */
+        workers: number;
+        /** Readings pulled but not yet handled, across all workers */
+        maxInFlight: number;
+    };
+    readings: {
+        /** How far back duplicate readings are recognized */
+        dedupWindowMs: number;
+        /** How far ahead of the clock a reading timestamp may be */
+        maxClockSkewMs: number;
+        latePolicy: 'drop' | 'evaluate' | 'reorder';
+        reorderBufferMs: number;
+    };
+    partitioning: {
+        /** Number of vitals partitions; 0 consumes the unpartitioned subject */
+        count: number;
+        /** Fixed partition list such as `0-3,8`; empty to share partitions through membership */
+        partitions: string;
+        instanceId: string;
+        membersBucket: string;
+        memberTtlMs: number;
+        rebalanceIntervalMs: number;
+        router: boolean;
     };
     state: {
         ttlMs: number;
+        store: 'memory' | 'kv';
+        bucket: string;
+        flushIntervalMs: number;
     };
     http: {
         port: number;
@@ -40,6 +98,21 @@ function getEnvNumber(key: string, defaultValue: number): number {
     return parsed;
 }
 
+function getEnvChoice<T extends string>(key: string, choices: readonly T[], defaultValue: T): T {
+    const value = process.env[key];
+    if (!value) return defaultValue;
+    if ((choices as readonly string[]).includes(value)) return value as T;
+    throw new Error(`Invalid value for environment variable ${key}: ${value} (expected ${choices.join(' | ')})`);
+}
+
+function getEnvBoolean(key: string, defaultValue: boolean): boolean {
+    const value = process.env[key];
+    if (!value) return defaultValue;
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    throw new Error(`Invalid boolean for environment variable ${key}: ${value}`);
+}
+
 export function loadConfig(): AppConfig {
     return {
         nats: {
@@ -52,9 +125,60 @@ export function loadConfig(): AppConfig {
         },
         rules: {
             path: getEnv('RULES_PATH', './rules/default.json'),
+            hotReload: getEnvBoolean('RULES_HOT_RELOAD', true),
+        },
+        overrides: {
+            path: getEnv('PATIENT_OVERRIDES_PATH', ''),
+            subject: getEnv('PATIENT_OVERRIDES_SUBJECT', 'patient.thresholds.updated'),
+        },
+        patientContext: {
+            path: getEnv('PATIENT_CONTEXT_PATH', ''),
+        },
+        acknowledgements: {
+            acknowledgedSubject: getEnv('ALERT_ACKNOWLEDGED_SUBJECT', 'patient.alert.acknowledged'),
+            snoozedSubject: getEnv('ALERT_SNOOZED_SUBJECT', 'patient.alert.snoozed'),
+        },
+        artifacts: {
+            publishEvents: getEnvBoolean('ARTIFACT_EVENTS_ENABLED', false),
+        },
+        deadLetter: {
+            enabled: getEnvBoolean('DLQ_ENABLED', true),
+            subject: getEnv('DLQ_SUBJECT', 'triage.dlq.vitals'),
+        },
+        signalLoss: {
+            checkIntervalMs: getEnvNumber('SIGNAL_CHECK_INTERVAL_MS', 10000),
+        },
+        model: {
+            path: getEnv('MODEL_PATH', ''),
+        },
+        shadow: {
+            rulesPath: getEnv('SHADOW_RULES_PATH', ''),
+            modelPath: getEnv('SHADOW_MODEL_PATH', ''),
+        },
+        processing: {
+            workers: getEnvNumber('CONSUMER_WORKERS', 4),
+            maxInFlight: getEnvNumber('CONSUMER_MAX_IN_FLIGHT', 100),
+        },
+        readings: {
+            dedupWindowMs: getEnvNumber('READING_DEDUP_WINDOW_MS', 600000),
+            maxClockSkewMs: getEnvNumber('READING_MAX_CLOCK_SKEW_MS', 300000),
+            latePolicy: getEnvChoice('LATE_READING_POLICY', ['drop', 'evaluate', 'reorder'] as const, 'drop'),
+            reorderBufferMs: getEnvNumber('REORDER_BUFFER_MS', 2000),
+        },
+        partitioning: {
+            count: getEnvNumber('PARTITION_COUNT', 0),
+            partitions: getEnv('PARTITIONS', ''),
+            instanceId: getEnv('INSTANCE_ID', hostname()),
+            membersBucket: getEnv('PARTITION_MEMBERS_BUCKET', 'triage-instances'),
+            memberTtlMs: getEnvNumber('PARTITION_MEMBER_TTL_MS', 30000),
+            rebalanceIntervalMs: getEnvNumber('PARTITION_REBALANCE_INTERVAL_MS', 10000),
+            router: getEnvBoolean('PARTITION_ROUTER_ENABLED', false),
         },
         state: {
             ttlMs: getEnvNumber('STATE_TTL_MS', 600000), // 10 minutes default
+            store: getEnvChoice('STATE_STORE', ['memory', 'kv'] as const, 'memory'),
+            bucket: getEnv('STATE_KV_BUCKET', 'triage-patient-state'),
+            flushIntervalMs: getEnvNumber('STATE_FLUSH_INTERVAL_MS', 1000),
         },
         http: {
             port: getEnvNumber('HTTP_PORT', 8092),
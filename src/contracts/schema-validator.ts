@@ -6,10 +6,48 @@ const addFormats = addFormatsLib.default;
 import { readFileSync, existsSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { logger } from '../config/logger.js';
+import { rulesSchema, RULES_SCHEMA_ID } from '../rules/schema.js';
+import { modelSchema, MODEL_SCHEMA_ID } from '../models/schema.js';
+import type { ErrorObject } from 'ajv';
+
+export interface ValidationIssue {
+    /** JSON path of the offending value, e.g. $.rules[0].condition.op */
+    path: string;
+    message: string;
+}
 
 export interface ValidationResult {
     valid: boolean;
     errors?: string;
+    issues?: ValidationIssue[];
+}
+
+/**
+ * Convert an Ajv instance path (/rules/0/condition) to a JSON path ($.rules[0].condition)
+ */
+function toJsonPath(instancePath: string): string {
+    return instancePath
+        .split('/')
+        .slice(1)
+        .reduce((path, segment) => {
+            const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+            return /^\d+$/.test(key) ? `${path}[${key}]` : `${path}.${key}`;
+        }, '$');
+}
+
+function toIssue(error: ErrorObject): ValidationIssue {
+    const path = toJsonPath(error.instancePath);
+
+    if (error.keyword === 'additionalProperties') {
+        return { path: `${path}.${error.params.additionalProperty}`, message: 'unknown property' };
+    }
+    if (error.keyword === 'required') {
+        return { path: `${path}.${error.params.missingProperty}`, message: 'is required' };
+    }
+    if (error.keyword === 'enum') {
+        return { path, message: `${error.message}: ${error.params.allowedValues.join(', ')}` };
+    }
+    return { path, message: error.message ?? error.keyword };
 }
 
 export class SchemaValidator {
@@ -24,6 +62,10 @@ export class SchemaValidator {
             allErrors: true,
         });
         addFormats(this.ajv);
+
+        // Built-in schemas for the rules and model files, available before contracts load
+        this.ajv.addSchema(rulesSchema);
+        this.ajv.addSchema(modelSchema);
     }
 
     /**
@@ -129,10 +171,80 @@ export class SchemaValidator {
         return this.validate('https://5g-health-platform.example.com/schemas/events/vitals-recorded.json', data);
     }
 
+    /**
+     * Validate vitals.artifact.detected event
+     */
+    validateArtifactDetected(data: unknown): ValidationResult {
+        return this.validate('https://5g-health-platform.example.com/schemas/events/vitals-artifact-detected.json', data);
+    }
+
+    /**
+     * Validate device.signal.lost event
+     */
+    validateSignalLost(data: unknown): ValidationResult {
+        return this.validate('https://5g-health-platform.example.com/schemas/events/device-signal-lost.json', data);
+    }
+
+    /**
+     * Validate device.signal.recovered event
+     */
+    validateSignalRecovered(data: unknown): ValidationResult {
+        return this.validate('https://5g-health-platform.example.com/schemas/events/device-signal-recovered.json', data);
+    }
+
+    /**
+     * Validate triage.shadow.diff event
+     */
+    validateShadowDiff(data: unknown): ValidationResult {
+        return this.validate('https://5g-health-platform.example.com/schemas/events/triage-shadow-diff.json', data);
+    }
+
+    /**
+     * Validate a rules file against the built-in rules schema
+     */
+    validateRulesConfig(data: unknown): ValidationResult {
+        return this.validateBuiltIn(RULES_SCHEMA_ID, data);
+    }
+
+    /**
+     * Validate a risk model file against the built-in model schema
+     */
+    validateModelFile(data: unknown): ValidationResult {
+        return this.validateBuiltIn(MODEL_SCHEMA_ID, data);
+    }
+
+    private validateBuiltIn(schemaId: string, data: unknown): ValidationResult {
+        const validateFn = this.ajv.getSchema(schemaId)!;
+
+        if (!validateFn(data)) {
+            return {
+                valid: false,
+                errors: this.ajv.errorsText(validateFn.errors),
+                issues: (validateFn.errors ?? []).map(toIssue),
+            };
+        }
+
+        return { valid: true };
+    }
+
     /**
      * Validate patient.alert.raised event
      */
     validateAlertRaised(data: unknown): ValidationResult {
         return this.validate('https://5g-health-platform.example.com/schemas/events/patient-alert-raised.json', data);
     }
+
+    /**
+     * Validate patient.alert.resolved event
+     */
+    validateAlertResolved(data: unknown): ValidationResult {
+        return this.validate('https://5g-health-platform.example.com/schemas/events/patient-alert-resolved.json', data);
+    }
+
+    /**
+     * Validate patient.alert.escalated event
+     */
+    validateAlertEscalated(data: unknown): ValidationResult {
+        return this.validate('https://5g-health-platform.example.com/schemas/events/patient-alert-escalated.json', data);
+    }
 }
@@ -1,11 +1,28 @@
 import { loadConfig } from './config/env.js';
 import { logger } from './config/logger.js';
 import { SchemaValidator } from './contracts/schema-validator.js';
-import { loadRules } from './rules/loader.js';
+import { loadVersionedRules } from './rules/loader.js';
 import { RulesEngine } from './rules/engine.js';
+import { RulesWatcher } from './rules/watcher.js';
+import { PatientOverrideStore } from './rules/overrides.js';
+import { PatientContextStore } from './rules/cohorts.js';
+import { loadModel } from './models/loader.js';
 import { NatsClient } from './nats/connection.js';
+import { KvStateStore } from './nats/kv-state-store.js';
 import { VitalsConsumer } from './nats/consumer.js';
+import { OverridesConsumer } from './nats/overrides-consumer.js';
+import { AcknowledgementsConsumer } from './nats/acknowledgements-consumer.js';
 import { AlertPublisher } from './nats/publisher.js';
+import { SignalLossMonitor } from './nats/signal-monitor.js';
+import { ShadowRunner } from './nats/shadow.js';
+import { InstanceMembership } from './nats/membership.js';
+import { PartitionCoordinator } from './nats/partition-coordinator.js';
+import { PartitionRouter } from './nats/partition-router.js';
+import { parsePartitions, partitionSubject } from './nats/partitions.js';
+import { WorkerPool } from './nats/worker-pool.js';
+import { DeadLetterQueue } from './nats/dead-letter.js';
+import type { ConsumerConfig } from './nats/consumer.js';
+import type { RulesConfig } from './rules/types.js';
 import { Metrics } from './metrics/counter.js';
 import { ApiServer } from './api/server.js';
 
@@ -21,13 +38,19 @@ async function main() {
     validator.loadSchemas();
 
     // Load rules
-    const rules = loadRules(config.rules.path);
+    const { rules, version } = loadVersionedRules(config.rules.path, validator);
 
-    // Initialize rules engine
-    const rulesEngine = new RulesEngine(rules, config.state.ttlMs);
+    // Per-patient threshold overrides, checked against the rules in force
+    const overrideStore = new PatientOverrideStore(validator, (): RulesConfig => rulesEngine.getRules());
 
-    // Initialize metrics
-    const metrics = new Metrics();
+    // Load cached patient context used for cohort selection
+    const contextStore = new PatientContextStore();
+    if (config.patientContext.path) {
+        contextStore.loadFile(config.patientContext.path);
+    }
+
+    // Load the risk model scored beside the rules
+    const model = config.model.path ? loadModel(config.model.path, validator) : undefined;
 
     // Initialize NATS client
     const natsClient = new NatsClient({
@@ -37,41 +60,211 @@ async function main() {
 
     await natsClient.connect();
 
+    // Restore patient state persisted by a previous run
+    let stateStore: KvStateStore | undefined;
+    if (config.state.store === 'kv') {
+        stateStore = await KvStateStore.open(natsClient, {
+            bucket: config.state.bucket,
+            ttlMs: config.state.ttlMs,
+            flushIntervalMs: config.state.flushIntervalMs,
+        });
+        await stateStore.load();
+        stateStore.start();
+    }
+
+    // Initialize rules engine
+    const rulesEngine = new RulesEngine(
+        rules,
+        config.state.ttlMs,
+        version,
+        overrideStore,
+        contextStore,
+        model,
+        stateStore,
+        {
+            dedupWindowMs: config.readings.dedupWindowMs,
+            maxClockSkewMs: config.readings.maxClockSkewMs,
+        },
+    );
+
+    // Load per-patient threshold overrides
+    if (config.overrides.path) {
+        overrideStore.loadFile(config.overrides.path);
+    }
+
+    // Reload rules on file change and on SIGHUP
+    const rulesWatcher = new RulesWatcher(config.rules.path, rulesEngine, validator);
+    if (config.rules.hotReload) {
+        rulesWatcher.start();
+    }
+
+    // Candidate rules and/or model evaluated in shadow with their own state
+    const shadowRulesPath = config.shadow.rulesPath || config.rules.path;
+    let shadowEngine: RulesEngine | undefined;
+    let shadowWatcher: RulesWatcher | undefined;
+    if (config.shadow.rulesPath || config.shadow.modelPath) {
+        const shadowRules = loadVersionedRules(shadowRulesPath, validator);
+        const shadowModel = config.shadow.modelPath ? loadModel(config.shadow.modelPath, validator) : model;
+        const shadowContexts = new PatientContextStore();
+        if (config.patientContext.path) {
+            shadowContexts.loadFile(config.patientContext.path);
+        }
+
+        shadowEngine = new RulesEngine(
+            shadowRules.rules,
+            config.state.ttlMs,
+            shadowRules.version,
+            overrideStore,
+            shadowContexts,
+            shadowModel,
+        );
+        shadowWatcher = new RulesWatcher(shadowRulesPath, shadowEngine, validator);
+        if (config.rules.hotReload) {
+            shadowWatcher.start();
+        }
+    }
+
+    process.on('SIGHUP', () => {
+        rulesWatcher.reload('SIGHUP');
+        shadowWatcher?.reload('SIGHUP');
+    });
+
+    // Initialize metrics
+    const metrics = new Metrics();
+
     // Initialize alert publisher
     const alertPublisher = new AlertPublisher(
         natsClient,
         validator,
     );
 
-    // Initialize vitals consumer
-    const vitalsConsumer = new VitalsConsumer(
+    const shadowRunner = shadowEngine
+        ? new ShadowRunner(shadowEngine, alertPublisher, config.signalLoss.checkIntervalMs)
+        : undefined;
+    shadowRunner?.start();
+
+    // Invalid and undeliverable readings are republished for inspection and replay
+    const deadLetters = config.deadLetter.enabled
+        ? new DeadLetterQueue(natsClient, config.nats.stream, config.deadLetter.subject)
+        : undefined;
+
+    // Initialize vitals consumer; partition consumers share one worker pool
+    const workerPool = new WorkerPool(config.processing.workers, config.processing.maxInFlight);
+    const vitalsSubject = 'vitals.recorded';
+    const consumerConfig: ConsumerConfig = {
+        streamName: config.nats.stream,
+        durableName: config.nats.durable,
+        subjects: [vitalsSubject],
+        publishArtifacts: config.artifacts.publishEvents,
+        lateReadings: config.readings.latePolicy,
+        reorderBufferMs: config.readings.reorderBufferMs,
+    };
+    const createConsumer = (overrides: Partial<ConsumerConfig> = {}) => new VitalsConsumer(
         natsClient,
         validator,
         rulesEngine,
         alertPublisher,
         metrics,
-        {
-            streamName: config.nats.stream,
-            durableName: config.nats.durable,
-            subject: 'vitals.recorded',
-        },
+        { ...consumerConfig, ...overrides },
+        shadowRunner,
+        workerPool,
+        deadLetters,
     );
 
+    // With partitioning, one durable consumer per partition this instance owns
+    const { partitioning } = config;
+    let partitionCoordinator: PartitionCoordinator | undefined;
+    let partitionRouter: PartitionRouter | undefined;
+    let vitalsConsumer: VitalsConsumer | undefined;
+    if (partitioning.count > 0) {
+        const membership = partitioning.partitions
+            ? undefined
+            : await InstanceMembership.open(natsClient, partitioning.instanceId, {
+                bucket: partitioning.membersBucket,
+                ttlMs: partitioning.memberTtlMs,
+            });
+
+        partitionCoordinator = new PartitionCoordinator(
+            (partition) => createConsumer({
+                durableName: `${config.nats.durable}-${partition}`,
+                subjects: [partitionSubject(vitalsSubject, partition)],
+            }),
+            shadowEngine ? [rulesEngine, shadowEngine] : [rulesEngine],
+            {
+                count: partitioning.count,
+                partitions: parsePartitions(partitioning.partitions, partitioning.count),
+                rebalanceIntervalMs: partitioning.rebalanceIntervalMs,
+            },
+            membership,
+        );
+
+        if (partitioning.router) {
+            partitionRouter = new PartitionRouter(natsClient, {
+                streamName: config.nats.stream,
+                durableName: `${config.nats.durable}-router`,
+                subject: vitalsSubject,
+                partitionCount: partitioning.count,
+            });
+        }
+    }
+
     // Initialize HTTP API server
     const apiServer = new ApiServer(
         config.http.port,
         natsClient,
         metrics,
         rulesEngine,
+        shadowRunner,
+        partitionCoordinator,
+        workerPool,
+        deadLetters,
     );
 
     // Start HTTP server
     await apiServer.start();
 
     // Start consuming messages
-    vitalsConsumer.start().catch((err) => {
-        logger.error({ error: err }, 'Consumer failed');
+    if (partitionCoordinator) {
+        partitionCoordinator.start().catch((err) => {
+            logger.error({ error: err }, 'Partitioned consumers failed');
+        });
+        partitionRouter?.start().catch((err) => {
+            logger.error({ error: err }, 'Partition router failed');
+        });
+    } else {
+        vitalsConsumer = createConsumer();
+        vitalsConsumer.start().catch((err) => {
+            logger.error({ error: err }, 'Consumer failed');
+        });
+    }
+
+    // Apply patient threshold updates
+    const overridesConsumer = new OverridesConsumer(natsClient, overrideStore, {
+        streamName: config.nats.stream,
+        subject: config.overrides.subject,
     });
+    overridesConsumer.start().catch((err) => {
+        logger.error({ error: err }, 'Patient overrides consumer failed');
+    });
+
+    // Apply clinician acknowledgements and snoozes
+    const acknowledgementsConsumer = new AcknowledgementsConsumer(natsClient, rulesEngine, metrics, {
+        streamName: config.nats.stream,
+        ...config.acknowledgements,
+        since: stateStore?.unflushedSince(),
+    });
+    acknowledgementsConsumer.start().catch((err) => {
+        logger.error({ error: err }, 'Alert acknowledgements consumer failed');
+    });
+
+    // Report devices that stop sending vitals
+    const signalMonitor = new SignalLossMonitor(
+        rulesEngine,
+        alertPublisher,
+        metrics,
+        config.signalLoss.checkIntervalMs,
+    );
+    signalMonitor.start();
 
     logger.info('AI Triage Service running');
 
@@ -79,7 +272,15 @@ async function main() {
     const shutdown = async () => {
         logger.info('Shutting down gracefully');
 
+        rulesWatcher.stop();
+        shadowWatcher?.stop();
+        shadowRunner?.stop();
+        signalMonitor.stop();
+        await partitionRouter?.stop();
+        await partitionCoordinator?.stop();
+        await vitalsConsumer?.stop();
         await apiServer.stop();
+        await stateStore?.stop();
         await natsClient.close();
 
         process.exit(0);
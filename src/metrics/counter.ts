@@ -3,8 +3,21 @@ export class Metrics {
         received: 0,
         validated: 0,
         alerts_published: 0,
+        alerts_suppressed: 0,
+        alerts_resolved: 0,
+        alerts_escalated: 0,
+        alerts_acknowledged: 0,
+        alerts_snoozed: 0,
+        signal_lost: 0,
+        signal_recovered: 0,
         dropped_invalid: 0,
+        dropped_artifact: 0,
+        dropped_duplicate: 0,
+        dropped_late: 0,
+        dropped_future: 0,
+        late_evaluated: 0,
         dropped_publish_fail: 0,
+        dead_lettered: 0,
     };
 
     incrementReceived(): void {
@@ -19,14 +32,66 @@ export class Metrics {
         this.counters.alerts_published++;
     }
 
+    incrementAlertsSuppressed(): void {
+        this.counters.alerts_suppressed++;
+    }
+
+    incrementAlertsResolved(): void {
+        this.counters.alerts_resolved++;
+    }
+
+    incrementAlertsEscalated(): void {
+        this.counters.alerts_escalated++;
+    }
+
+    incrementAlertsAcknowledged(): void {
+        this.counters.alerts_acknowledged++;
+    }
+
+    incrementAlertsSnoozed(): void {
+        this.counters.alerts_snoozed++;
+    }
+
+    incrementSignalLost(): void {
+        this.counters.signal_lost++;
+    }
+
+    incrementSignalRecovered(): void {
+        this.counters.signal_recovered++;
+    }
+
     incrementDroppedInvalid(): void {
         this.counters.dropped_invalid++;
     }
 
+    incrementDroppedArtifact(): void {
+        this.counters.dropped_artifact++;
+    }
+
+    incrementDroppedDuplicate(): void {
+        this.counters.dropped_duplicate++;
+    }
+
+    incrementDroppedLate(): void {
+        this.counters.dropped_late++;
+    }
+
+    incrementDroppedFuture(): void {
+        this.counters.dropped_future++;
+    }
+
+    incrementLateEvaluated(): void {
+        this.counters.late_evaluated++;
+    }
+
     incrementDroppedPublishFail(): void {
         this.counters.dropped_publish_fail++;
     }
 
+    incrementDeadLettered(): void {
+        this.counters.dead_lettered++;
+    }
+
     getCounters() {
         return { ...this.counters };
     }
@@ -36,8 +101,21 @@ export class Metrics {
             received: 0,
             validated: 0,
             alerts_published: 0,
+            alerts_suppressed: 0,
+            alerts_resolved: 0,
+            alerts_escalated: 0,
+            alerts_acknowledged: 0,
+            alerts_snoozed: 0,
+            signal_lost: 0,
+            signal_recovered: 0,
             dropped_invalid: 0,
+            dropped_artifact: 0,
+            dropped_duplicate: 0,
+            dropped_late: 0,
+            dropped_future: 0,
+            late_evaluated: 0,
             dropped_publish_fail: 0,
+            dead_lettered: 0,
         };
     }
 }
@@ -0,0 +1,100 @@
+import { hasFields, pickValues, readNumeric } from '../rules/dsl.js';
+import type { AlertResult, RiskContribution, Severity, VitalsData } from '../rules/types.js';
+import type { EvaluationInput, Evaluator, ModelFeature, ModelFile, RiskThresholds } from './types.js';
+
+export const RISK_MODEL_CODE = 'RISK_MODEL_ELEVATED';
+
+export const DEFAULT_RISK_ACTIONS: Record<Severity, string> = {
+    low: 'Review patient: risk model indicates early signs of deterioration.',
+    medium: 'Urgent clinical review: risk model indicates likely deterioration.',
+    high: 'Immediate clinical assessment: risk model indicates imminent deterioration.',
+};
+
+const SEVERITIES: Severity[] = ['high', 'medium', 'low'];
+
+/**
+ * Severity of the highest band the score reaches
+ */
+export function scoreSeverity(score: number, thresholds: RiskThresholds): Severity | undefined {
+    return SEVERITIES.find((severity) => score >= thresholds[severity]);
+}
+
+function sigmoid(logit: number): number {
+    return 1 / (1 + Math.exp(-logit));
+}
+
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+export interface ModelOutput {
+    logit: number;
+    contributions: Map<string, number>;
+}
+
+/**
+ * Turns a model's log-odds into a score, severity band and alert reason.
+ * Subclasses compute the log-odds and per-feature contributions.
+ */
+export abstract class ModelEvaluator<T extends ModelFile = ModelFile> implements Evaluator {
+    readonly name: string;
+    readonly version: string;
+    readonly thresholds: RiskThresholds;
+
+    constructor(protected model: T) {
+        this.name = model.name;
+        this.version = model.version;
+        this.thresholds = model.thresholds;
+    }
+
+    protected abstract score(values: Map<string, number | null>): ModelOutput;
+
+    evaluate({ vitals }: EvaluationInput): AlertResult {
+        const values = this.readFeatures(vitals);
+        const { logit, contributions } = this.score(values);
+        const score = round(sigmoid(logit));
+        const severity = scoreSeverity(score, this.thresholds);
+
+        const explanation: RiskContribution[] = [...contributions]
+            .filter(([, contribution]) => contribution !== 0)
+            .map(([feature, contribution]) => ({
+                feature,
+                value: values.get(feature) ?? null,
+                contribution: round(contribution),
+            }))
+            .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+        const risk = { model: this.name, version: this.version, score, explanation };
+
+        if (!severity) {
+            return { shouldAlert: false, risk };
+        }
+
+        return {
+            shouldAlert: true,
+            severity,
+            reasons: [{
+                code: RISK_MODEL_CODE,
+                message: `Risk model ${this.name} ${this.version} score ${score} at or above ${this.thresholds[severity]}`,
+                evidence: {
+                    source: 'model',
+                    observed: pickValues(vitals, this.model.features.map((feature) => feature.name)),
+                    score,
+                    threshold: this.thresholds[severity],
+                    severity,
+                },
+            }],
+            suggestedAction: DEFAULT_RISK_ACTIONS[severity],
+            risk,
+        };
+    }
+
+    private readFeatures(vitals: VitalsData): Map<string, number | null> {
+        return new Map(this.model.features.map((feature: ModelFeature) => [
+            feature.name,
+            hasFields(vitals, [feature.name])
+                ? readNumeric(vitals, feature.name)
+                : feature.impute ?? feature.mean ?? null,
+        ]));
+    }
+}
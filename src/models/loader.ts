@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { logger } from '../config/logger.js';
+import { SchemaValidator } from '../contracts/schema-validator.js';
+import type { ValidationIssue } from '../contracts/schema-validator.js';
+import { formatIssues } from '../rules/validation.js';
+import { LogisticRegressionEvaluator } from './logistic.js';
+import { GradientBoostedTreesEvaluator } from './trees.js';
+import type { Evaluator, ModelFile, TreeNode } from './types.js';
+
+/**
+ * Thrown when a model file fails schema or semantic validation
+ */
+export class ModelValidationError extends Error {
+    constructor(public readonly issues: ValidationIssue[]) {
+        super(`Model file is invalid:\n${formatIssues(issues)}`);
+        this.name = 'ModelValidationError';
+    }
+}
+
+function checkTree(node: TreeNode, path: string, declared: Set<string>, issues: ValidationIssue[]): void {
+    if ('leaf' in node) {
+        return;
+    }
+    if (!declared.has(node.feature)) {
+        issues.push({ path: `${path}.feature`, message: `"${node.feature}" is not a declared feature` });
+    }
+    checkTree(node.left, `${path}.left`, declared, issues);
+    checkTree(node.right, `${path}.right`, declared, issues);
+}
+
+/**
+ * Validate a model file: schema first, then ascending thresholds and
+ * references to declared features
+ */
+export function validateModel(model: unknown, validator: SchemaValidator): ValidationIssue[] {
+    const result = validator.validateModelFile(model);
+    if (!result.valid) {
+        return result.issues ?? [{ path: '$', message: result.errors ?? 'invalid' }];
+    }
+
+    const file = model as ModelFile;
+    const issues: ValidationIssue[] = [];
+    const declared = new Set<string>(file.features.map((feature) => feature.name));
+
+    if (file.thresholds.low > file.thresholds.medium || file.thresholds.medium > file.thresholds.high) {
+        issues.push({ path: '$.thresholds', message: 'must satisfy low <= medium <= high' });
+    }
+
+    if (file.type === 'logistic_regression') {
+        for (const feature of Object.keys(file.coefficients)) {
+            if (!declared.has(feature)) {
+                issues.push({ path: `$.coefficients.${feature}`, message: 'is not a declared feature' });
+            }
+        }
+    } else {
+        file.trees.forEach((tree, i) => checkTree(tree, `$.trees[${i}]`, declared, issues));
+    }
+
+    return issues;
+}
+
+export function createEvaluator(model: ModelFile): Evaluator {
+    return model.type === 'logistic_regression'
+        ? new LogisticRegressionEvaluator(model)
+        : new GradientBoostedTreesEvaluator(model);
+}
+
+/**
+ * Load and validate a risk model file
+ */
+export function loadModel(modelPath: string, validator: SchemaValidator): Evaluator {
+    try {
+        const model = JSON.parse(readFileSync(modelPath, 'utf-8')) as ModelFile;
+
+        const issues = validateModel(model, validator);
+        if (issues.length > 0) {
+            throw new ModelValidationError(issues);
+        }
+
+        logger.info(
+            { modelPath, type: model.type, name: model.name, version: model.version },
+            'Risk model loaded successfully',
+        );
+
+        return createEvaluator(model);
+    } catch (err) {
+        logger.error({ modelPath, error: err }, 'Failed to load model');
+        throw new Error(`Failed to load model from ${modelPath}: ${err instanceof Error ? err.message : err}`);
+    }
+}
@@ -0,0 +1,29 @@
+import { ModelEvaluator } from './evaluator.js';
+import type { ModelOutput } from './evaluator.js';
+import type { LogisticRegressionFile } from './types.js';
+
+/**
+ * Logistic regression over standardised features. Each feature contributes
+ * its coefficient times its standardised value; a missing feature with no
+ * imputed value contributes nothing.
+ */
+export class LogisticRegressionEvaluator extends ModelEvaluator<LogisticRegressionFile> {
+    protected score(values: Map<string, number | null>): ModelOutput {
+        const contributions = new Map<string, number>();
+        let logit = this.model.intercept;
+
+        for (const feature of this.model.features) {
+            const value = values.get(feature.name);
+            const coefficient = this.model.coefficients[feature.name] ?? 0;
+            if (value === null || value === undefined) {
+                continue;
+            }
+
+            const contribution = coefficient * (value - (feature.mean ?? 0)) / (feature.scale ?? 1);
+            contributions.set(feature.name, contribution);
+            logit += contribution;
+        }
+
+        return { logit, contributions };
+    }
+}
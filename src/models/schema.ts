@@ -0,0 +1,98 @@
+import { VITAL_FIELDS } from '../rules/vitals.js';
+
+export const MODEL_SCHEMA_ID = 'https://5g-health-platform.example.com/schemas/ai-triage/model.json';
+
+const field = { enum: VITAL_FIELDS };
+const probability = { type: 'number', minimum: 0, maximum: 1 };
+
+const common = {
+    type: { type: 'string' },
+    name: { type: 'string', minLength: 1 },
+    version: { type: 'string', minLength: 1 },
+    thresholds: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['low', 'medium', 'high'],
+        properties: { low: probability, medium: probability, high: probability },
+    },
+    features: {
+        type: 'array',
+        minItems: 1,
+        items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['name'],
+            properties: {
+                name: field,
+                impute: { type: 'number' },
+                mean: { type: 'number' },
+                scale: { type: 'number', exclusiveMinimum: 0 },
+            },
+        },
+    },
+};
+
+/**
+ * JSON Schema (draft 2020-12) for risk model files. Structural only;
+ * threshold ordering and feature references are checked by validateModel.
+ */
+export const modelSchema = {
+    $id: MODEL_SCHEMA_ID,
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    required: ['type', 'name', 'version', 'thresholds', 'features'],
+    properties: {
+        type: { enum: ['logistic_regression', 'gradient_boosted_trees'] },
+    },
+    allOf: [
+        {
+            if: { properties: { type: { const: 'logistic_regression' } } },
+            then: {
+                additionalProperties: false,
+                required: ['intercept', 'coefficients'],
+                properties: {
+                    ...common,
+                    intercept: { type: 'number' },
+                    coefficients: {
+                        type: 'object',
+                        propertyNames: field,
+                        additionalProperties: { type: 'number' },
+                    },
+                },
+            },
+        },
+        {
+            if: { properties: { type: { const: 'gradient_boosted_trees' } } },
+            then: {
+                additionalProperties: false,
+                required: ['base_score', 'trees'],
+                properties: {
+                    ...common,
+                    base_score: { type: 'number' },
+                    trees: { type: 'array', minItems: 1, items: { $ref: '#/$defs/node' } },
+                },
+            },
+        },
+    ],
+    $defs: {
+        node: {
+            type: 'object',
+            if: { required: ['leaf'] },
+            then: {
+                additionalProperties: false,
+                properties: { leaf: { type: 'number' } },
+            },
+            else: {
+                additionalProperties: false,
+                required: ['feature', 'threshold', 'left', 'right'],
+                properties: {
+                    feature: field,
+                    threshold: { type: 'number' },
+                    missing: { enum: ['left', 'right'] },
+                    left: { $ref: '#/$defs/node' },
+                    right: { $ref: '#/$defs/node' },
+                },
+            },
+        },
+    },
+};
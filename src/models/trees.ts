@@ -0,0 +1,37 @@
+import { ModelEvaluator } from './evaluator.js';
+import type { ModelOutput } from './evaluator.js';
+import type { GradientBoostedTreesFile, TreeNode } from './types.js';
+
+/**
+ * Gradient-boosted trees whose leaves are log-odds increments. Each tree's
+ * leaf value is shared equally between the features split on along the
+ * path to it, an approximate attribution that needs no per-node means.
+ */
+export class GradientBoostedTreesEvaluator extends ModelEvaluator<GradientBoostedTreesFile> {
+    protected score(values: Map<string, number | null>): ModelOutput {
+        const contributions = new Map<string, number>();
+        let logit = this.model.base_score;
+
+        for (const tree of this.model.trees) {
+            const path = new Set<string>();
+            let node: TreeNode = tree;
+
+            while (!('leaf' in node)) {
+                const value = values.get(node.feature);
+                path.add(node.feature);
+
+                const goLeft = value === null || value === undefined
+                    ? (node.missing ?? 'left') === 'left'
+                    : value < node.threshold;
+                node = goLeft ? node.left : node.right;
+            }
+
+            logit += node.leaf;
+            for (const feature of path) {
+                contributions.set(feature, (contributions.get(feature) ?? 0) + node.leaf / path.size);
+            }
+        }
+
+        return { logit, contributions };
+    }
+}
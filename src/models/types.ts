@@ -0,0 +1,72 @@
+import type { AlertResult, Severity, VitalField, VitalsData, VitalsSample } from '../rules/types.js';
+
+export interface EvaluationInput {
+    vitals: VitalsData;
+    /** Readings kept for trend rules, oldest first, including this one; empty when no rule reads history */
+    history: VitalsSample[];
+}
+
+/**
+ * Score at or above which each severity applies
+ */
+export type RiskThresholds = Record<Severity, number>;
+
+/**
+ * A risk model that sits beside the rules engine. The result carries
+ * `risk` with the score and its explanation; `shouldAlert`, `severity`
+ * and `reasons` reflect the model alone and are combined with the rules
+ * by the engine's composition strategy.
+ */
+export interface Evaluator {
+    readonly name: string;
+    readonly version: string;
+    readonly thresholds: RiskThresholds;
+    evaluate(input: EvaluationInput): AlertResult;
+}
+
+export interface ModelFeature {
+    name: VitalField;
+    /** Value used when the reading lacks the field */
+    impute?: number;
+    /** Standardisation applied before logistic regression coefficients */
+    mean?: number;
+    scale?: number;
+}
+
+interface ModelFileBase {
+    name: string;
+    version: string;
+    thresholds: RiskThresholds;
+    features: ModelFeature[];
+}
+
+export interface LogisticRegressionFile extends ModelFileBase {
+    type: 'logistic_regression';
+    intercept: number;
+    coefficients: Partial<Record<VitalField, number>>;
+}
+
+export interface TreeSplit {
+    feature: VitalField;
+    /** Values below the threshold go left */
+    threshold: number;
+    /** Branch for a missing value (default left) */
+    missing?: 'left' | 'right';
+    left: TreeNode;
+    right: TreeNode;
+}
+
+export interface TreeLeaf {
+    leaf: number;
+}
+
+export type TreeNode = TreeSplit | TreeLeaf;
+
+export interface GradientBoostedTreesFile extends ModelFileBase {
+    type: 'gradient_boosted_trees';
+    /** Log-odds before any tree is added */
+    base_score: number;
+    trees: TreeNode[];
+}
+
+export type ModelFile = LogisticRegressionFile | GradientBoostedTreesFile;
@@ -0,0 +1,84 @@
+import { DeliverPolicy } from 'nats';
+import { logger } from '../config/logger.js';
+import { NatsClient } from './connection.js';
+import { consumeRecords } from './record-consumer.js';
+import { RulesEngine } from '../rules/engine.js';
+import { Metrics } from '../metrics/counter.js';
+import type { Acknowledgement, AcknowledgementRecord } from '../rules/types.js';
+
+export interface AcknowledgementsConsumerConfig {
+    streamName: string;
+    acknowledgedSubject: string;
+    snoozedSubject: string;
+    /** Replay acknowledgements published since, e.g. those the stored patient state may be missing */
+    since?: Date;
+}
+
+/**
+ * Applies `patient.alert.acknowledged` and `patient.alert.snoozed` events
+ * to the rules engine. Uses an ordered consumer from new messages, or from
+ * `since` when patient state was restored from a store, so acknowledgements
+ * published after the state was last written are applied on restart.
+ * Applying an acknowledgement again sets the same acknowledgement.
+ */
+export class AcknowledgementsConsumer {
+    constructor(
+        private natsClient: NatsClient,
+        private rulesEngine: RulesEngine,
+        private metrics: Metrics,
+        private config: AcknowledgementsConsumerConfig,
+    ) { }
+
+    async start(): Promise<void> {
+        const js = this.natsClient.getConnection().jetstream();
+
+        logger.info(
+            {
+                stream: this.config.streamName,
+                subjects: [this.config.acknowledgedSubject, this.config.snoozedSubject],
+                since: this.config.since?.toISOString(),
+            },
+            'Starting alert acknowledgements consumer',
+        );
+
+        await consumeRecords<AcknowledgementRecord>(
+            js,
+            this.config.streamName,
+            {
+                filterSubjects: [this.config.acknowledgedSubject, this.config.snoozedSubject],
+                ...(this.config.since
+                    ? { deliver_policy: DeliverPolicy.StartTime, opt_start_time: this.config.since.toISOString() }
+                    : { deliver_policy: DeliverPolicy.New }),
+            },
+            'Alert acknowledgement',
+            (record, msg) => this.apply(record, msg.subject === this.config.snoozedSubject ? 'snoozed' : 'acknowledged'),
+        );
+    }
+
+    private apply(record: AcknowledgementRecord, type: Acknowledgement['type']): void {
+        if (!record.patient_id) {
+            logger.warn({ record, type }, 'Alert acknowledgement missing patient_id, ignored');
+            return;
+        }
+        if (type === 'snoozed' && !(typeof record.snooze_ms === 'number' && record.snooze_ms > 0)) {
+            logger.warn({ record }, 'Alert snooze without a positive snooze_ms, ignored');
+            return;
+        }
+
+        const applied = this.rulesEngine.acknowledge(record, type);
+        if (applied === 0) {
+            logger.info({ patient_id: record.patient_id, type }, 'No open alert episodes to acknowledge');
+            return;
+        }
+
+        if (type === 'snoozed') {
+            this.metrics.incrementAlertsSnoozed();
+        } else {
+            this.metrics.incrementAlertsAcknowledged();
+        }
+        logger.info(
+            { patient_id: record.patient_id, alert_event_id: record.alert_event_id, type, episodes: applied },
+            'Alert acknowledgement applied',
+        );
+    }
+}
@@ -3,17 +3,110 @@ import { logger } from '../config/logger.js';
 import { SchemaValidator } from '../contracts/schema-validator.js';
 import { RulesEngine } from '../rules/engine.js';
 import { NatsClient } from './connection.js';
+import { DeadLetterQueue } from './dead-letter.js';
+import type { DeadLetterStage } from './dead-letter.js';
+import { readPatientId } from './partitions.js';
 import { AlertPublisher } from './publisher.js';
+import { ReorderBuffer } from './reorder-buffer.js';
+import { artifactDecision, ShadowRunner, triageDecision } from './shadow.js';
+import { WorkerPool } from './worker-pool.js';
 import { Metrics } from '../metrics/counter.js';
-import type { VitalsData } from '../rules/types.js';
+import type { PatientSnapshot, TriageDecision, VitalsData } from '../rules/types.js';
 
-export interface ConsumerConfig {
+/**
+ * What happens to a reading older than the newest one admitted for the
+ * patient: dropped, evaluated without changing the patient's state, or
+ * dropped unless a short hold before evaluation put it back in order
+ */
+export type LateReadingPolicy = 'drop' | 'evaluate' | 'reorder';
+
+export interface DurableConsumerConfig {
     streamName: string;
     durableName: string;
-    subject: string;
+    /** Filter subjects; more than one needs NATS 2.10 or later */
+    subjects: string[];
+}
+
+export interface ConsumerConfig extends DurableConsumerConfig {
+    /** Publish rejected readings to vitals.artifact.detected */
+    publishArtifacts?: boolean;
+    lateReadings?: LateReadingPolicy;
+    /** How long readings are held to restore their order under `reorder` */
+    reorderBufferMs?: number;
+}
+
+/** Deliveries of a message before JetStream gives up on it */
+export const MAX_DELIVER = 5;
+
+/**
+ * Reading timestamp of a vitals message in epoch ms, or arrival time if
+ * it cannot be read
+ */
+function readingTimeOf(msg: any): number {
+    try {
+        const data = msg.json();
+        const parsed = Date.parse((data.payload ?? data).timestamp);
+        return isNaN(parsed) ? Date.now() : parsed;
+    } catch {
+        return Date.now();
+    }
 }
 
+/**
+ * Get a durable pull consumer, creating it if it does not exist yet
+ */
+export async function ensureDurableConsumer(nc: any, js: any, config: DurableConsumerConfig): Promise<any> {
+    try {
+        // Try to get existing consumer
+        const consumer = await js.consumers.get(config.streamName, config.durableName);
+        logger.info({ durable: config.durableName }, 'Using existing consumer');
+        return consumer;
+    } catch (err: any) {
+        // Consumer doesn't exist, create it
+        if (!(err.message?.includes('consumer not found') || err.code === '404')) {
+            throw err;
+        }
+    }
+
+    logger.info('Consumer not found, creating new consumer');
+
+    const jsm = await nc.jetstreamManager();
+    const consumerConfig = {
+        durable_name: config.durableName,
+        ...(config.subjects.length === 1
+            ? { filter_subject: config.subjects[0] }
+            : { filter_subjects: config.subjects }),
+        ack_policy: AckPolicy.Explicit,
+        deliver_policy: DeliverPolicy.All,
+        max_deliver: MAX_DELIVER,
+        ack_wait: 30_000_000_000, // 30 seconds in nanoseconds
+    };
+
+    logger.info({ config: consumerConfig }, 'Creating consumer with config');
+    await jsm.consumers.add(config.streamName, consumerConfig);
+
+    const consumer = await js.consumers.get(config.streamName, config.durableName);
+    logger.info({ durable: config.durableName }, 'Consumer created');
+    return consumer;
+}
+
+/**
+ * Consumes vitals readings, handing them to a worker pool so different
+ * patients are handled in parallel and each patient's readings in order
+ */
 export class VitalsConsumer {
+    private messages: any = null;
+    private stopped = false;
+    private handling = new Set<Promise<void>>();
+    /** What each message changes in the patient's state, as it was before, restored if the message is retried */
+    private snapshots = new WeakMap<object, PatientSnapshot>();
+    private reorder?: ReorderBuffer<any>;
+    /** Per patient, the dispatch of readings released earlier, which later releases queue behind */
+    private releases = new Map<string, Promise<void>>();
+    /** Messages pulled but not handled yet, held ones included */
+    private unhandled = 0;
+    private capacityFreed?: () => void;
+
     constructor(
         private natsClient: NatsClient,
         private validator: SchemaValidator,
@@ -21,7 +114,16 @@ export class VitalsConsumer {
         private alertPublisher: AlertPublisher,
         private metrics: Metrics,
         private config: ConsumerConfig,
-    ) { }
+        private shadow?: ShadowRunner,
+        private workers: WorkerPool = new WorkerPool(1, 100),
+        private deadLetters?: DeadLetterQueue,
+    ) {
+        if (config.lateReadings === 'reorder') {
+            this.reorder = new ReorderBuffer(config.reorderBufferMs ?? 0, (patientId, held) => {
+                this.release(patientId, held);
+            });
+        }
+    }
 
     async start(): Promise<void> {
         const nc = this.natsClient.getConnection();
@@ -31,7 +133,7 @@ export class VitalsConsumer {
             {
                 stream: this.config.streamName,
                 durable: this.config.durableName,
-                subject: this.config.subject,
+                subjects: this.config.subjects,
             },
             'Starting JetStream consumer',
         );
@@ -53,7 +155,7 @@ export class VitalsConsumer {
                     message.includes('unavailable') ||
                     message.includes('consumer not found');
 
-                if (isRetryable && attempt < maxRetries) {
+                if (isRetryable && attempt < maxRetries && !this.stopped) {
                     logger.warn(
                         { attempt, maxRetries, error: message, code },
                         'JetStream not ready, retrying...',
@@ -69,45 +171,133 @@ export class VitalsConsumer {
         throw lastError;
     }
 
+    /**
+     * Stop pulling messages; messages already held or queued are handled first
+     */
+    async stop(): Promise<void> {
+        this.stopped = true;
+        await this.messages?.close();
+        this.messages = null;
+        this.reorder?.flushAll();
+        while (this.handling.size > 0) {
+            await Promise.all(this.handling);
+        }
+    }
+
     private async connectAndConsume(nc: any, js: any): Promise<void> {
-        let consumer: any;
+        const consumer = await ensureDurableConsumer(nc, js, this.config);
 
-        try {
-            // Try to get existing consumer
-            consumer = await js.consumers.get(this.config.streamName, this.config.durableName);
-            logger.info({ durable: this.config.durableName }, 'Using existing consumer');
-        } catch (err: any) {
-            // Consumer doesn't exist, create it
-            if (err.message?.includes('consumer not found') || err.code === '404') {
-                logger.info('Consumer not found, creating new consumer');
-
-                const jsm = await nc.jetstreamManager();
-                const consumerConfig = {
-                    durable_name: this.config.durableName,
-                    filter_subject: this.config.subject,
-                    ack_policy: AckPolicy.Explicit,
-                    deliver_policy: DeliverPolicy.All,
-                    max_deliver: 5,
-                    ack_wait: 30_000_000_000, // 30 seconds in nanoseconds
-                };
-
-                logger.info({ config: consumerConfig }, 'Creating consumer with config');
-                await jsm.consumers.add(this.config.streamName, consumerConfig);
-
-                consumer = await js.consumers.get(this.config.streamName, this.config.durableName);
-                logger.info({ durable: this.config.durableName }, 'Consumer created');
-            } else {
-                throw err;
-            }
+        if (this.stopped) {
+            return;
         }
 
-        // Start consuming messages
+        // Start consuming messages; waiting on the pool holds back the pull
         const messages = await consumer.consume({
-            max_messages: 100,
+            max_messages: this.workers.maxInFlight,
         });
+        this.messages = messages;
 
         for await (const msg of messages) {
+            this.unhandled++;
+            const patientId = readPatientId(msg);
+            if (!this.reorder || patientId === undefined) {
+                await this.dispatch(patientId ?? '', msg);
+                continue;
+            }
+
+            // Held readings count against the in-flight limit; release them early once it is reached
+            this.reorder.hold(patientId, readingTimeOf(msg), msg);
+            if (this.reorder.size() >= this.workers.maxInFlight) {
+                this.reorder.flushAll();
+            }
+
+            // Released readings may still be waiting for the pool, so wait for handled ones
+            while (this.unhandled >= this.workers.maxInFlight) {
+                await new Promise<void>((resolve) => this.capacityFreed = resolve);
+            }
+        }
+    }
+
+    private async dispatch(patientId: string, msg: any): Promise<void> {
+        const { done } = await this.workers.dispatch(patientId, () => this.handle(msg));
+        this.track(done.then(() => {
+            this.unhandled--;
+            this.capacityFreed?.();
+        }));
+    }
+
+    /**
+     * Dispatch released readings in order, behind the patient's earlier
+     * releases that are still waiting for the pool, so they cannot overtake them
+     */
+    private release(patientId: string, held: any[]): void {
+        const dispatched = (this.releases.get(patientId) ?? Promise.resolve()).then(async () => {
+            for (const msg of held) {
+                await this.dispatch(patientId, msg);
+            }
+        });
+
+        this.releases.set(patientId, dispatched);
+        this.track(dispatched.then(() => {
+            if (this.releases.get(patientId) === dispatched) {
+                this.releases.delete(patientId);
+            }
+        }));
+    }
+
+    private track(handling: Promise<void>): void {
+        this.handling.add(handling);
+        handling.then(() => this.handling.delete(handling));
+    }
+
+    /**
+     * Handle a message, retrying it later if handling throws
+     */
+    private async handle(msg: any): Promise<void> {
+        try {
             await this.handleMessage(msg);
+        } catch (err) {
+            logger.error({ error: err }, 'Message handling failed, message NAKed for retry');
+            await this.retry(msg, err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    /**
+     * NAK a message for redelivery, restoring what the message changed in
+     * the patient's state so the redelivery is neither dropped
+     * as a duplicate nor counted twice. Events published before the
+     * failure may be published again. On its last allowed delivery the
+     * message is dead-lettered instead.
+     */
+    private async retry(msg: any, reason: string): Promise<void> {
+        const snapshot = this.snapshots.get(msg);
+        if (snapshot) {
+            this.rulesEngine.restorePatient(snapshot);
+        }
+
+        if (this.deadLetters && (msg.info?.redeliveryCount ?? 1) >= MAX_DELIVER) {
+            await this.deadLetter(msg, 'max_deliver', reason);
+            msg.ack();
+            return;
+        }
+
+        msg.nak(2000);
+    }
+
+    /**
+     * Evaluate a reading on the candidate rules in shadow once its live
+     * outcome is final, so a retried reading is compared once; read-only
+     * evaluations are not compared
+     */
+    private async observeShadow(vitals: VitalsData, live: TriageDecision, readOnly: boolean): Promise<void> {
+        if (!readOnly) {
+            await this.shadow?.observe(vitals, live);
+        }
+    }
+
+    private async deadLetter(msg: any, stage: DeadLetterStage, reason: string): Promise<void> {
+        if (await this.deadLetters?.publish(msg, stage, reason)) {
+            this.metrics.incrementDeadLettered();
         }
     }
 
@@ -123,6 +313,7 @@ export class VitalsConsumer {
         } catch (err) {
             logger.error({ error: err, data: msg.data }, 'JSON parse error');
             this.metrics.incrementDroppedInvalid();
+            await this.deadLetter(msg, 'parse', err instanceof Error ? err.message : String(err));
             msg.ack(); // ACK to avoid reprocessing
             return;
         }
@@ -143,21 +334,154 @@ export class VitalsConsumer {
                 'Schema validation failed',
             );
             this.metrics.incrementDroppedInvalid();
+            await this.deadLetter(msg, 'validation', validationResult.errors ?? 'Schema validation failed');
             msg.ack(); // ACK to avoid poison message loop
             return;
         }
 
         this.metrics.incrementValidated();
 
-        // Step 4: Evaluate with rules engine
-        const alertResult = this.rulesEngine.evaluate(vitals);
+        // Step 4: Drop redelivered and future readings, and late ones unless evaluated read-only
+        this.snapshots.set(msg, this.rulesEngine.snapshotPatient(vitals.patient_id));
+        const admission = this.rulesEngine.admitReading(vitals);
+        if (admission === 'future') {
+            logger.warn(
+                { patient_id: vitals.patient_id, timestamp: vitals.timestamp, device_id: vitals.device_id },
+                'Reading from the future dropped, check the device clock',
+            );
+            this.metrics.incrementDroppedFuture();
+            msg.ack();
+            return;
+        }
+        if (admission === 'duplicate') {
+            logger.debug(
+                { patient_id: vitals.patient_id, timestamp: vitals.timestamp, device_id: vitals.device_id },
+                'Duplicate reading dropped',
+            );
+            this.metrics.incrementDroppedDuplicate();
+            msg.ack();
+            return;
+        }
+
+        const readOnly = admission === 'late' && this.config.lateReadings === 'evaluate';
+        if (admission !== 'new' && !readOnly) {
+            logger.info(
+                { patient_id: vitals.patient_id, timestamp: vitals.timestamp, admission },
+                'Late reading dropped',
+            );
+            this.metrics.incrementDroppedLate();
+            msg.ack();
+            return;
+        }
+
+        if (readOnly) {
+            this.metrics.incrementLateEvaluated();
+        }
+
+        // Step 5: Drop sensor artifacts before they count towards violations
+        const artifactCheck = this.rulesEngine.checkArtifacts(vitals, { readOnly });
+        if (artifactCheck.artifact) {
+            logger.info(
+                { patient_id: vitals.patient_id, reasons: artifactCheck.reasons },
+                'Reading rejected as sensor artifact',
+            );
+            this.metrics.incrementDroppedArtifact();
+
+            // Best effort: a failed artifact event does not hold up the stream
+            if (this.config.publishArtifacts) {
+                await this.alertPublisher.publishArtifact(
+                    vitals,
+                    artifactCheck.reasons,
+                    this.rulesEngine.getRulesVersion(),
+                );
+            }
+            await this.observeShadow(vitals, artifactDecision(this.rulesEngine.getRulesVersion()), readOnly);
+            msg.ack();
+            return;
+        }
+
+        // Step 6: Evaluate with rules engine
+        const alertResult = this.rulesEngine.evaluate(vitals, { readOnly });
+
+        // Step 7: Publish the end of a reported signal loss
+        if (alertResult.signalRecovered) {
+            const published = await this.alertPublisher.publishSignalRecovered(
+                vitals,
+                alertResult.signalRecovered,
+                alertResult.rulesVersion,
+            );
+
+            if (!published) {
+                this.metrics.incrementDroppedPublishFail();
+                await this.retry(msg, 'Signal recovery publish failed');
+                logger.warn(
+                    { patient_id: vitals.patient_id },
+                    'Signal recovery publish failed, message NAKed for retry',
+                );
+                return;
+            }
+
+            this.rulesEngine.recordSignalRecovered(vitals.patient_id, alertResult.signalRecovered);
+            this.metrics.incrementSignalRecovered();
+        }
+
+        // Step 8: Publish resolutions for alert episodes that ended
+        for (const resolution of alertResult.resolved ?? []) {
+            const published = await this.alertPublisher.publishResolved(vitals, resolution, alertResult.rulesVersion);
+
+            if (!published) {
+                this.metrics.incrementDroppedPublishFail();
+                await this.retry(msg, 'Alert resolution publish failed');
+                logger.warn(
+                    { patient_id: vitals.patient_id, reason_code: resolution.code },
+                    'Alert resolution publish failed, message NAKed for retry',
+                );
+                return;
+            }
+
+            this.rulesEngine.recordResolved(vitals.patient_id, resolution);
+            this.metrics.incrementAlertsResolved();
+        }
+
+        // Step 9: Publish escalations of open alert episodes
+        for (const escalation of alertResult.escalations ?? []) {
+            const published = await this.alertPublisher.publishEscalated(vitals, escalation, alertResult.rulesVersion);
+
+            if (!published) {
+                this.metrics.incrementDroppedPublishFail();
+                await this.retry(msg, 'Alert escalation publish failed');
+                logger.warn(
+                    { patient_id: vitals.patient_id, alert_event_id: escalation.alertEventId },
+                    'Alert escalation publish failed, message NAKed for retry',
+                );
+                return;
+            }
+
+            this.rulesEngine.recordEscalation(vitals.patient_id, escalation);
+            this.metrics.incrementAlertsEscalated();
+        }
 
         if (!alertResult.shouldAlert) {
+            await this.observeShadow(vitals, triageDecision(alertResult), readOnly);
             msg.ack();
             return;
         }
 
-        // Step 5: Publish alert
+        // Withheld by cooldown, or every reason escalated instead
+        if (alertResult.suppressed) {
+            if (!alertResult.escalations?.length) {
+                logger.debug(
+                    { patient_id: vitals.patient_id, severity: alertResult.severity, reasons: alertResult.reasons },
+                    'Alert suppressed by cooldown',
+                );
+                this.metrics.incrementAlertsSuppressed();
+            }
+            await this.observeShadow(vitals, triageDecision(alertResult), readOnly);
+            msg.ack();
+            return;
+        }
+
+        // Step 10: Publish alert
         logger.info(
             {
                 patient_id: vitals.patient_id,
@@ -167,22 +491,19 @@ export class VitalsConsumer {
             'Alert triggered',
         );
 
-        const published = await this.alertPublisher.publishAlert(
-            vitals,
-            alertResult.severity!,
-            alertResult.reasons!,
-            alertResult.suggestedAction!,
-        );
+        const alertEventId = await this.alertPublisher.publishAlert(vitals, alertResult);
 
-        if (published) {
+        if (alertEventId) {
+            this.rulesEngine.recordAlert(vitals, alertResult, alertEventId);
             this.metrics.incrementAlertsPublished();
+            await this.observeShadow(vitals, triageDecision(alertResult), readOnly);
             msg.ack();
         } else {
             // Failed to publish alert
             this.metrics.incrementDroppedPublishFail();
 
             // NAK with delay to retry
-            msg.nak(2000); // 2 second delay
+            await this.retry(msg, 'Alert publish failed');
 
             logger.warn(
                 { patient_id: vitals.patient_id },
@@ -0,0 +1,320 @@
+import { DeliverPolicy, headers } from 'nats';
+import type { NatsError } from 'nats';
+import { logger } from '../config/logger.js';
+import { NatsClient } from './connection.js';
+import { readPatientId } from './partitions.js';
+
+/** Dead-lettered messages listed over HTTP */
+const RECENT_ENTRIES = 50;
+
+/** JetStream API error code for a subject without messages */
+const NO_MESSAGE_FOUND = 10037;
+
+/**
+ * Where handling gave up on a message: it was not JSON, failed schema
+ * validation, or was still failing on its last allowed delivery
+ */
+export type DeadLetterStage = 'parse' | 'validation' | 'max_deliver';
+
+export const DEAD_LETTER_HEADERS = {
+    stage: 'Triage-Failure-Stage',
+    reason: 'Triage-Failure-Reason',
+    subject: 'Triage-Original-Subject',
+    sequence: 'Triage-Stream-Sequence',
+    deliveries: 'Triage-Delivery-Count',
+    failedAt: 'Triage-Failed-At',
+} as const;
+
+export interface DeadLetterEntry {
+    stage: DeadLetterStage;
+    reason: string;
+    original_subject?: string;
+    stream_sequence?: number;
+    /** Deliveries of the original message, 1 on first delivery */
+    delivery_count?: number;
+    failed_at: string;
+    patient_id?: string;
+    /** Stream sequence of the dead-letter message, when read from the stream */
+    seq?: number;
+}
+
+/**
+ * Messages dead-lettered by this instance since it started
+ */
+export interface DeadLetterStats {
+    subject: string;
+    since: string;
+    by_stage: Record<DeadLetterStage, number>;
+}
+
+export interface ReplayOptions {
+    stream: string;
+    /** Dead-letter subject to replay from */
+    subject: string;
+    /** First stream sequence to replay; from the start of the stream if unset */
+    fromSeq?: number;
+    stage?: DeadLetterStage;
+    limit?: number;
+    /** List what would be replayed without publishing */
+    dryRun?: boolean;
+    /** Target for entries without an original subject header */
+    fallbackSubject: string;
+}
+
+export interface ReplayResult {
+    replayed: number;
+    skipped: number;
+    /** Stream sequence of the last dead-letter message read */
+    lastSeq?: number;
+}
+
+/**
+ * Header values are single-line
+ */
+function headerValue(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ');
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+    const parsed = value ? Number(value) : NaN;
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Failure description of a dead-letter message, read from its headers
+ */
+export function readDeadLetterEntry(msg: any): DeadLetterEntry {
+    const get = (name: string): string | undefined => msg.headers?.get(name) || undefined;
+
+    return {
+        stage: get(DEAD_LETTER_HEADERS.stage) as DeadLetterStage,
+        reason: get(DEAD_LETTER_HEADERS.reason) ?? '',
+        original_subject: get(DEAD_LETTER_HEADERS.subject),
+        stream_sequence: optionalNumber(get(DEAD_LETTER_HEADERS.sequence)),
+        delivery_count: optionalNumber(get(DEAD_LETTER_HEADERS.deliveries)),
+        failed_at: get(DEAD_LETTER_HEADERS.failedAt) ?? '',
+        patient_id: readPatientId(msg),
+    };
+}
+
+/**
+ * Dead-letter messages in stream order, read with an ordered consumer
+ * until none are pending
+ */
+async function* readDeadLetters(js: any, stream: string, subject: string, fromSeq?: number): AsyncGenerator<any> {
+    const consumer = await js.consumers.get(stream, {
+        filterSubjects: [subject],
+        ...(fromSeq
+            ? { deliver_policy: DeliverPolicy.StartSequence, opt_start_seq: fromSeq }
+            : { deliver_policy: DeliverPolicy.All }),
+    });
+
+    while (true) {
+        const msg = await consumer.next({ expires: 2000 });
+        if (!msg) {
+            return;
+        }
+
+        yield msg;
+        if (msg.info.pending === 0) {
+            return;
+        }
+    }
+}
+
+/**
+ * Stream sequence of the last message on the subject, if it has any
+ */
+async function lastSequence(js: any, stream: string, subject: string): Promise<number | undefined> {
+    try {
+        const last = await (await js.streams.get(stream)).getMessage({ last_by_subj: subject });
+        return last.seq;
+    } catch (err) {
+        if ((err as NatsError | undefined)?.api_error?.err_code === NO_MESSAGE_FOUND) {
+            return undefined;
+        }
+        throw err;
+    }
+}
+
+/**
+ * An ordered consumer on the subject from a stream sequence at or before the
+ * subject's last one, its first message, and how many messages the subject
+ * has from there
+ */
+async function readFrom(js: any, stream: string, subject: string, seq: number) {
+    const consumer = await js.consumers.get(stream, {
+        filterSubjects: [subject],
+        deliver_policy: DeliverPolicy.StartSequence,
+        opt_start_seq: seq,
+    });
+    const first = await consumer.next({ expires: 2000 });
+
+    return { consumer, first, count: first ? first.info.pending + 1 : 0 };
+}
+
+/**
+ * The latest entries on the dead-letter subject, newest first. Starting from
+ * the subject's last sequence, the window is widened backwards until it
+ * holds `limit` entries and then narrowed to the latest sequence that still
+ * does, counting entries by what a consumer has pending, so only the listed
+ * entries are read however long the subject is.
+ */
+export async function listDeadLetters(
+    js: any,
+    stream: string,
+    subject: string,
+    limit = RECENT_ENTRIES,
+): Promise<DeadLetterEntry[]> {
+    const last = await lastSequence(js, stream, subject);
+    if (last === undefined || limit <= 0) {
+        return [];
+    }
+
+    const count = async (seq: number) => (await readFrom(js, stream, subject, seq)).count;
+    let width = limit;
+    let start = Math.max(1, last - width + 1);
+    // Later starts than this hold fewer than `limit` entries
+    let short = last - limit + 2;
+
+    while (start > 1 && await count(start) < limit) {
+        short = start;
+        width *= 2;
+        start = Math.max(1, last - width + 1);
+    }
+    while (short - start > 1) {
+        const middle = Math.floor((start + short) / 2);
+        if (await count(middle) >= limit) {
+            start = middle;
+        } else {
+            short = middle;
+        }
+    }
+
+    const { consumer, first } = await readFrom(js, stream, subject, start);
+    const entries: DeadLetterEntry[] = [];
+    let msg = first;
+
+    while (msg) {
+        entries.unshift({ ...readDeadLetterEntry(msg), seq: msg.seq });
+        if (entries.length === limit || msg.info.pending === 0) {
+            break;
+        }
+        msg = await consumer.next({ expires: 2000 });
+    }
+
+    return entries;
+}
+
+/**
+ * Republishes vitals messages that cannot be processed to a dead-letter
+ * subject, unchanged, with headers describing the failure, so they can be
+ * inspected and replayed instead of being lost
+ */
+export class DeadLetterQueue {
+    private counts: Record<DeadLetterStage, number> = { parse: 0, validation: 0, max_deliver: 0 };
+    private since = new Date().toISOString();
+
+    constructor(
+        private natsClient: NatsClient,
+        private stream: string,
+        readonly subject: string,
+    ) { }
+
+    /**
+     * Dead-letter a message. Best effort: a failed publish is logged and
+     * reported as false.
+     */
+    async publish(msg: any, stage: DeadLetterStage, reason: string): Promise<boolean> {
+        const entry: DeadLetterEntry = {
+            stage,
+            reason,
+            original_subject: msg.subject,
+            stream_sequence: msg.seq,
+            delivery_count: msg.info?.redeliveryCount,
+            failed_at: new Date().toISOString(),
+            patient_id: readPatientId(msg),
+        };
+
+        const hdrs = headers();
+        hdrs.set(DEAD_LETTER_HEADERS.stage, stage);
+        hdrs.set(DEAD_LETTER_HEADERS.reason, headerValue(reason));
+        hdrs.set(DEAD_LETTER_HEADERS.failedAt, entry.failed_at);
+        if (entry.original_subject) {
+            hdrs.set(DEAD_LETTER_HEADERS.subject, entry.original_subject);
+        }
+        if (entry.stream_sequence !== undefined) {
+            hdrs.set(DEAD_LETTER_HEADERS.sequence, String(entry.stream_sequence));
+        }
+        if (entry.delivery_count !== undefined) {
+            hdrs.set(DEAD_LETTER_HEADERS.deliveries, String(entry.delivery_count));
+        }
+
+        try {
+            await this.natsClient.getConnection().jetstream().publish(this.subject, msg.data, { headers: hdrs });
+        } catch (err) {
+            logger.error({ error: err, ...entry }, 'Failed to publish message to dead-letter subject');
+            return false;
+        }
+
+        this.counts[stage]++;
+        logger.warn({ subject: this.subject, ...entry }, 'Message dead-lettered');
+        return true;
+    }
+
+    /**
+     * The latest entries in the stream, whichever instance dead-lettered them
+     */
+    listRecent(): Promise<DeadLetterEntry[]> {
+        return listDeadLetters(this.natsClient.getConnection().jetstream(), this.stream, this.subject);
+    }
+
+    getStats(): DeadLetterStats {
+        return {
+            subject: this.subject,
+            since: this.since,
+            by_stage: { ...this.counts },
+        };
+    }
+}
+
+/**
+ * Republish dead-lettered messages to the subject they were consumed from,
+ * reading the dead-letter subject with an ordered consumer. Each replay
+ * carries a message id derived from its dead-letter sequence, so a repeated
+ * replay within the stream's duplicate window is not processed twice.
+ */
+export async function replayDeadLetters(
+    js: any,
+    options: ReplayOptions,
+    onEntry?: (entry: DeadLetterEntry, seq: number, replayed: boolean) => void,
+): Promise<ReplayResult> {
+    const result: ReplayResult = { replayed: 0, skipped: 0 };
+    if (options.limit !== undefined && options.limit <= 0) {
+        return result;
+    }
+
+    for await (const msg of readDeadLetters(js, options.stream, options.subject, options.fromSeq)) {
+        const entry = readDeadLetterEntry(msg);
+        const replay = !options.stage || entry.stage === options.stage;
+        result.lastSeq = msg.seq;
+
+        if (replay) {
+            if (!options.dryRun) {
+                await js.publish(entry.original_subject ?? options.fallbackSubject, msg.data, {
+                    msgID: `dlq-replay:${msg.seq}`,
+                });
+            }
+            result.replayed++;
+        } else {
+            result.skipped++;
+        }
+        onEntry?.(entry, msg.seq, replay);
+
+        if (result.replayed === options.limit) {
+            break;
+        }
+    }
+
+    return result;
+}
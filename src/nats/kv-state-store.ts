@@ -0,0 +1,254 @@
+import { JSONCodec } from 'nats';
+import type { KV, NatsError } from 'nats';
+import { logger } from '../config/logger.js';
+import { NatsClient } from './connection.js';
+import type { PatientStateStore, StateStoreStats } from '../rules/state-store.js';
+import type { PatientState } from '../rules/types.js';
+
+/** JetStream API error code for a write whose expected revision is stale */
+const WRONG_LAST_SEQUENCE = 10071;
+
+/**
+ * The part of the JetStream KV API the state store uses, so tests can
+ * substitute an in-memory fake
+ */
+export type StateBucket = Pick<KV, 'get' | 'create' | 'update' | 'delete' | 'keys'>;
+
+export interface KvStateStoreOptions {
+    bucket: string;
+    /** Bucket max age; entries not written for this long expire */
+    ttlMs: number;
+    flushIntervalMs: number;
+}
+
+function isRevisionConflict(err: unknown): boolean {
+    return (err as NatsError | undefined)?.api_error?.err_code === WRONG_LAST_SEQUENCE;
+}
+
+/**
+ * Patient state kept in memory and written behind to a JetStream KV bucket,
+ * one entry per patient keyed by patient id. Changed states are written in
+ * batches every flush interval, each write checked against the revision
+ * last read or written, so a restart resumes persistence counters,
+ * cooldowns and open episodes from the last flush.
+ *
+ * The revision decides between writers: a write that finds the entry
+ * changed by another instance is dropped and the other instance's state
+ * reloaded, so an instance that has released a patient cannot overwrite
+ * the state of the instance that claimed it.
+ */
+export class KvStateStore implements PatientStateStore {
+    private states = new Map<string, PatientState>();
+    private revisions = new Map<string, number>();
+    private dirty = new Set<string>();
+    private timer: NodeJS.Timeout | null = null;
+    private flushing: Promise<void> | null = null;
+    private conflicts = 0;
+    private writeFailures = 0;
+    /** Newest write time of the states loaded, in epoch ms */
+    private lastWrittenAt?: number;
+    private codec = JSONCodec<PatientState>();
+
+    constructor(
+        private bucket: StateBucket,
+        private flushIntervalMs: number,
+    ) { }
+
+    /**
+     * Open (creating if needed) the bucket, with the state TTL as its max age
+     */
+    static async open(natsClient: NatsClient, options: KvStateStoreOptions): Promise<KvStateStore> {
+        const bucket = await natsClient.getConnection().jetstream().views.kv(options.bucket, {
+            ttl: options.ttlMs,
+            history: 1,
+        });
+
+        logger.info({ bucket: options.bucket, ttlMs: options.ttlMs }, 'Patient state bucket opened');
+        return new KvStateStore(bucket, options.flushIntervalMs);
+    }
+
+    /**
+     * Read the states of owned patients not already held into memory
+     */
+    async load(owns: (patientId: string) => boolean = () => true): Promise<number> {
+        let loaded = 0;
+
+        for await (const key of await this.bucket.keys()) {
+            if (!owns(key) || this.states.has(key)) {
+                continue;
+            }
+
+            const entry = await this.bucket.get(key);
+            if (!entry || entry.operation !== 'PUT') {
+                continue;
+            }
+
+            try {
+                this.states.set(key, this.codec.decode(entry.value));
+                this.revisions.set(key, entry.revision);
+                this.lastWrittenAt = Math.max(this.lastWrittenAt ?? 0, entry.created.getTime());
+                loaded++;
+            } catch (err) {
+                logger.warn({ patientId: key, error: err }, 'Unreadable patient state, ignored');
+            }
+        }
+
+        logger.info({ loaded }, 'Patient states loaded');
+        return loaded;
+    }
+
+    /**
+     * From when changes made before this instance loaded its states may be
+     * missing from them: one flush interval before the newest state loaded
+     * was written, as a flush writes its batch over some time. Undefined if
+     * no state was loaded.
+     */
+    unflushedSince(): Date | undefined {
+        return this.lastWrittenAt === undefined
+            ? undefined
+            : new Date(this.lastWrittenAt - this.flushIntervalMs);
+    }
+
+    start(): void {
+        this.timer = setInterval(() => {
+            this.flush().catch((err) => {
+                logger.error({ error: err }, 'Patient state flush failed');
+            });
+        }, this.flushIntervalMs);
+
+        logger.info({ flushIntervalMs: this.flushIntervalMs }, 'Patient state write-behind started');
+    }
+
+    /**
+     * Stop the write-behind timer and write out pending changes
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        await this.flush();
+    }
+
+    get(patientId: string): PatientState | undefined {
+        return this.states.get(patientId);
+    }
+
+    set(state: PatientState): void {
+        this.states.set(state.patientId, state);
+        this.dirty.add(state.patientId);
+    }
+
+    delete(patientId: string): void {
+        if (this.states.delete(patientId)) {
+            this.dirty.add(patientId);
+        }
+    }
+
+    values(): IterableIterator<PatientState> {
+        return this.states.values();
+    }
+
+    size(): number {
+        return this.states.size;
+    }
+
+    async claim(owns: (patientId: string) => boolean): Promise<void> {
+        await this.flush();
+
+        for (const patientId of [...this.states.keys()]) {
+            if (!owns(patientId)) {
+                // Forgotten here, kept in the bucket for the new owner
+                this.states.delete(patientId);
+                this.revisions.delete(patientId);
+                this.dirty.delete(patientId);
+            }
+        }
+
+        await this.load(owns);
+    }
+
+    stats(): StateStoreStats {
+        return {
+            type: 'kv',
+            pending_writes: this.dirty.size,
+            conflicts: this.conflicts,
+            write_failures: this.writeFailures,
+        };
+    }
+
+    /**
+     * Write every state changed or deleted since the last flush. Runs one
+     * flush at a time; a call during a flush waits for it and flushes again.
+     */
+    async flush(): Promise<void> {
+        while (this.flushing) {
+            await this.flushing;
+        }
+        if (this.dirty.size === 0) {
+            return;
+        }
+
+        const batch = [...this.dirty];
+        this.dirty.clear();
+
+        this.flushing = Promise.all(batch.map((patientId) => this.write(patientId))).then(() => undefined);
+        try {
+            await this.flushing;
+        } finally {
+            this.flushing = null;
+        }
+    }
+
+    private async write(patientId: string): Promise<void> {
+        const state = this.states.get(patientId);
+        const revision = this.revisions.get(patientId);
+
+        try {
+            if (!state) {
+                await this.bucket.delete(patientId);
+                this.revisions.delete(patientId);
+                return;
+            }
+
+            const data = this.codec.encode(state);
+            const next = revision === undefined
+                ? await this.bucket.create(patientId, data)
+                : await this.bucket.update(patientId, data, revision);
+            this.revisions.set(patientId, next);
+        } catch (err) {
+            if (!isRevisionConflict(err)) {
+                // Retried on the next flush
+                this.dirty.add(patientId);
+                this.writeFailures++;
+                logger.error({ patientId, error: err }, 'Patient state write failed');
+                return;
+            }
+
+            this.conflicts++;
+            logger.warn({ patientId, revision }, 'Patient state changed by another writer, reloading it');
+            await this.reload(patientId);
+        }
+    }
+
+    /**
+     * Replace a state with the one in the bucket, or write it again if the
+     * entry has been deleted since
+     */
+    private async reload(patientId: string): Promise<void> {
+        try {
+            const entry = await this.bucket.get(patientId);
+            if (entry?.operation === 'PUT') {
+                this.states.set(patientId, this.codec.decode(entry.value));
+                this.revisions.set(patientId, entry.revision);
+                return;
+            }
+
+            this.revisions.delete(patientId);
+            this.dirty.add(patientId);
+        } catch (err) {
+            this.dirty.add(patientId);
+            logger.error({ patientId, error: err }, 'Patient state could not be reloaded');
+        }
+    }
+}
@@ -0,0 +1,61 @@
+import { JSONCodec } from 'nats';
+import type { KV } from 'nats';
+import { logger } from '../config/logger.js';
+import { NatsClient } from './connection.js';
+
+/**
+ * The part of the JetStream KV API membership uses, so tests can
+ * substitute an in-memory fake
+ */
+export type MembershipBucket = Pick<KV, 'put' | 'delete' | 'keys'>;
+
+export interface MembershipOptions {
+    bucket: string;
+    /** An instance that has not heartbeated for this long has left */
+    ttlMs: number;
+}
+
+/**
+ * Live triage instances, each heartbeating its own entry in a KV bucket
+ * whose max age expires the entries of instances that stop
+ */
+export class InstanceMembership {
+    private codec = JSONCodec<{ heartbeat_at: string }>();
+
+    constructor(
+        private bucket: MembershipBucket,
+        readonly instanceId: string,
+    ) { }
+
+    static async open(natsClient: NatsClient, instanceId: string, options: MembershipOptions): Promise<InstanceMembership> {
+        const bucket = await natsClient.getConnection().jetstream().views.kv(options.bucket, {
+            ttl: options.ttlMs,
+            history: 1,
+        });
+
+        logger.info({ bucket: options.bucket, instanceId }, 'Instance membership bucket opened');
+        return new InstanceMembership(bucket, instanceId);
+    }
+
+    async heartbeat(): Promise<void> {
+        await this.bucket.put(this.instanceId, this.codec.encode({ heartbeat_at: new Date().toISOString() }));
+    }
+
+    /**
+     * Ids of the instances with a live heartbeat, sorted
+     */
+    async members(): Promise<string[]> {
+        const members: string[] = [];
+        for await (const key of await this.bucket.keys()) {
+            members.push(key);
+        }
+        return members.sort();
+    }
+
+    /**
+     * Remove this instance so the others take over its partitions straight away
+     */
+    async leave(): Promise<void> {
+        await this.bucket.delete(this.instanceId);
+    }
+}
@@ -0,0 +1,43 @@
+import { DeliverPolicy } from 'nats';
+import { logger } from '../config/logger.js';
+import { NatsClient } from './connection.js';
+import { consumeRecords } from './record-consumer.js';
+import { PatientOverrideStore } from '../rules/overrides.js';
+import type { PatientOverrideRecord } from '../rules/overrides.js';
+
+export interface OverridesConsumerConfig {
+    streamName: string;
+    subject: string;
+}
+
+/**
+ * Applies `patient.thresholds.updated` events to the override store.
+ * Uses an ordered consumer replaying the subject from the start of the
+ * stream, so every instance rebuilds the full override set on startup.
+ */
+export class OverridesConsumer {
+    constructor(
+        private natsClient: NatsClient,
+        private store: PatientOverrideStore,
+        private config: OverridesConsumerConfig,
+    ) { }
+
+    async start(): Promise<void> {
+        const js = this.natsClient.getConnection().jetstream();
+
+        logger.info(
+            { stream: this.config.streamName, subject: this.config.subject },
+            'Starting patient overrides consumer',
+        );
+
+        await consumeRecords<PatientOverrideRecord>(
+            js,
+            this.config.streamName,
+            { filterSubjects: this.config.subject, deliver_policy: DeliverPolicy.All },
+            'Patient override',
+            (record) => {
+                this.store.apply(record, 'nats');
+            },
+        );
+    }
+}
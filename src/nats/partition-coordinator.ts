@@ -0,0 +1,183 @@
+import { logger } from '../config/logger.js';
+import { RulesEngine } from '../rules/engine.js';
+import { InstanceMembership } from './membership.js';
+import { assignPartitions, partitionOf } from './partitions.js';
+
+/** Delay before restarting a failed partition consumer, doubled on each consecutive failure */
+const RESTART_BASE_DELAY_MS = 5000;
+const RESTART_MAX_DELAY_MS = 60000;
+
+/**
+ * The part of `VitalsConsumer` the coordinator drives
+ */
+export interface PartitionConsumer {
+    start(): Promise<void>;
+    stop(): Promise<void>;
+}
+
+export interface PartitionConfig {
+    count: number;
+    /** Partitions this instance always consumes; taken from membership when empty */
+    partitions: number[];
+    rebalanceIntervalMs: number;
+}
+
+export interface PartitionAssignment {
+    instance_id?: string;
+    partition_count: number;
+    partitions: number[];
+    /** Live instances the partitions were last divided between */
+    members?: string[];
+}
+
+/**
+ * Consumes the partitions this instance owns, one durable consumer per
+ * partition so a partition resumes from its own position when it moves
+ * between instances. Ownership is either a fixed list or divided between
+ * the live members by rendezvous hashing and rechecked every rebalance
+ * interval. Released patients' state is dropped from the engines, and the
+ * state of newly owned patients loaded where the state store persists it.
+ */
+export class PartitionCoordinator {
+    private consumers = new Map<number, PartitionConsumer>();
+    /** Owned partitions whose consumer failed, waiting to be restarted */
+    private restarts = new Map<number, NodeJS.Timeout>();
+    private members: string[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private rebalancing = false;
+
+    constructor(
+        private createConsumer: (partition: number) => PartitionConsumer,
+        private engines: RulesEngine[],
+        private config: PartitionConfig,
+        private membership?: InstanceMembership,
+    ) { }
+
+    async start(): Promise<void> {
+        if (!this.membership) {
+            await this.assign(this.config.partitions);
+            return;
+        }
+
+        await this.rebalance();
+        this.timer = setInterval(() => {
+            this.rebalance().catch((err) => {
+                logger.error({ error: err }, 'Partition rebalance failed');
+            });
+        }, this.config.rebalanceIntervalMs);
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        for (const timer of this.restarts.values()) {
+            clearTimeout(timer);
+        }
+        this.restarts.clear();
+
+        const consumers = [...this.consumers.values()];
+        this.consumers.clear();
+        await Promise.all(consumers.map((consumer) => consumer.stop()));
+        await this.membership?.leave();
+    }
+
+    /**
+     * Heartbeat, then take the partitions the current members divide to
+     * this instance. Skipped while a previous rebalance is still running.
+     */
+    async rebalance(): Promise<void> {
+        if (!this.membership || this.rebalancing) {
+            return;
+        }
+        this.rebalancing = true;
+
+        try {
+            await this.membership.heartbeat();
+            const members = await this.membership.members();
+            if (!members.includes(this.membership.instanceId)) {
+                members.push(this.membership.instanceId);
+            }
+
+            this.members = members;
+            await this.assign(assignPartitions(this.config.count, members, this.membership.instanceId));
+        } finally {
+            this.rebalancing = false;
+        }
+    }
+
+    getAssignment(): PartitionAssignment {
+        return {
+            instance_id: this.membership?.instanceId,
+            partition_count: this.config.count,
+            partitions: this.owned().sort((a, b) => a - b),
+            ...(this.membership && { members: this.members }),
+        };
+    }
+
+    /**
+     * Stop the consumers of released partitions before handing their
+     * patients' state back, then start consumers for claimed ones
+     */
+    private async assign(partitions: number[]): Promise<void> {
+        const owned = new Set(partitions);
+        const released = this.owned().filter((partition) => !owned.has(partition));
+        const claimed = partitions.filter((partition) => !this.consumers.has(partition) && !this.restarts.has(partition));
+        if (released.length === 0 && claimed.length === 0) {
+            return;
+        }
+
+        for (const partition of released) {
+            clearTimeout(this.restarts.get(partition));
+            this.restarts.delete(partition);
+
+            const consumer = this.consumers.get(partition);
+            this.consumers.delete(partition);
+            await consumer?.stop();
+        }
+
+        const owns = (patientId: string) => owned.has(partitionOf(patientId, this.config.count));
+        for (const engine of this.engines) {
+            await engine.claimPatients(owns);
+        }
+
+        for (const partition of claimed) {
+            this.startConsumer(partition);
+        }
+
+        logger.info({ partitions, released, claimed }, 'Partitions assigned');
+    }
+
+    /**
+     * Partitions this instance owns, whether consuming or waiting to restart
+     */
+    private owned(): number[] {
+        return [...this.consumers.keys(), ...this.restarts.keys()];
+    }
+
+    /**
+     * Start a partition's consumer. One that fails is dropped and started
+     * again after a backoff, unless the partition is released first.
+     */
+    private startConsumer(partition: number, failures = 0): void {
+        const consumer = this.createConsumer(partition);
+        this.consumers.set(partition, consumer);
+
+        consumer.start().catch((err) => {
+            // Released or stopped while starting
+            if (this.consumers.get(partition) !== consumer) {
+                return;
+            }
+
+            const delayMs = Math.min(RESTART_BASE_DELAY_MS * 2 ** failures, RESTART_MAX_DELAY_MS);
+            logger.error({ error: err, partition, delayMs }, 'Partition consumer failed, restarting');
+            this.consumers.delete(partition);
+            this.restarts.set(partition, setTimeout(() => {
+                this.restarts.delete(partition);
+                this.startConsumer(partition, failures + 1);
+            }, delayMs));
+        });
+    }
+}
@@ -0,0 +1,72 @@
+import { logger } from '../config/logger.js';
+import { NatsClient } from './connection.js';
+import { ensureDurableConsumer } from './consumer.js';
+import { partitionOf, partitionSubject, readPatientId } from './partitions.js';
+
+export interface PartitionRouterConfig {
+    streamName: string;
+    durableName: string;
+    /** Unpartitioned subject; readings are republished on `<subject>.<partition>` */
+    subject: string;
+    partitionCount: number;
+}
+
+/**
+ * Republishes readings from the unpartitioned vitals subject to the
+ * partition subject of their patient, for publishers that cannot compute
+ * the partition themselves. Runs on a durable consumer of its own; a
+ * reading is acknowledged once republished, and the republish carries a
+ * message id so a redelivery is deduplicated by the stream. Readings
+ * without a readable patient_id go to partition 0, where they are dropped
+ * as invalid.
+ */
+export class PartitionRouter {
+    private messages: any = null;
+
+    constructor(
+        private natsClient: NatsClient,
+        private config: PartitionRouterConfig,
+    ) { }
+
+    async start(): Promise<void> {
+        const nc = this.natsClient.getConnection();
+        const js = nc.jetstream();
+
+        logger.info(
+            { subject: this.config.subject, partitions: this.config.partitionCount },
+            'Starting partition router',
+        );
+
+        const consumer = await ensureDurableConsumer(nc, js, {
+            streamName: this.config.streamName,
+            durableName: this.config.durableName,
+            subjects: [this.config.subject],
+        });
+        this.messages = await consumer.consume({ max_messages: 100 });
+
+        for await (const msg of this.messages) {
+            await this.route(js, msg);
+        }
+    }
+
+    async stop(): Promise<void> {
+        await this.messages?.close();
+        this.messages = null;
+    }
+
+    private async route(js: any, msg: any): Promise<void> {
+        const patientId = readPatientId(msg);
+        const partition = patientId === undefined ? 0 : partitionOf(patientId, this.config.partitionCount);
+
+        try {
+            await js.publish(partitionSubject(this.config.subject, partition), msg.data, {
+                msgID: `${this.config.subject}:${msg.seq}`,
+                ...(msg.headers && { headers: msg.headers }),
+            });
+            msg.ack();
+        } catch (err) {
+            logger.error({ error: err, partition }, 'Failed to route reading to partition');
+            msg.nak(2000);
+        }
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Patient-affinity partitioning: every reading for a patient goes to the
+ * same partition subject, and each partition is consumed by one instance
+ */
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+/** Seeds worker choice so it is independent of the partition */
+const WORKER_SEED = 0x9e3779b9;
+
+/**
+ * 32-bit FNV-1a hash of a string's UTF-16 code units
+ */
+function fnv1a(value: string): number {
+    let hash = FNV_OFFSET;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, FNV_PRIME);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Murmur3 finalizer, spreading hashes of near-identical strings
+ */
+function mix(hash: number): number {
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+}
+
+/**
+ * Partition a patient's readings are routed to; stable across instances
+ * and restarts
+ */
+export function partitionOf(patientId: string, count: number): number {
+    return fnv1a(patientId) % count;
+}
+
+/**
+ * Worker a patient's readings are handled on within an instance. Re-mixed
+ * with a seed rather than taken modulo the same hash as the partition, so
+ * an instance owning only some partitions still spreads its patients over
+ * every worker.
+ */
+export function workerOf(patientId: string, count: number): number {
+    return mix((fnv1a(patientId) ^ WORKER_SEED) >>> 0) % count;
+}
+
+export function partitionSubject(subject: string, partition: number): string {
+    return `${subject}.${partition}`;
+}
+
+/**
+ * Patient id of a vitals message, bare or wrapped in an event envelope;
+ * undefined when the message is not readable
+ */
+export function readPatientId(msg: { json(): any }): string | undefined {
+    try {
+        const data = msg.json();
+        const patientId = (data.payload ?? data).patient_id;
+        return typeof patientId === 'string' ? patientId : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parse a partition list such as `0-3,8`, checked against the partition count
+ */
+export function parsePartitions(spec: string, count: number): number[] {
+    const partitions = new Set<number>();
+
+    for (const part of spec.split(',').map((p) => p.trim()).filter(Boolean)) {
+        const match = part.match(/^(\d+)(?:-(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid partition list entry: ${part}`);
+        }
+
+        const first = parseInt(match[1], 10);
+        const last = match[2] === undefined ? first : parseInt(match[2], 10);
+        if (last < first || last >= count) {
+            throw new Error(`Partition range ${part} outside 0-${count - 1}`);
+        }
+
+        for (let partition = first; partition <= last; partition++) {
+            partitions.add(partition);
+        }
+    }
+
+    return [...partitions].sort((a, b) => a - b);
+}
+
+/**
+ * Partitions owned by `self` among the live members, by rendezvous hashing:
+ * each partition goes to the member with the highest hash of the pair, so
+ * a member joining or leaving moves only the partitions it gains or loses
+ */
+export function assignPartitions(count: number, members: string[], self: string): number[] {
+    const owned: number[] = [];
+
+    for (let partition = 0; partition < count; partition++) {
+        let owner: string | undefined;
+        let best = -1;
+
+        for (const member of members) {
+            const weight = mix(fnv1a(`${member}:${partition}`));
+            if (weight > best || (weight === best && member < owner!)) {
+                owner = member;
+                best = weight;
+            }
+        }
+
+        if (owner === self) {
+            owned.push(partition);
+        }
+    }
+
+    return owned;
+}
@@ -2,7 +2,28 @@ import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../config/logger.js';
 import { SchemaValidator } from '../contracts/schema-validator.js';
 import { NatsClient } from './connection.js';
-import type { AlertReason, Severity, VitalsData } from '../rules/types.js';
+import { OPTIONAL_VITAL_FIELDS } from '../rules/vitals.js';
+import type {
+    AlertReason,
+    AlertEscalation,
+    AlertResolution,
+    AlertEvidence,
+    AlertResult,
+    ArtifactReason,
+    CompositionStrategy,
+    EffectiveRules,
+    News2Score,
+    RiskContribution,
+    Severity,
+    ShadowDiff,
+    ShadowDiffKind,
+    SignalLoss,
+    SignalRecovery,
+    TriageDecision,
+    VitalsData,
+} from '../rules/types.js';
+
+export type VitalsSnapshot = Omit<VitalsData, 'patient_id'>;
 
 export interface AlertEvent {
     event_name: string;
@@ -13,11 +34,149 @@ export interface AlertEvent {
         severity: Severity;
         reasons: AlertReason[];
         suggested_action: string;
-        vitals_snapshot: {
-            heart_rate: number;
-            oxygen_saturation: number;
-            timestamp: string;
+        vitals_snapshot: VitalsSnapshot;
+        news2?: News2Score;
+        rules_version?: string;
+        effective_rules?: EffectiveRules;
+        model?: {
+            name: string;
+            version: string;
+            score: number;
+            strategy?: CompositionStrategy;
+            explanation: RiskContribution[];
         };
+        evidence?: AlertEvidence;
+    };
+}
+
+export interface AlertResolvedEvent {
+    event_name: string;
+    event_id: string;
+    timestamp: string;
+    payload: {
+        patient_id: string;
+        /** event_id of the patient.alert.raised that opened the episode */
+        alert_event_id: string;
+        reason_code: string;
+        severity: Severity;
+        raised_at: string;
+        resolved_at: string;
+        duration_ms: number;
+        vitals_snapshot: VitalsSnapshot;
+        rules_version?: string;
+    };
+}
+
+export interface AlertEscalatedEvent {
+    event_name: string;
+    event_id: string;
+    timestamp: string;
+    payload: {
+        patient_id: string;
+        /** event_id of the patient.alert.raised that opened the episode */
+        alert_event_id: string;
+        reason_codes: string[];
+        previous_severity: Severity;
+        severity: Severity;
+        trigger: AlertEscalation['trigger'];
+        suggested_action: string;
+        /** Reading time elapsed since the original alert */
+        elapsed_ms: number;
+        vitals_snapshot: VitalsSnapshot;
+        rules_version?: string;
+    };
+}
+
+export interface ArtifactDetectedEvent {
+    event_name: string;
+    event_id: string;
+    timestamp: string;
+    payload: {
+        patient_id: string;
+        reasons: ArtifactReason[];
+        vitals_snapshot: VitalsSnapshot;
+        signal_quality?: number;
+        perfusion_index?: number;
+        rules_version?: string;
+    };
+}
+
+export interface SignalLostEvent {
+    event_name: string;
+    event_id: string;
+    timestamp: string;
+    payload: {
+        patient_id: string;
+        last_seen_at: string;
+        /** Timestamp of the last reading received */
+        last_reading_at: string;
+        silent_ms: number;
+        threshold_ms: number;
+        /** Learnt reporting interval, once known */
+        expected_interval_ms?: number;
+        rules_version?: string;
+    };
+}
+
+export interface SignalRecoveredEvent {
+    event_name: string;
+    event_id: string;
+    timestamp: string;
+    payload: {
+        patient_id: string;
+        /** event_id of the device.signal.lost event */
+        signal_lost_event_id: string;
+        lost_at: string;
+        recovered_at: string;
+        /** Time between the last reading before the loss and the first after */
+        gap_ms: number;
+        vitals_snapshot: VitalsSnapshot;
+        rules_version?: string;
+    };
+}
+
+export interface ShadowDecisionPayload {
+    artifact: boolean;
+    alert: boolean;
+    severity?: Severity;
+    reason_codes: string[];
+    rules_version?: string;
+    risk_score?: number;
+}
+
+export interface ShadowDiffPayload {
+    patient_id: string;
+    kind: ShadowDiffKind;
+    reading_timestamp: string;
+    live: ShadowDecisionPayload;
+    shadow: ShadowDecisionPayload;
+}
+
+export interface ShadowDiffEvent {
+    event_name: string;
+    event_id: string;
+    timestamp: string;
+    payload: ShadowDiffPayload;
+}
+
+function decisionPayload(decision: TriageDecision): ShadowDecisionPayload {
+    return {
+        artifact: decision.artifact,
+        alert: decision.alert,
+        ...(decision.severity && { severity: decision.severity }),
+        reason_codes: decision.reasonCodes,
+        ...(decision.rulesVersion && { rules_version: decision.rulesVersion }),
+        ...(decision.riskScore !== undefined && { risk_score: decision.riskScore }),
+    };
+}
+
+export function shadowDiffPayload(diff: ShadowDiff): ShadowDiffPayload {
+    return {
+        patient_id: diff.patientId,
+        kind: diff.kind,
+        reading_timestamp: new Date(diff.at).toISOString(),
+        live: decisionPayload(diff.live),
+        shadow: decisionPayload(diff.shadow),
     };
 }
 
@@ -27,12 +186,11 @@ export class AlertPublisher {
         private validator: SchemaValidator,
     ) { }
 
-    async publishAlert(
-        vitals: VitalsData,
-        severity: Severity,
-        reasons: AlertReason[],
-        suggestedAction: string,
-    ): Promise<boolean> {
+    /**
+     * Publish patient.alert.raised, returning its event_id, or undefined on failure
+     */
+    async publishAlert(vitals: VitalsData, alert: AlertResult): Promise<string | undefined> {
+        const severity = alert.severity!;
         const alertEvent: AlertEvent = {
             event_name: 'patient.alert.raised',
             event_id: uuidv4(),
@@ -40,13 +198,22 @@ export class AlertPublisher {
             payload: {
                 patient_id: vitals.patient_id,
                 severity,
-                reasons,
-                suggested_action: suggestedAction,
-                vitals_snapshot: {
-                    heart_rate: vitals.heart_rate,
-                    oxygen_saturation: vitals.oxygen_saturation,
-                    timestamp: vitals.timestamp,
-                },
+                reasons: alert.reasons!,
+                suggested_action: alert.suggestedAction!,
+                vitals_snapshot: this.buildVitalsSnapshot(vitals),
+                ...(alert.news2 && { news2: alert.news2 }),
+                ...(alert.rulesVersion && { rules_version: alert.rulesVersion }),
+                ...(alert.effectiveRules && { effective_rules: alert.effectiveRules }),
+                ...(alert.risk && {
+                    model: {
+                        name: alert.risk.model,
+                        version: alert.risk.version,
+                        score: alert.risk.score,
+                        strategy: alert.risk.strategy,
+                        explanation: alert.risk.explanation,
+                    },
+                }),
+                ...(alert.evidence && { evidence: alert.evidence }),
             },
         };
 
@@ -57,34 +224,290 @@ export class AlertPublisher {
                 { errors: validationResult.errors, alert: alertEvent },
                 'Alert validation failed',
             );
+            return undefined;
+        }
+
+        if (!(await this.publish(alertEvent))) {
+            return undefined;
+        }
+
+        logger.info(
+            {
+                event_id: alertEvent.event_id,
+                patient_id: vitals.patient_id,
+                severity,
+            },
+            'Alert published successfully',
+        );
+
+        return alertEvent.event_id;
+    }
+
+    /**
+     * Publish patient.alert.resolved for an episode the reading closed
+     */
+    async publishResolved(vitals: VitalsData, resolution: AlertResolution, rulesVersion?: string): Promise<boolean> {
+        const resolvedEvent: AlertResolvedEvent = {
+            event_name: 'patient.alert.resolved',
+            event_id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            payload: {
+                patient_id: vitals.patient_id,
+                alert_event_id: resolution.alertEventId,
+                reason_code: resolution.code,
+                severity: resolution.severity,
+                raised_at: new Date(resolution.raisedAt).toISOString(),
+                resolved_at: new Date(resolution.resolvedAt).toISOString(),
+                duration_ms: Math.max(0, resolution.resolvedAt - resolution.raisedAt),
+                vitals_snapshot: this.buildVitalsSnapshot(vitals),
+                ...(rulesVersion && { rules_version: rulesVersion }),
+            },
+        };
+
+        const validationResult = this.validator.validateAlertResolved(resolvedEvent);
+        if (!validationResult.valid) {
+            logger.error(
+                { errors: validationResult.errors, event: resolvedEvent },
+                'Alert resolution validation failed',
+            );
+            return false;
+        }
+
+        if (!(await this.publish(resolvedEvent))) {
+            return false;
+        }
+
+        logger.info(
+            {
+                event_id: resolvedEvent.event_id,
+                alert_event_id: resolution.alertEventId,
+                patient_id: vitals.patient_id,
+                reason_code: resolution.code,
+            },
+            'Alert resolution published successfully',
+        );
+
+        return true;
+    }
+
+    /**
+     * Publish patient.alert.escalated for episodes the reading escalated
+     */
+    async publishEscalated(vitals: VitalsData, escalation: AlertEscalation, rulesVersion?: string): Promise<boolean> {
+        const escalatedEvent: AlertEscalatedEvent = {
+            event_name: 'patient.alert.escalated',
+            event_id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            payload: {
+                patient_id: vitals.patient_id,
+                alert_event_id: escalation.alertEventId,
+                reason_codes: escalation.codes,
+                previous_severity: escalation.previousSeverity,
+                severity: escalation.severity,
+                trigger: escalation.trigger,
+                suggested_action: escalation.suggestedAction,
+                elapsed_ms: Math.max(0, escalation.escalatedAt - escalation.raisedAt),
+                vitals_snapshot: this.buildVitalsSnapshot(vitals),
+                ...(rulesVersion && { rules_version: rulesVersion }),
+            },
+        };
+
+        const validationResult = this.validator.validateAlertEscalated(escalatedEvent);
+        if (!validationResult.valid) {
+            logger.error(
+                { errors: validationResult.errors, event: escalatedEvent },
+                'Alert escalation validation failed',
+            );
+            return false;
+        }
+
+        if (!(await this.publish(escalatedEvent))) {
+            return false;
+        }
+
+        logger.info(
+            {
+                event_id: escalatedEvent.event_id,
+                alert_event_id: escalation.alertEventId,
+                patient_id: vitals.patient_id,
+                severity: escalation.severity,
+                trigger: escalation.trigger,
+            },
+            'Alert escalation published successfully',
+        );
+
+        return true;
+    }
+
+    /**
+     * Publish vitals.artifact.detected for a reading the artifact filter rejected
+     */
+    async publishArtifact(vitals: VitalsData, reasons: ArtifactReason[], rulesVersion?: string): Promise<boolean> {
+        const artifactEvent: ArtifactDetectedEvent = {
+            event_name: 'vitals.artifact.detected',
+            event_id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            payload: {
+                patient_id: vitals.patient_id,
+                reasons,
+                vitals_snapshot: this.buildVitalsSnapshot(vitals),
+                ...(vitals.signal_quality !== undefined && { signal_quality: vitals.signal_quality }),
+                ...(vitals.perfusion_index !== undefined && { perfusion_index: vitals.perfusion_index }),
+                ...(rulesVersion && { rules_version: rulesVersion }),
+            },
+        };
+
+        const validationResult = this.validator.validateArtifactDetected(artifactEvent);
+        if (!validationResult.valid) {
+            logger.error(
+                { errors: validationResult.errors, event: artifactEvent },
+                'Artifact event validation failed',
+            );
+            return false;
+        }
+
+        return this.publish(artifactEvent);
+    }
+
+    /**
+     * Publish device.signal.lost, returning its event_id, or undefined on failure
+     */
+    async publishSignalLost(loss: SignalLoss, rulesVersion?: string): Promise<string | undefined> {
+        const lostEvent: SignalLostEvent = {
+            event_name: 'device.signal.lost',
+            event_id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            payload: {
+                patient_id: loss.patientId,
+                last_seen_at: new Date(loss.lastSeenAt).toISOString(),
+                last_reading_at: new Date(loss.lastReadingAt).toISOString(),
+                silent_ms: loss.silentMs,
+                threshold_ms: loss.thresholdMs,
+                ...(loss.expectedIntervalMs !== undefined && { expected_interval_ms: loss.expectedIntervalMs }),
+                ...(rulesVersion && { rules_version: rulesVersion }),
+            },
+        };
+
+        const validationResult = this.validator.validateSignalLost(lostEvent);
+        if (!validationResult.valid) {
+            logger.error(
+                { errors: validationResult.errors, event: lostEvent },
+                'Signal loss validation failed',
+            );
+            return undefined;
+        }
+
+        if (!(await this.publish(lostEvent))) {
+            return undefined;
+        }
+
+        logger.info(
+            { event_id: lostEvent.event_id, patient_id: loss.patientId, silent_ms: loss.silentMs },
+            'Signal loss published successfully',
+        );
+
+        return lostEvent.event_id;
+    }
+
+    /**
+     * Publish device.signal.recovered for the first reading after a signal loss
+     */
+    async publishSignalRecovered(vitals: VitalsData, recovery: SignalRecovery, rulesVersion?: string): Promise<boolean> {
+        const recoveredEvent: SignalRecoveredEvent = {
+            event_name: 'device.signal.recovered',
+            event_id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            payload: {
+                patient_id: vitals.patient_id,
+                signal_lost_event_id: recovery.lostEventId,
+                lost_at: new Date(recovery.lostAt).toISOString(),
+                recovered_at: new Date(recovery.recoveredAt).toISOString(),
+                gap_ms: Math.max(0, recovery.recoveredAt - recovery.lastSeenAt),
+                vitals_snapshot: this.buildVitalsSnapshot(vitals),
+                ...(rulesVersion && { rules_version: rulesVersion }),
+            },
+        };
+
+        const validationResult = this.validator.validateSignalRecovered(recoveredEvent);
+        if (!validationResult.valid) {
+            logger.error(
+                { errors: validationResult.errors, event: recoveredEvent },
+                'Signal recovery validation failed',
+            );
             return false;
         }
 
+        if (!(await this.publish(recoveredEvent))) {
+            return false;
+        }
+
+        logger.info(
+            { event_id: recoveredEvent.event_id, patient_id: vitals.patient_id, gap_ms: recoveredEvent.payload.gap_ms },
+            'Signal recovery published successfully',
+        );
+
+        return true;
+    }
+
+    async publishShadowDiff(diff: ShadowDiff): Promise<boolean> {
+        const diffEvent: ShadowDiffEvent = {
+            event_name: 'triage.shadow.diff',
+            event_id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            payload: shadowDiffPayload(diff),
+        };
+
+        const validationResult = this.validator.validateShadowDiff(diffEvent);
+        if (!validationResult.valid) {
+            logger.error(
+                { errors: validationResult.errors, event: diffEvent },
+                'Shadow diff validation failed',
+            );
+            return false;
+        }
+
+        return this.publish(diffEvent);
+    }
+
+    /**
+     * Publish an event on the subject named by its event_name
+     */
+    private async publish(event: { event_name: string; event_id: string }): Promise<boolean> {
         try {
             const nc = this.natsClient.getConnection();
             const js = nc.jetstream();
 
             await js.publish(
-                'patient.alert.raised',
-                JSON.stringify(alertEvent),
-            );
-
-            logger.info(
-                {
-                    event_id: alertEvent.event_id,
-                    patient_id: vitals.patient_id,
-                    severity,
-                },
-                'Alert published successfully',
+                event.event_name,
+                JSON.stringify(event),
             );
 
             return true;
         } catch (err) {
             logger.error(
-                { error: err, alert: alertEvent },
-                'Failed to publish alert to NATS',
+                { error: err, event },
+                'Failed to publish event to NATS',
             );
             return false;
         }
     }
+
+    /**
+     * Snapshot of the triggering reading, including whichever optional vitals were present
+     */
+    private buildVitalsSnapshot(vitals: VitalsData): VitalsSnapshot {
+        const snapshot: VitalsSnapshot = {
+            heart_rate: vitals.heart_rate,
+            oxygen_saturation: vitals.oxygen_saturation,
+            timestamp: vitals.timestamp,
+        };
+
+        for (const field of OPTIONAL_VITAL_FIELDS) {
+            if (vitals[field] !== undefined) {
+                (snapshot as Record<string, unknown>)[field] = vitals[field];
+            }
+        }
+
+        return snapshot;
+    }
 }
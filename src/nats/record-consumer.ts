@@ -0,0 +1,43 @@
+import type { OrderedConsumerOptions } from 'nats';
+import { logger } from '../config/logger.js';
+
+/**
+ * Consume a stream with an ordered consumer, handing each message's record
+ * to `apply`: the envelope's `payload`, or the message itself if it is not
+ * wrapped. Messages that are not JSON or whose record is not an object are
+ * logged and skipped, and a record that fails to apply does not end the
+ * subscription. `name` describes a record in log messages.
+ */
+export async function consumeRecords<T extends object>(
+    js: any,
+    stream: string,
+    options: Partial<OrderedConsumerOptions>,
+    name: string,
+    apply: (record: T, msg: any) => void,
+): Promise<void> {
+    const consumer = await js.consumers.get(stream, options);
+    const messages = await consumer.consume();
+
+    for await (const msg of messages) {
+        let data: any;
+        try {
+            data = msg.json();
+        } catch (err) {
+            logger.error({ error: err, subject: msg.subject }, `${name} JSON parse error`);
+            continue;
+        }
+
+        // Extract payload if wrapped in event envelope
+        const record = data?.payload ?? data;
+        if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+            logger.warn({ record, subject: msg.subject }, `${name} is not an object, ignored`);
+            continue;
+        }
+
+        try {
+            apply(record, msg);
+        } catch (err) {
+            logger.error({ error: err, subject: msg.subject }, `${name} handling failed`);
+        }
+    }
+}
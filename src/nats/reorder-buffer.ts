@@ -0,0 +1,62 @@
+/**
+ * Holds each patient's readings briefly and releases them in reading time
+ * order, so readings arriving slightly out of order are evaluated in order.
+ * The first reading held for a patient starts the delay, and readings that
+ * arrive during it are released with it.
+ */
+export class ReorderBuffer<T> {
+    private held = new Map<string, { at: number; item: T }[]>();
+    private timers = new Map<string, NodeJS.Timeout>();
+    private count = 0;
+
+    constructor(
+        private delayMs: number,
+        private release: (key: string, items: T[]) => void,
+    ) { }
+
+    hold(key: string, at: number, item: T): void {
+        const items = this.held.get(key) ?? [];
+
+        // Stable for equal reading times, so arrival order breaks ties
+        let index = items.length;
+        while (index > 0 && items[index - 1].at > at) {
+            index--;
+        }
+        items.splice(index, 0, { at, item });
+        this.held.set(key, items);
+        this.count++;
+
+        if (!this.timers.has(key)) {
+            this.timers.set(key, setTimeout(() => this.flush(key), this.delayMs));
+        }
+    }
+
+    /**
+     * Readings held across all patients
+     */
+    size(): number {
+        return this.count;
+    }
+
+    /**
+     * Release every held reading now
+     */
+    flushAll(): void {
+        for (const key of [...this.held.keys()]) {
+            this.flush(key);
+        }
+    }
+
+    private flush(key: string): void {
+        clearTimeout(this.timers.get(key));
+        this.timers.delete(key);
+
+        const items = this.held.get(key) ?? [];
+        this.held.delete(key);
+        this.count -= items.length;
+
+        if (items.length > 0) {
+            this.release(key, items.map((held) => held.item));
+        }
+    }
+}
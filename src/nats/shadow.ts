@@ -0,0 +1,198 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/logger.js';
+import { RulesEngine } from '../rules/engine.js';
+import { AlertPublisher, shadowDiffPayload } from './publisher.js';
+import type { ShadowDiffPayload } from './publisher.js';
+import type { AlertResult, ShadowDiff, ShadowDiffKind, TriageDecision, VitalsData } from '../rules/types.js';
+
+/** Differences kept for the HTTP summary */
+const RECENT_DIFFS = 50;
+
+export interface ShadowSummary {
+    since: string;
+    shadow_rules_version?: string;
+    shadow_risk_model?: { name: string; version: string };
+    evaluated: number;
+    agreed: number;
+    only_live: number;
+    only_shadow: number;
+    severity_disagreements: number;
+    /** Severity disagreements keyed by "<live>-><shadow>" */
+    severity_pairs: Record<string, number>;
+    /** Most recent differences, newest first */
+    recent: ShadowDiffPayload[];
+}
+
+/**
+ * Decision for an evaluated reading; withheld alerts count as no alert
+ */
+export function triageDecision(result: AlertResult): TriageDecision {
+    const alert = result.shouldAlert && !result.suppressed;
+
+    return {
+        artifact: false,
+        alert,
+        ...(alert && { severity: result.severity }),
+        reasonCodes: alert ? (result.reasons ?? []).map((reason) => reason.code) : [],
+        rulesVersion: result.rulesVersion,
+        ...(result.risk && { riskScore: result.risk.score }),
+    };
+}
+
+export function artifactDecision(rulesVersion?: string): TriageDecision {
+    return { artifact: true, alert: false, reasonCodes: [], rulesVersion };
+}
+
+export function compareDecisions(live: TriageDecision, shadow: TriageDecision): ShadowDiffKind | undefined {
+    if (live.alert && !shadow.alert) {
+        return 'only_live';
+    }
+    if (!live.alert && shadow.alert) {
+        return 'only_shadow';
+    }
+    if (live.alert && shadow.alert && live.severity !== shadow.severity) {
+        return 'severity';
+    }
+    return undefined;
+}
+
+/**
+ * Runs a candidate rules file or model against live traffic. The shadow
+ * engine keeps its own patient state and records its alerts, resolutions
+ * and escalations as though they had been published, but publishes only
+ * `triage.shadow.diff` where its decision differs from the live engine's.
+ * The consumer passes it a reading once the live outcome is final, so a
+ * reading retried after a failed publish is evaluated in shadow once, and
+ * a dead-lettered one not at all.
+ */
+export class ShadowRunner {
+    private timer: NodeJS.Timeout | null = null;
+    private since = new Date().toISOString();
+    private counts = { evaluated: 0, agreed: 0, only_live: 0, only_shadow: 0, severity: 0 };
+    private severityPairs = new Map<string, number>();
+    private recent: ShadowDiffPayload[] = [];
+
+    constructor(
+        private shadowEngine: RulesEngine,
+        private alertPublisher: AlertPublisher,
+        private signalCheckIntervalMs: number,
+    ) { }
+
+    /**
+     * Mark shadow signal losses as reported so their state can be evicted;
+     * signal loss is not an alert decision and is not compared
+     */
+    start(): void {
+        this.timer = setInterval(() => {
+            const now = Date.now();
+            for (const loss of this.shadowEngine.findSignalLosses(now)) {
+                this.shadowEngine.recordSignalLost(loss.patientId, uuidv4(), now);
+            }
+        }, this.signalCheckIntervalMs);
+
+        logger.info({ rulesVersion: this.shadowEngine.getRulesVersion() }, 'Shadow evaluation started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Evaluate a reading in shadow and publish any difference from the live
+     * decision. Never throws, so the live path is unaffected.
+     */
+    async observe(vitals: VitalsData, live: TriageDecision): Promise<ShadowDiff | undefined> {
+        let shadow: TriageDecision;
+        try {
+            shadow = this.evaluate(vitals);
+        } catch (err) {
+            logger.error({ error: err, patient_id: vitals.patient_id }, 'Shadow evaluation failed');
+            return undefined;
+        }
+
+        this.counts.evaluated++;
+        const kind = compareDecisions(live, shadow);
+        if (!kind) {
+            this.counts.agreed++;
+            return undefined;
+        }
+
+        const parsed = Date.parse(vitals.timestamp);
+        const diff: ShadowDiff = {
+            kind,
+            patientId: vitals.patient_id,
+            at: isNaN(parsed) ? Date.now() : parsed,
+            live,
+            shadow,
+        };
+        this.record(diff);
+
+        if (!(await this.alertPublisher.publishShadowDiff(diff))) {
+            logger.warn({ patient_id: vitals.patient_id, kind }, 'Shadow diff publish failed');
+        }
+
+        return diff;
+    }
+
+    getSummary(): ShadowSummary {
+        return {
+            since: this.since,
+            shadow_rules_version: this.shadowEngine.getRulesVersion(),
+            shadow_risk_model: this.shadowEngine.getRiskModel(),
+            evaluated: this.counts.evaluated,
+            agreed: this.counts.agreed,
+            only_live: this.counts.only_live,
+            only_shadow: this.counts.only_shadow,
+            severity_disagreements: this.counts.severity,
+            severity_pairs: Object.fromEntries(this.severityPairs),
+            recent: [...this.recent],
+        };
+    }
+
+    /**
+     * Evaluate on the shadow engine and record its outcome as the consumer
+     * would after publishing
+     */
+    private evaluate(vitals: VitalsData): TriageDecision {
+        const engine = this.shadowEngine;
+
+        if (engine.checkArtifacts(vitals).artifact) {
+            return artifactDecision(engine.getRulesVersion());
+        }
+
+        const result = engine.evaluate(vitals);
+
+        if (result.signalRecovered) {
+            engine.recordSignalRecovered(vitals.patient_id, result.signalRecovered);
+        }
+        for (const resolution of result.resolved ?? []) {
+            engine.recordResolved(vitals.patient_id, resolution);
+        }
+        for (const escalation of result.escalations ?? []) {
+            engine.recordEscalation(vitals.patient_id, escalation);
+        }
+
+        const decision = triageDecision(result);
+        if (decision.alert) {
+            engine.recordAlert(vitals, result, uuidv4());
+        }
+
+        return decision;
+    }
+
+    private record(diff: ShadowDiff): void {
+        if (diff.kind === 'severity') {
+            this.counts.severity++;
+            const pair = `${diff.live.severity}->${diff.shadow.severity}`;
+            this.severityPairs.set(pair, (this.severityPairs.get(pair) ?? 0) + 1);
+        } else {
+            this.counts[diff.kind]++;
+        }
+
+        this.recent.unshift(shadowDiffPayload(diff));
+        this.recent.length = Math.min(this.recent.length, RECENT_DIFFS);
+    }
+}
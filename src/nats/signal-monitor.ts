@@ -0,0 +1,66 @@
+import { logger } from '../config/logger.js';
+import { RulesEngine } from '../rules/engine.js';
+import { AlertPublisher } from './publisher.js';
+import { Metrics } from '../metrics/counter.js';
+
+/**
+ * Periodically publishes `device.signal.lost` for patients whose devices
+ * stopped reporting. Runs on a timer rather than on incoming readings,
+ * since a silent device sends nothing to react to. A loss that fails to
+ * publish is picked up again on the next check.
+ */
+export class SignalLossMonitor {
+    private timer: NodeJS.Timeout | null = null;
+    private checking = false;
+
+    constructor(
+        private rulesEngine: RulesEngine,
+        private alertPublisher: AlertPublisher,
+        private metrics: Metrics,
+        private intervalMs: number,
+    ) { }
+
+    start(): void {
+        this.timer = setInterval(() => {
+            this.check().catch((err) => {
+                logger.error({ error: err }, 'Signal loss check failed');
+            });
+        }, this.intervalMs);
+
+        logger.info({ intervalMs: this.intervalMs }, 'Signal loss monitor started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Publish every unreported signal loss. Skipped while a previous check
+     * is still publishing.
+     */
+    async check(now = Date.now()): Promise<void> {
+        if (this.checking) {
+            return;
+        }
+        this.checking = true;
+
+        try {
+            for (const loss of this.rulesEngine.findSignalLosses(now)) {
+                const eventId = await this.alertPublisher.publishSignalLost(loss, this.rulesEngine.getRulesVersion());
+
+                if (!eventId) {
+                    logger.warn({ patient_id: loss.patientId }, 'Signal loss publish failed, will retry');
+                    continue;
+                }
+
+                this.rulesEngine.recordSignalLost(loss.patientId, eventId, now);
+                this.metrics.incrementSignalLost();
+            }
+        } finally {
+            this.checking = false;
+        }
+    }
+}
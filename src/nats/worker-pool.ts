@@ -0,0 +1,144 @@
+import { logger } from '../config/logger.js';
+import { workerOf } from './partitions.js';
+
+/** Latency is summarized over this many recent messages per worker */
+const LATENCY_SAMPLES = 100;
+
+export interface WorkerStats {
+    worker: number;
+    /** Messages queued on the worker, including the one being handled */
+    queue_depth: number;
+    processed: number;
+    /** From receipt to handled, over the worker's recent messages */
+    latency_ms: {
+        avg: number;
+        p95: number;
+        max: number;
+    };
+}
+
+interface Task {
+    run: () => Promise<void>;
+    receivedAt: number;
+    done: () => void;
+}
+
+/**
+ * Runs its queue one task at a time, in order
+ */
+class Worker {
+    private queue: Task[] = [];
+    private running = false;
+    private latencies: number[] = [];
+    private processed = 0;
+
+    constructor(private index: number) { }
+
+    push(task: Task): void {
+        this.queue.push(task);
+        if (!this.running) {
+            this.drain();
+        }
+    }
+
+    stats(): WorkerStats {
+        const sorted = [...this.latencies].sort((a, b) => a - b);
+        const total = sorted.reduce((sum, latency) => sum + latency, 0);
+
+        return {
+            worker: this.index,
+            queue_depth: this.queue.length,
+            processed: this.processed,
+            latency_ms: {
+                avg: sorted.length > 0 ? Math.round(total / sorted.length) : 0,
+                p95: sorted.length > 0 ? sorted[Math.ceil(sorted.length * 0.95) - 1] : 0,
+                max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+            },
+        };
+    }
+
+    private async drain(): Promise<void> {
+        this.running = true;
+
+        while (this.queue.length > 0) {
+            const task = this.queue[0];
+            try {
+                await task.run();
+            } catch (err) {
+                logger.error({ error: err, worker: this.index }, 'Worker task failed');
+            }
+
+            this.queue.shift();
+            this.processed++;
+            this.latencies.push(Date.now() - task.receivedAt);
+            if (this.latencies.length > LATENCY_SAMPLES) {
+                this.latencies.shift();
+            }
+            task.done();
+        }
+
+        this.running = false;
+    }
+}
+
+/**
+ * Handles messages for different patients in parallel while keeping each
+ * patient's messages in arrival order: a patient always hashes to the same
+ * worker, and a worker handles its queue one message at a time. At most
+ * `maxInFlight` messages are queued across all workers; `dispatch` waits
+ * for a free slot, which holds back the consume loop feeding it.
+ */
+export class WorkerPool {
+    private workers: Worker[];
+    private inFlight = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(
+        workers: number,
+        readonly maxInFlight: number,
+    ) {
+        this.workers = Array.from({ length: Math.max(1, workers) }, (_, index) => new Worker(index));
+    }
+
+    /**
+     * Queue a task behind earlier tasks with the same key once a slot is
+     * free. Resolves when queued; `done` resolves when the task has run.
+     */
+    async dispatch(key: string, task: () => Promise<void>): Promise<{ done: Promise<void> }> {
+        const receivedAt = Date.now();
+
+        if (this.inFlight < this.maxInFlight) {
+            this.inFlight++;
+        } else {
+            // The finishing task hands its slot straight to the longest waiter
+            await new Promise<void>((resolve) => this.waiting.push(resolve));
+        }
+
+        const worker = this.workers[workerOf(key, this.workers.length)];
+        const done = new Promise<void>((resolve) => {
+            worker.push({
+                run: task,
+                receivedAt,
+                done: () => {
+                    this.release();
+                    resolve();
+                },
+            });
+        });
+
+        return { done };
+    }
+
+    stats(): WorkerStats[] {
+        return this.workers.map((worker) => worker.stats());
+    }
+
+    private release(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.inFlight--;
+        }
+    }
+}
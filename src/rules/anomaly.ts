@@ -0,0 +1,131 @@
+import { VITAL_DEFINITIONS } from './vitals.js';
+import type { AnomalyConfig, BaselineSummary, NumericVitalField, PatientState, VitalBaseline, VitalsData } from './types.js';
+
+const DEFAULT_FIELDS: NumericVitalField[] = ['heart_rate', 'oxygen_saturation'];
+const DEFAULT_WARMUP_SAMPLES = 20;
+const DEFAULT_K = 3;
+const DEFAULT_ALPHA = 0.05;
+
+/**
+ * Smallest standard deviation used per vital, so that a patient with a
+ * very steady baseline is not flagged for ordinary measurement noise
+ */
+const DEFAULT_MIN_STD: Record<NumericVitalField, number> = {
+    heart_rate: 2,
+    oxygen_saturation: 1,
+    respiratory_rate: 1,
+    systolic_bp: 3,
+    diastolic_bp: 2,
+    mean_arterial_pressure: 2,
+    temperature: 0.1,
+    blood_glucose: 0.3,
+};
+
+/** Reason codes raised by the anomaly detector, e.g. HEART_RATE_ANOMALY */
+export const ANOMALY_CODES = new Map<string, NumericVitalField>(
+    VITAL_DEFINITIONS
+        .filter((vital) => vital.field in DEFAULT_MIN_STD)
+        .map((vital) => [`${vital.codePrefix}_ANOMALY`, vital.field as NumericVitalField]),
+);
+
+export interface AnomalyFinding {
+    field: NumericVitalField;
+    code: string;
+    message: string;
+    value: number;
+    baseline: { mean: number; std: number };
+    /** The streak has reached persist_samples */
+    fires: boolean;
+}
+
+function codeFor(field: NumericVitalField): string {
+    return [...ANOMALY_CODES].find(([, f]) => f === field)![0];
+}
+
+function stdOf(field: NumericVitalField, baseline: VitalBaseline, config: AnomalyConfig): number {
+    return Math.max(Math.sqrt(baseline.variance), config.min_std?.[field] ?? DEFAULT_MIN_STD[field]);
+}
+
+/**
+ * Fold a normal reading into the baseline: an exact running mean and
+ * variance during warm-up, then an exponentially weighted one so the
+ * baseline follows slow drift
+ */
+function learn(baseline: VitalBaseline, value: number, warmup: number, alpha: number): void {
+    const diff = value - baseline.mean;
+
+    if (baseline.samples < warmup) {
+        baseline.samples++;
+        baseline.mean += diff / baseline.samples;
+        baseline.variance += (diff * (value - baseline.mean) - baseline.variance) / baseline.samples;
+        return;
+    }
+
+    const step = alpha * diff;
+    baseline.samples++;
+    baseline.mean += step;
+    baseline.variance = (1 - alpha) * (baseline.variance + diff * step);
+}
+
+/**
+ * Compare the reading with the patient's learnt baselines and update them.
+ * Readings beyond k standard deviations are reported and left out of the
+ * baseline, so a deterioration is not learnt as the new normal.
+ */
+export function detectAnomalies(state: PatientState, vitals: VitalsData, config: AnomalyConfig): AnomalyFinding[] {
+    const findings: AnomalyFinding[] = [];
+    const warmup = config.warmup_samples ?? DEFAULT_WARMUP_SAMPLES;
+    const k = config.k ?? DEFAULT_K;
+
+    for (const field of config.fields ?? DEFAULT_FIELDS) {
+        const value = vitals[field];
+        if (value === undefined) {
+            continue;
+        }
+
+        const baseline = state.baselines[field];
+        if (!baseline) {
+            state.baselines[field] = { samples: 1, mean: value, variance: 0, streak: 0 };
+            continue;
+        }
+
+        const std = stdOf(field, baseline, config);
+        const deviation = (value - baseline.mean) / std;
+
+        if (baseline.samples >= warmup && Math.abs(deviation) > k) {
+            baseline.streak++;
+            const vital = VITAL_DEFINITIONS.find((definition) => definition.field === field)!;
+            findings.push({
+                field,
+                code: codeFor(field),
+                message: `${vital.label} ${value}${vital.unit} deviates ${deviation.toFixed(1)} SD `
+                    + `from baseline ${baseline.mean.toFixed(1)} ± ${std.toFixed(1)}`,
+                value,
+                baseline: { mean: Math.round(baseline.mean * 100) / 100, std: Math.round(std * 100) / 100 },
+                fires: baseline.streak >= (config.persist_samples ?? 1),
+            });
+            continue;
+        }
+
+        baseline.streak = 0;
+        learn(baseline, value, warmup, config.alpha ?? DEFAULT_ALPHA);
+    }
+
+    return findings;
+}
+
+/**
+ * Learnt baselines of a patient in API form
+ */
+export function summarizeBaselines(state: PatientState, config: AnomalyConfig): BaselineSummary[] {
+    const warmup = config.warmup_samples ?? DEFAULT_WARMUP_SAMPLES;
+
+    return (Object.entries(state.baselines) as [NumericVitalField, VitalBaseline][]).map(([field, baseline]) => ({
+        field,
+        samples: baseline.samples,
+        learnt: baseline.samples >= warmup,
+        mean: baseline.mean,
+        std: stdOf(field, baseline, config),
+        streak: baseline.streak,
+    }));
+}
@@ -0,0 +1,89 @@
+import { NUMERIC_VITAL_FIELDS } from './vitals.js';
+import type { ArtifactConfig, ArtifactReason, NumericVitalField, VitalsData, VitalsSample } from './types.js';
+
+/**
+ * Whether `field` changed by more than its jump limit since `previous`.
+ * Undefined when there is nothing to compare: no limit, a missing value,
+ * or a previous reading outside the limit's window.
+ */
+function jumped(
+    field: NumericVitalField,
+    vitals: VitalsData,
+    at: number,
+    previous: VitalsSample | undefined,
+    config: ArtifactConfig,
+): boolean | undefined {
+    const limit = config.max_jump?.[field];
+    const value = vitals[field];
+    const before = previous?.vitals[field];
+
+    if (!limit || value === undefined || before === undefined || Math.abs(at - previous!.at) > limit.within_ms) {
+        return undefined;
+    }
+
+    return Math.abs(value - before) > limit.value;
+}
+
+/**
+ * Check a reading against plausibility limits, signal quality and the
+ * largest plausible jump from the last accepted reading. A jump is
+ * accepted when the last rejected reading confirms it, so a sustained
+ * change is only held back for one sample.
+ */
+export function detectArtifacts(
+    vitals: VitalsData,
+    at: number,
+    lastAccepted: VitalsSample | undefined,
+    lastRejected: VitalsSample | undefined,
+    config: ArtifactConfig,
+): ArtifactReason[] {
+    const reasons: ArtifactReason[] = [];
+
+    for (const field of NUMERIC_VITAL_FIELDS) {
+        const range = config.limits?.[field];
+        const value = vitals[field];
+        if (range && value !== undefined && (value < range[0] || value > range[1])) {
+            reasons.push({
+                code: 'IMPLAUSIBLE_VALUE',
+                field,
+                value,
+                message: `${field} ${value} outside plausible range ${range[0]}–${range[1]}`,
+            });
+        }
+    }
+
+    if (config.min_signal_quality !== undefined && vitals.signal_quality !== undefined
+        && vitals.signal_quality < config.min_signal_quality) {
+        reasons.push({
+            code: 'LOW_SIGNAL_QUALITY',
+            field: 'signal_quality',
+            value: vitals.signal_quality,
+            message: `Signal quality ${vitals.signal_quality} below ${config.min_signal_quality}`,
+        });
+    }
+
+    if (config.min_perfusion_index !== undefined && vitals.perfusion_index !== undefined
+        && vitals.perfusion_index < config.min_perfusion_index) {
+        reasons.push({
+            code: 'LOW_PERFUSION',
+            field: 'perfusion_index',
+            value: vitals.perfusion_index,
+            message: `Perfusion index ${vitals.perfusion_index}% below ${config.min_perfusion_index}%`,
+        });
+    }
+
+    for (const field of NUMERIC_VITAL_FIELDS) {
+        if (jumped(field, vitals, at, lastAccepted, config) && jumped(field, vitals, at, lastRejected, config) !== false) {
+            const value = vitals[field]!;
+            const before = lastAccepted!.vitals[field]!;
+            reasons.push({
+                code: 'IMPLAUSIBLE_JUMP',
+                field,
+                value,
+                message: `${field} changed by ${Math.abs(value - before)} from ${before}, more than ${config.max_jump![field]!.value}`,
+            });
+        }
+    }
+
+    return reasons;
+}
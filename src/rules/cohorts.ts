@@ -0,0 +1,115 @@
+import { logger } from '../config/logger.js';
+import { mergeRules } from './compiler.js';
+import { readRecordsFile } from './records.js';
+import type { CohortSelector, PatientContext, RulesConfig } from './types.js';
+
+/** Cohort name reported when no selector matches and the top-level rules apply */
+export const DEFAULT_COHORT = 'default';
+
+export interface PatientContextRecord extends PatientContext {
+    patient_id: string;
+}
+
+/**
+ * Check a selector's criteria against a patient context
+ */
+function matches(selector: CohortSelector, context: PatientContext): boolean {
+    const { age_years: age, care_unit: careUnit, pregnant } = context;
+
+    if (selector.age_min_years !== undefined && (age === undefined || age < selector.age_min_years)) {
+        return false;
+    }
+    if (selector.age_max_years !== undefined && (age === undefined || age >= selector.age_max_years)) {
+        return false;
+    }
+    if (selector.care_units !== undefined && (careUnit === undefined || !selector.care_units.includes(careUnit))) {
+        return false;
+    }
+    if (selector.pregnant !== undefined && pregnant !== selector.pregnant) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * The config each cohort evaluates with: the top-level rules as the
+ * default cohort, and every named rule set merged over them
+ */
+export function cohortRuleSets(rules: RulesConfig): Map<string, RulesConfig> {
+    const { rule_sets: ruleSets = {}, cohorts: _selection, ...base } = rules;
+    const configs = new Map<string, RulesConfig>([[DEFAULT_COHORT, base]]);
+
+    for (const [name, ruleSet] of Object.entries(ruleSets)) {
+        configs.set(name, mergeRules(base, ruleSet));
+    }
+
+    return configs;
+}
+
+/**
+ * Name of the first cohort rule set whose selector matches the context,
+ * or the default cohort
+ */
+export function selectCohort(config: RulesConfig, context: PatientContext | undefined): string {
+    if (!context) {
+        return DEFAULT_COHORT;
+    }
+
+    return config.cohorts?.find((selector) => matches(selector, context))?.rule_set ?? DEFAULT_COHORT;
+}
+
+/**
+ * Last known context per patient, loaded from a local JSON/NDJSON file and
+ * refreshed from context carried on vitals events. Context learned from
+ * events is evicted with the patient's state; file entries are kept.
+ */
+export class PatientContextStore {
+    private fileContexts = new Map<string, PatientContext>();
+    private eventContexts = new Map<string, PatientContext>();
+
+    get(patientId: string): PatientContext | undefined {
+        const fromFile = this.fileContexts.get(patientId);
+        const fromEvents = this.eventContexts.get(patientId);
+
+        return fromFile || fromEvents ? { ...fromFile, ...fromEvents } : undefined;
+    }
+
+    size(): number {
+        return new Set([...this.fileContexts.keys(), ...this.eventContexts.keys()]).size;
+    }
+
+    /**
+     * Merge context fields reported on a vitals event over what is already known
+     */
+    update(patientId: string, context: PatientContext): void {
+        this.eventContexts.set(patientId, { ...this.eventContexts.get(patientId), ...context });
+    }
+
+    /**
+     * Forget context learned from events for a patient
+     */
+    evict(patientId: string): void {
+        this.eventContexts.delete(patientId);
+    }
+
+    /**
+     * Load contexts from a `.json` file (array of records) or a
+     * `.ndjson` file (one record per line)
+     */
+    loadFile(path: string): void {
+        const records = readRecordsFile<PatientContextRecord>(path);
+        let loaded = 0;
+
+        for (const { patient_id: patientId, ...context } of records) {
+            if (!patientId) {
+                logger.warn({ context }, 'Patient context missing patient_id, ignored');
+                continue;
+            }
+            this.fileContexts.set(patientId, context);
+            loaded++;
+        }
+
+        logger.info({ path, loaded }, 'Patient contexts loaded');
+    }
+}
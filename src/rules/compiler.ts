@@ -0,0 +1,243 @@
+import { VITAL_DEFINITIONS } from './vitals.js';
+import { historyWindow } from './dsl.js';
+import type {
+    CombinationRule,
+    EscalationTier,
+    ReasonSeverity,
+    RuleDefinition,
+    RulesConfig,
+    ThresholdRule,
+} from './types.js';
+
+export interface CompiledRule extends RuleDefinition {
+    persist_samples: number;
+    escalation_tiers: EscalationTier[];
+}
+
+export interface CompiledRuleSet {
+    rules: CompiledRule[];
+    combinations: CombinationRule[];
+    /** Longest window any trend rule looks back over; 0 when no history is needed */
+    historyWindowMs: number;
+    historyMaxSamples: number;
+}
+
+const DEFAULT_HISTORY_MAX_SAMPLES = 500;
+
+const DEFAULT_ACTION = 'Continue monitoring vital signs.';
+
+/**
+ * Applied when a rules file does not declare its own combinations
+ */
+export const DEFAULT_COMBINATIONS: CombinationRule[] = [
+    {
+        min_reasons: 2,
+        severity: 'high',
+        suggested_action: 'Immediate medical attention required. Multiple vital signs abnormal.',
+    },
+];
+
+/**
+ * Severity tiers and actions for threshold blocks, keyed by reason code.
+ * A rules file's `severity_table` entry for the same code replaces these.
+ */
+export const DEFAULT_SEVERITY_TABLE: Record<string, ReasonSeverity> = {
+    HEART_RATE_HIGH: {
+        suggested_action: 'Monitor patient and reassess in 5 minutes.',
+        escalation_tiers: [
+            {
+                when: { field: 'heart_rate', op: 'gt', value: 140 },
+                severity: 'high',
+                suggested_action: 'Urgent: Check patient status and notify physician.',
+            },
+            { when: { field: 'heart_rate', op: 'gt', value: 130 }, severity: 'medium' },
+        ],
+    },
+    HEART_RATE_LOW: {
+        suggested_action: 'Monitor patient closely and assess symptoms.',
+        escalation_tiers: [
+            {
+                when: { field: 'heart_rate', op: 'lt', value: 40 },
+                severity: 'high',
+                suggested_action: 'Urgent: Check patient responsiveness and notify physician.',
+            },
+            { when: { field: 'heart_rate', op: 'lt', value: 45 }, severity: 'medium' },
+        ],
+    },
+    SPO2_LOW: {
+        suggested_action: 'Monitor closely and consider supplemental oxygen.',
+        escalation_tiers: [
+            {
+                when: { field: 'oxygen_saturation', op: 'lt', value: 85 },
+                severity: 'high',
+                suggested_action: 'Critical: Administer oxygen immediately and contact physician.',
+            },
+            { when: { field: 'oxygen_saturation', op: 'lt', value: 90 }, severity: 'medium' },
+        ],
+    },
+};
+
+/**
+ * Id of the rule a threshold block generates for one direction, e.g. `spo2_low`
+ */
+function thresholdRuleId(vital: string, direction: 'high' | 'low'): string {
+    return `${vital}_${direction}`;
+}
+
+/**
+ * Translate `heart_rate`/`spo2`/... threshold blocks into rule definitions
+ */
+export function thresholdBlocksToRules(config: RulesConfig): RuleDefinition[] {
+    const rules: RuleDefinition[] = [];
+
+    for (const vital of VITAL_DEFINITIONS) {
+        const block = config[vital.rule];
+        if (!block) {
+            continue;
+        }
+
+        const format = vital.formatThreshold ?? String;
+        const directions = [
+            { suffix: 'high', threshold: block.high_threshold, op: 'gt', verb: 'exceeds' },
+            { suffix: 'low', threshold: block.low_threshold, op: 'lt', verb: 'below' },
+        ] as const;
+
+        for (const { suffix, threshold, op, verb } of directions) {
+            if (threshold === undefined) {
+                continue;
+            }
+
+            const id = thresholdRuleId(vital.rule, suffix);
+            const code = suffix === 'high'
+                ? vital.highCode ?? `${vital.codePrefix}_HIGH`
+                : vital.lowCode ?? `${vital.codePrefix}_LOW`;
+
+            rules.push({
+                id,
+                code,
+                message: `${vital.label} {${vital.field}}${vital.unit} ${verb} threshold ${format(threshold)}${vital.unit}`,
+                fields: [vital.field],
+                condition: { field: vital.field, op, value: threshold },
+                persist_samples: block.persist_samples,
+                persist_duration_ms: block.persist_duration_ms,
+                persist_window: block.persist_window,
+                severity: DEFAULT_SEVERITY_TABLE[code]?.severity ?? 'low',
+                suggested_action: DEFAULT_SEVERITY_TABLE[code]?.suggested_action ?? DEFAULT_ACTION,
+                escalation_tiers: DEFAULT_SEVERITY_TABLE[code]?.escalation_tiers,
+                ...(block.hysteresis && {
+                    resolve: {
+                        when: {
+                            field: vital.field,
+                            op: suffix === 'high' ? 'lt' : 'gt',
+                            value: suffix === 'high' ? threshold - block.hysteresis : threshold + block.hysteresis,
+                        },
+                    },
+                }),
+            });
+        }
+    }
+
+    return rules;
+}
+
+/**
+ * Merge a rules config over a base, for cohort rule sets and patient
+ * overrides. Object blocks are merged field by field and any other field
+ * replaces the base value. Rules are replaced by id whichever form defines
+ * them: a threshold block replaces the base's declarative rules with the
+ * ids it generates, and a declarative rule replaces the base's rule with
+ * its id, dropping the threshold if a base block generated it.
+ */
+export function mergeRules(base: RulesConfig, override: RulesConfig): RulesConfig {
+    const blockIds = new Set(thresholdBlocksToRules(override).map((rule) => rule.id));
+    const declaredIds = new Set((override.rules ?? []).map((rule) => rule.id));
+    const merged: Record<string, unknown> = {
+        ...base,
+        ...(base.rules && { rules: base.rules.filter((rule) => !blockIds.has(rule.id)) }),
+    };
+
+    for (const [key, value] of Object.entries(override)) {
+        const current = merged[key];
+
+        if (key === 'rules') {
+            const byId = new Map<string, RuleDefinition>(
+                ((current as RuleDefinition[] | undefined) ?? []).map((rule) => [rule.id, rule]),
+            );
+            for (const rule of value as RuleDefinition[]) {
+                byId.set(rule.id, rule);
+            }
+            merged.rules = [...byId.values()];
+        } else if (isPlainObject(current) && isPlainObject(value)) {
+            merged[key] = { ...current, ...value };
+        } else {
+            merged[key] = value;
+        }
+    }
+
+    for (const vital of VITAL_DEFINITIONS) {
+        const block = merged[vital.rule] as ThresholdRule | undefined;
+        if (!block) {
+            continue;
+        }
+
+        const replaced = (direction: 'high' | 'low') => {
+            const id = thresholdRuleId(vital.rule, direction);
+            return declaredIds.has(id) && !blockIds.has(id);
+        };
+        if (replaced('high') || replaced('low')) {
+            const { high_threshold: high, low_threshold: low, ...rest } = block;
+            merged[vital.rule] = {
+                ...rest,
+                ...(!replaced('high') && high !== undefined && { high_threshold: high }),
+                ...(!replaced('low') && low !== undefined && { low_threshold: low }),
+            };
+        }
+    }
+
+    return merged as RulesConfig;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compile threshold blocks and declarative rules into a single rule list
+ */
+export function compileRules(config: RulesConfig): CompiledRuleSet {
+    const definitions = [...thresholdBlocksToRules(config), ...(config.rules ?? [])];
+    const seen = new Set<string>();
+
+    const rules = definitions.map((definition): CompiledRule => {
+        if (seen.has(definition.id)) {
+            throw new Error(`Duplicate rule id: ${definition.id}`);
+        }
+        seen.add(definition.id);
+
+        const table = config.severity_table?.[definition.code];
+
+        return {
+            ...definition,
+            persist_samples: definition.persist_samples || 1,
+            severity: table?.severity ?? definition.severity,
+            suggested_action: table?.suggested_action ?? definition.suggested_action,
+            escalation_tiers: table?.escalation_tiers ?? definition.escalation_tiers ?? [],
+        };
+    });
+
+    const historyWindowMs = Math.max(
+        0,
+        ...rules.flatMap((rule) => [
+            rule.condition,
+            ...rule.escalation_tiers.map((tier) => tier.when),
+            ...(rule.resolve?.when ? [rule.resolve.when] : []),
+        ]).map(historyWindow),
+    );
+
+    return {
+        rules,
+        combinations: config.combinations ?? DEFAULT_COMBINATIONS,
+        historyWindowMs,
+        historyMaxSamples: config.history?.max_samples ?? DEFAULT_HISTORY_MAX_SAMPLES,
+    };
+}
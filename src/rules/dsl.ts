@@ -0,0 +1,217 @@
+import { VITAL_DEFINITIONS } from './vitals.js';
+import type {
+    ComparisonOperator,
+    EvidenceValues,
+    ReasonEvidence,
+    RuleCondition,
+    SlopeCondition,
+    VitalField,
+    VitalsData,
+    VitalsSample,
+} from './types.js';
+
+/**
+ * Read a field as a number, converting ordinal vitals such as ACVPU
+ */
+export function readNumeric(vitals: VitalsData, field: VitalField): number {
+    const raw = vitals[field];
+    const definition = VITAL_DEFINITIONS.find((vital) => vital.field === field);
+    return definition?.toNumber ? definition.toNumber(raw) : Number(raw);
+}
+
+function applyOperator(actual: number, op: ComparisonOperator, threshold: number): boolean {
+    switch (op) {
+        case 'eq':
+            return actual === threshold;
+        case 'neq':
+            return actual !== threshold;
+        case 'gt':
+            return actual > threshold;
+        case 'gte':
+            return actual >= threshold;
+        case 'lt':
+            return actual < threshold;
+        case 'lte':
+            return actual <= threshold;
+    }
+}
+
+function compare(
+    vitals: VitalsData,
+    field: VitalField,
+    op: ComparisonOperator,
+    expected: number | string | boolean,
+): boolean {
+    if ((op === 'eq' || op === 'neq') && typeof expected !== 'number') {
+        const equal = vitals[field] === expected;
+        return op === 'eq' ? equal : !equal;
+    }
+
+    const threshold = typeof expected === 'number' ? expected : Number(expected);
+    return applyOperator(readNumeric(vitals, field), op, threshold);
+}
+
+/**
+ * Readings of a field within `windowMs` before the current reading, oldest first
+ */
+function windowPoints(
+    history: VitalsSample[],
+    vitals: VitalsData,
+    field: VitalField,
+    windowMs: number,
+): Array<{ at: number; value: number }> {
+    const endAt = Date.parse(vitals.timestamp);
+
+    return history
+        .filter((sample) => sample.at <= endAt && sample.at >= endAt - windowMs)
+        .filter((sample) => sample.vitals[field] !== undefined && sample.vitals[field] !== null)
+        .map((sample) => ({ at: sample.at, value: readNumeric(sample.vitals, field) }));
+}
+
+/**
+ * Least-squares slope in units per millisecond
+ */
+function leastSquaresSlope(points: Array<{ at: number; value: number }>): number {
+    const meanAt = points.reduce((sum, p) => sum + p.at, 0) / points.length;
+    const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+    let numerator = 0;
+    let denominator = 0;
+
+    for (const p of points) {
+        numerator += (p.at - meanAt) * (p.value - meanValue);
+        denominator += (p.at - meanAt) ** 2;
+    }
+
+    return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function evaluateSlope(
+    slope: SlopeCondition,
+    field: VitalField,
+    vitals: VitalsData,
+    history: VitalsSample[],
+): boolean {
+    const points = windowPoints(history, vitals, field, slope.window_ms);
+    if (points.length < (slope.min_samples ?? 3)) {
+        return false;
+    }
+    return applyOperator(leastSquaresSlope(points) * slope.per_ms, slope.op, slope.value);
+}
+
+/**
+ * Evaluate a rule condition tree against a reading. Trend conditions read
+ * `history`, which is expected to include the current reading.
+ */
+export function evaluateCondition(
+    condition: RuleCondition,
+    vitals: VitalsData,
+    history: VitalsSample[] = [],
+): boolean {
+    if ('all' in condition) {
+        return condition.all.every((child) => evaluateCondition(child, vitals, history));
+    }
+    if ('any' in condition) {
+        return condition.any.some((child) => evaluateCondition(child, vitals, history));
+    }
+    if ('not' in condition) {
+        return !evaluateCondition(condition.not, vitals, history);
+    }
+    if ('rise' in condition) {
+        const points = windowPoints(history, vitals, condition.field, condition.rise.within_ms);
+        const lowest = Math.min(...points.map((p) => p.value));
+        return points.length >= 2 && readNumeric(vitals, condition.field) - lowest > condition.rise.value;
+    }
+    if ('fall' in condition) {
+        const points = windowPoints(history, vitals, condition.field, condition.fall.within_ms);
+        const highest = Math.max(...points.map((p) => p.value));
+        return points.length >= 2 && highest - readNumeric(vitals, condition.field) > condition.fall.value;
+    }
+    if ('slope' in condition) {
+        return evaluateSlope(condition.slope, condition.field, vitals, history);
+    }
+    if ('between' in condition) {
+        const value = readNumeric(vitals, condition.field);
+        return value >= condition.between[0] && value <= condition.between[1];
+    }
+    if ('outside' in condition) {
+        const value = readNumeric(vitals, condition.field);
+        return value < condition.outside[0] || value > condition.outside[1];
+    }
+    return compare(vitals, condition.field, condition.op, condition.value);
+}
+
+/**
+ * Longest history window any trend condition in the tree needs
+ */
+export function historyWindow(condition: RuleCondition): number {
+    if ('all' in condition) {
+        return Math.max(0, ...condition.all.map(historyWindow));
+    }
+    if ('any' in condition) {
+        return Math.max(0, ...condition.any.map(historyWindow));
+    }
+    if ('not' in condition) {
+        return historyWindow(condition.not);
+    }
+    if ('rise' in condition) {
+        return condition.rise.within_ms;
+    }
+    if ('fall' in condition) {
+        return condition.fall.within_ms;
+    }
+    if ('slope' in condition) {
+        return condition.slope.window_ms;
+    }
+    return 0;
+}
+
+/**
+ * Threshold or range of a single-field condition, for alert evidence
+ */
+export function conditionThreshold(condition: RuleCondition): ReasonEvidence['threshold'] {
+    if ('op' in condition) {
+        return condition.value;
+    }
+    if ('between' in condition) {
+        return condition.between;
+    }
+    if ('outside' in condition) {
+        return condition.outside;
+    }
+    if ('rise' in condition) {
+        return condition.rise.value;
+    }
+    if ('fall' in condition) {
+        return condition.fall.value;
+    }
+    if ('slope' in condition) {
+        return condition.slope.value;
+    }
+    return undefined;
+}
+
+/**
+ * Values of the given fields on a reading
+ */
+export function pickValues(vitals: VitalsData, fields: VitalField[]): EvidenceValues {
+    return Object.fromEntries(
+        fields.filter((field) => vitals[field] !== undefined).map((field) => [field, vitals[field]]),
+    );
+}
+
+/**
+ * Check that every field a rule reads is present on the reading
+ */
+export function hasFields(vitals: VitalsData, fields: VitalField[]): boolean {
+    return fields.every((field) => vitals[field] !== undefined && vitals[field] !== null);
+}
+
+/**
+ * Replace `{field}` placeholders in a rule message with reading values
+ */
+export function renderMessage(template: string, vitals: VitalsData): string {
+    return template.replace(/\{(\w+)\}/g, (match, field: string) => {
+        const value = vitals[field as keyof VitalsData];
+        return value === undefined ? match : String(value);
+    });
+}
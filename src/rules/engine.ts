@@ -1,20 +1,127 @@
 import { logger } from '../config/logger.js';
+import { calculateNews2, DEFAULT_NEWS2_ACTIONS } from './news2.js';
+import { compileRules, mergeRules } from './compiler.js';
+import { conditionThreshold, evaluateCondition, hasFields, pickValues, renderMessage } from './dsl.js';
+import { PatientOverrideStore } from './overrides.js';
+import { cohortRuleSets, DEFAULT_COHORT, PatientContextStore, selectCohort } from './cohorts.js';
+import { detectArtifacts } from './artifacts.js';
+import { ANOMALY_CODES, detectAnomalies, summarizeBaselines } from './anomaly.js';
+import { VITAL_FIELDS } from './vitals.js';
+import { InMemoryStateStore } from './state-store.js';
+import type { PatientStateStore, StateStoreStats } from './state-store.js';
+import type { AnomalyFinding } from './anomaly.js';
+import { DEFAULT_RISK_ACTIONS, RISK_MODEL_CODE, scoreSeverity } from '../models/evaluator.js';
+import type { Evaluator } from '../models/types.js';
+import type { CompiledRule, CompiledRuleSet } from './compiler.js';
+import type { PatientOverride } from './overrides.js';
 import type {
+    EffectiveRules,
+    PatientContext,
     RulesConfig,
     VitalsData,
     AlertResult,
     AlertReason,
+    Acknowledgement,
+    AcknowledgementRecord,
+    AcknowledgementSummary,
+    AlertEscalation,
+    AlertResolution,
+    ArtifactCheck,
+    BaselineSummary,
+    EvaluateOptions,
+    ReadingAdmission,
+    ReadingLimits,
+    SignalLoss,
+    SignalLossConfig,
+    SignalRecovery,
+    ResolvePolicy,
     Severity,
     PatientState,
+    PatientSnapshot,
+    ReadingState,
+    News2Score,
+    CombinationRule,
+    CompositionStrategy,
+    RuleCondition,
+    EvidenceReading,
+    SeverityBasis,
 } from './types.js';
 
+const SEVERITY_RANK: Record<Severity, number> = { low: 1, medium: 2, high: 3 };
+
+/** Weight of the newest interval in the smoothed reporting cadence */
+const CADENCE_SMOOTHING = 0.2;
+const DEFAULT_CADENCE_MULTIPLIER = 3;
+
+const DEFAULT_ANOMALY_ACTION = 'Review patient: vital sign deviates from their usual baseline.';
+
+const NEWS2_CODES = new Set(['NEWS2_ELEVATED', 'NEWS2_RED_PARAMETER']);
+/** NEWS2 single-parameter score that counts as red */
+const RED_PARAMETER_SCORE = 3;
+
+/** Violating readings kept per rule as alert evidence */
+const MAX_EVIDENCE_READINGS = 10;
+
+const DEFAULT_DEDUP_WINDOW_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+/** Readings remembered per patient for duplicate detection, at most */
+const MAX_SEEN_READINGS = 500;
+
+const DEFAULT_STRATEGY: CompositionStrategy = 'max_severity';
+const DEFAULT_MODEL_WEIGHT = 0.5;
+
+/**
+ * Rules in force for a patient: the rules of the patient's cohort, or those
+ * rules with the patient's overrides merged over them
+ */
+interface ActiveRules {
+    config: RulesConfig;
+    ruleSet: CompiledRuleSet;
+    effective: EffectiveRules;
+}
+
+interface FiredRule {
+    /** Absent for reasons raised by the anomaly detector */
+    rule?: CompiledRule;
+    severity: Severity;
+    suggestedAction: string;
+    reason: AlertReason;
+}
+
+/**
+ * Severity, action and reasons of a reading; no severity means no alert
+ */
+interface Outcome {
+    severity?: Severity;
+    suggestedAction?: string;
+    reasons: AlertReason[];
+    basis?: SeverityBasis;
+}
+
+/**
+ * Reading timestamp in epoch ms, falling back to arrival time if unparseable
+ */
+function readingTime(vitals: VitalsData): number {
+    const parsed = Date.parse(vitals.timestamp);
+    return isNaN(parsed) ? Date.now() : parsed;
+}
+
 export class RulesEngine {
-    private patientStates = new Map<string, PatientState>();
+    private patientRules = new Map<string, { override: PatientOverride; cohort: string; active: ActiveRules }>();
+    private cohortRules: Map<string, ActiveRules>;
 
     constructor(
         private rules: RulesConfig,
         private stateTtlMs: number,
+        private rulesVersion?: string,
+        private overrides?: PatientOverrideStore,
+        private contexts = new PatientContextStore(),
+        private model?: Evaluator,
+        private states: PatientStateStore = new InMemoryStateStore(),
+        private readingLimits: ReadingLimits = {},
     ) {
+        this.cohortRules = this.activateCohorts(rules, rulesVersion);
+
         // Start periodic cleanup of stale states
         this.startCleanupInterval();
     }
@@ -35,14 +142,16 @@ export class RulesEngine {
         const now = Date.now();
         const stalePatients: string[] = [];
 
-        for (const [patientId, state] of this.patientStates.entries()) {
-            if (now - state.lastUpdated > this.stateTtlMs) {
-                stalePatients.push(patientId);
+        for (const state of this.states.values()) {
+            if (now - state.lastUpdated > this.stateTtlMs && !this.isSignalLossPending(state, now)) {
+                stalePatients.push(state.patientId);
             }
         }
 
         stalePatients.forEach((patientId) => {
-            this.patientStates.delete(patientId);
+            this.states.delete(patientId);
+            this.patientRules.delete(patientId);
+            this.contexts.evict(patientId);
             logger.debug({ patientId }, 'Evicted stale patient state');
         });
 
@@ -52,189 +161,1254 @@ export class RulesEngine {
     }
 
     /**
-     * Get or create patient state
+     * A monitored device's state is kept until its signal loss has been
+     * reported, and for one TTL afterwards so that recovery can be reported
      */
-    private getPatientState(patientId: string): PatientState {
-        let state = this.patientStates.get(patientId);
+    private isSignalLossPending(state: PatientState, now: number): boolean {
+        if (!state.signal || !this.getSignalLossConfig(state.patientId)) {
+            return false;
+        }
 
-        if (!state) {
-            state = {
-                patientId,
-                violations: {},
-                lastUpdated: Date.now(),
+        return !state.signal.lost || now - state.signal.lost.at <= this.stateTtlMs;
+    }
+
+    /**
+     * Swap in a new rules configuration. The new rules are compiled before
+     * anything changes, so an invalid config throws and leaves the engine as-is.
+     * Violation counters are kept for rule ids present in both rule sets.
+     */
+    updateRules(rules: RulesConfig, version?: string): void {
+        const cohortRules = this.activateCohorts(rules, version);
+
+        this.rules = rules;
+        this.rulesVersion = version;
+        this.cohortRules = cohortRules;
+        this.patientRules.clear();
+
+        for (const state of this.states.values()) {
+            const active = this.resolveRules(state.patientId, this.contexts.get(state.patientId));
+            const ruleIds = new Set(active.ruleSet.rules.map((rule) => rule.id));
+            const dropped = Object.keys(state.violations).filter((ruleId) => !ruleIds.has(ruleId));
+
+            for (const ruleId of dropped) {
+                delete state.violations[ruleId];
+            }
+            if (dropped.length > 0) {
+                this.states.set(state);
+            }
+        }
+    }
+
+    /**
+     * Compile the top-level rules and every named rule set merged over them.
+     * Throws without side effects if any of them fails to compile.
+     */
+    private activateCohorts(rules: RulesConfig, version?: string): Map<string, ActiveRules> {
+        const active = new Map<string, ActiveRules>();
+
+        for (const [name, config] of cohortRuleSets(rules)) {
+            active.set(name, this.activate(config, name, version));
+        }
+
+        return active;
+    }
+
+    private activate(config: RulesConfig, cohort: string, version?: string): ActiveRules {
+        return {
+            config,
+            ruleSet: compileRules(config),
+            effective: { source: 'global', rules_version: version, cohort },
+        };
+    }
+
+    /**
+     * Rules in force for a patient: the rule set of the cohort selected by
+     * the patient's context, with any override merged over it. Merged rule
+     * sets are compiled once per override revision and cohort; an override
+     * that fails to compile falls back to the cohort's rules.
+     */
+    private resolveRules(patientId: string, context: PatientContext | undefined): ActiveRules {
+        const cohort = selectCohort(this.rules, context);
+        const base = this.cohortRules.get(cohort) ?? this.cohortRules.get(DEFAULT_COHORT)!;
+
+        const override = this.overrides?.get(patientId);
+        if (!override) {
+            return base;
+        }
+
+        const cached = this.patientRules.get(patientId);
+        if (cached?.override === override && cached.cohort === cohort) {
+            return cached.active;
+        }
+
+        let active: ActiveRules;
+        try {
+            const config = mergeRules(base.config, override.overrides);
+            active = {
+                config,
+                ruleSet: compileRules(config),
+                effective: {
+                    source: 'patient_override',
+                    rules_version: this.rulesVersion,
+                    cohort: base.effective.cohort,
+                    overrides: override.overrides,
+                    overrides_updated_at: override.updatedAt,
+                },
             };
-            this.patientStates.set(patientId, state);
+        } catch (err) {
+            logger.error({ patientId, error: err }, 'Patient override could not be applied, using cohort rules');
+            active = base;
         }
 
+        this.patientRules.set(patientId, { override, cohort, active });
+        return active;
+    }
+
+    getRules(): RulesConfig {
+        return this.rules;
+    }
+
+    getRulesVersion(): string | undefined {
+        return this.rulesVersion;
+    }
+
+    /**
+     * Name and version of the risk model beside the rules, if one is loaded
+     */
+    getRiskModel(): { name: string; version: string } | undefined {
+        return this.model && { name: this.model.name, version: this.model.version };
+    }
+
+    /**
+     * Get or create patient state, marked as changed for the state store
+     */
+    private getPatientState(patientId: string): PatientState {
+        const state = this.states.get(patientId) ?? this.createPatientState(patientId);
+
+        this.states.set(state);
         return state;
     }
 
     /**
-     * Update patient state with new violation count
+     * A copy of the patient's state, for evaluating without changing it
+     */
+    private copyPatientState(patientId: string): PatientState {
+        const state = this.states.get(patientId);
+        return state ? structuredClone(state) : this.createPatientState(patientId);
+    }
+
+    private createPatientState(patientId: string): PatientState {
+        return {
+            patientId,
+            violations: {},
+            history: [],
+            alerted: {},
+            episodes: {},
+            acknowledgements: {},
+            baselines: {},
+            lastUpdated: Date.now(),
+        };
+    }
+
+    /**
+     * Classify a reading against those already admitted for the patient and
+     * remember it. A duplicate has the timestamp and device of a reading
+     * admitted within the dedup window; an expired reading is older than
+     * the window, where duplicates can no longer be told apart. A reading
+     * from further ahead than the clock skew allows is rejected, so that a
+     * device with a wrong clock cannot make every later reading look late.
      */
-    private updateViolationCount(
+    admitReading(vitals: VitalsData, now = Date.now()): ReadingAdmission {
+        const dedupWindowMs = this.readingLimits.dedupWindowMs ?? DEFAULT_DEDUP_WINDOW_MS;
+        const horizon = now + (this.readingLimits.maxClockSkewMs ?? DEFAULT_MAX_CLOCK_SKEW_MS);
+        const at = readingTime(vitals);
+        if (at > horizon) {
+            return 'future';
+        }
+
+        const state = this.getPatientState(vitals.patient_id);
+        const seen = state.seenReadings ?? [];
+        const latest = Math.min(state.latestReadingAt ?? at, horizon);
+
+        if (seen.some((reading) => reading.at === at && reading.device === vitals.device_id)) {
+            return 'duplicate';
+        }
+        if (at < latest - dedupWindowMs) {
+            return 'expired';
+        }
+
+        const newest = Math.max(latest, at);
+        state.latestReadingAt = newest;
+        state.seenReadings = [
+            ...seen.filter((reading) => reading.at >= newest - dedupWindowMs),
+            { at, ...(vitals.device_id !== undefined && { device: vitals.device_id }) },
+        ].slice(-MAX_SEEN_READINGS);
+
+        return at < latest ? 'late' : 'new';
+    }
+
+    /**
+     * Copy what handling a reading changes in the patient's state before the
+     * reading is handled. History samples and seen readings are replaced
+     * rather than changed, so copying their lists is enough.
+     */
+    snapshotPatient(patientId: string): PatientSnapshot {
+        const state = this.states.get(patientId);
+        if (!state) {
+            return { patientId };
+        }
+
+        const recovery: ReadingState['recovery'] = {};
+        for (const [code, { alertEventId, recoveredSamples, recoveredSince }] of Object.entries(state.episodes)) {
+            recovery[code] = { alertEventId, recoveredSamples, recoveredSince };
+        }
+
+        return {
+            patientId,
+            state: {
+                violations: structuredClone(state.violations),
+                history: [...state.history],
+                baselines: structuredClone(state.baselines),
+                lastAccepted: state.lastAccepted,
+                lastRejected: state.lastRejected,
+                latestReadingAt: state.latestReadingAt,
+                seenReadings: state.seenReadings,
+                recovery,
+            },
+        };
+    }
+
+    /**
+     * Put back what a reading whose handling will be retried changed, so its
+     * redelivery is admitted and counted as if it were the first delivery
+     * rather than being dropped as a duplicate or counted twice. Changes made
+     * meanwhile by acknowledgements, the signal monitor or events already
+     * published for the reading are kept.
+     */
+    restorePatient(snapshot: PatientSnapshot): void {
+        const state = this.states.get(snapshot.patientId);
+        if (!state) {
+            return;
+        }
+        if (!snapshot.state) {
+            this.states.delete(snapshot.patientId);
+            return;
+        }
+
+        const { recovery, ...reading } = snapshot.state;
+        Object.assign(state, reading);
+        for (const [code, episode] of Object.entries(state.episodes)) {
+            const before = recovery[code];
+            if (before?.alertEventId === episode.alertEventId) {
+                episode.recoveredSamples = before.recoveredSamples;
+                episode.recoveredSince = before.recoveredSince;
+            }
+        }
+
+        this.states.set(state);
+    }
+
+    /**
+     * Record whether the rule is violated by this reading and report
+     * whether the violation has persisted long enough to fire
+     */
+    private updateViolation(
         state: PatientState,
-        violationType: keyof PatientState['violations'],
+        rule: CompiledRule,
+        vitals: VitalsData,
         isViolating: boolean,
-    ): number {
+        at: number,
+    ): boolean {
+        const track = state.violations[rule.id] ?? (state.violations[rule.id] = { count: 0 });
+
         if (isViolating) {
-            const current = state.violations[violationType] || 0;
-            state.violations[violationType] = current + 1;
-            return state.violations[violationType]!;
+            track.count++;
+            track.firstViolationAt ??= at;
+            track.readings = [...(track.readings ?? []), { at, values: pickValues(vitals, rule.fields) }]
+                .slice(-MAX_EVIDENCE_READINGS);
         } else {
-            // Reset violation count if no longer violating
-            state.violations[violationType] = 0;
-            return 0;
+            // Reset the streak if no longer violating
+            track.count = 0;
+            track.firstViolationAt = undefined;
+            if (!rule.persist_window) {
+                track.readings = undefined;
+            }
+        }
+
+        if (rule.persist_window) {
+            const { min_violations, of_samples, window_ms } = rule.persist_window;
+            const recent = (track.recent ?? []).filter((entry) => entry.at >= at - window_ms);
+            recent.push({ at, violating: isViolating });
+            track.recent = of_samples ? recent.slice(-of_samples) : recent;
+            track.readings = track.readings?.filter((reading) => reading.at >= track.recent![0].at);
+
+            const violations = track.recent.filter((entry) => entry.violating).length;
+            return isViolating && violations >= min_violations;
         }
+
+        if (!isViolating) {
+            return false;
+        }
+
+        if (rule.persist_duration_ms !== undefined) {
+            return at - track.firstViolationAt! >= rule.persist_duration_ms;
+        }
+
+        return track.count >= rule.persist_samples;
     }
 
     /**
-     * Evaluate vitals and return alert decision
+     * Add a reading to the patient's history in timestamp order and trim it
+     * to the longest trend window and the sample cap
      */
-    evaluate(vitals: VitalsData): AlertResult {
-        const reasons: AlertReason[] = [];
-        const state = this.getPatientState(vitals.patient_id);
+    private recordHistory(state: PatientState, vitals: VitalsData, at: number, ruleSet: CompiledRuleSet): void {
+        const { historyWindowMs, historyMaxSamples } = ruleSet;
+
+        if (historyWindowMs === 0) {
+            state.history = [];
+            return;
+        }
+
+        let index = state.history.length;
+        while (index > 0 && state.history[index - 1].at > at) {
+            index--;
+        }
+        state.history.splice(index, 0, { at, vitals });
+
+        const newest = state.history[state.history.length - 1].at;
+        const firstKept = state.history.findIndex((sample) => sample.at >= newest - historyWindowMs);
+        state.history.splice(0, Math.max(firstKept, state.history.length - historyMaxSamples));
+    }
+
+    /**
+     * Check a reading for sensor artifacts before it is evaluated, using the
+     * patient's cohort and override rules. Accepted readings become the
+     * baseline for jump checks unless the check is read-only.
+     */
+    checkArtifacts(vitals: VitalsData, options: EvaluateOptions = {}): ArtifactCheck {
+        if (vitals.patient_context) {
+            this.contexts.update(vitals.patient_id, vitals.patient_context);
+        }
+        const { config } = this.resolveRules(vitals.patient_id, this.contexts.get(vitals.patient_id));
+        if (!config.artifacts || config.artifacts.enabled === false) {
+            return { artifact: false, reasons: [] };
+        }
+
+        const state = options.readOnly
+            ? this.copyPatientState(vitals.patient_id)
+            : this.getPatientState(vitals.patient_id);
         state.lastUpdated = Date.now();
+        const sample = { at: readingTime(vitals), vitals };
+        const reasons = detectArtifacts(vitals, sample.at, state.lastAccepted, state.lastRejected, config.artifacts);
 
-        // Check heart rate high
-        if (this.rules.heart_rate?.high_threshold !== undefined) {
-            const isViolating = vitals.heart_rate > this.rules.heart_rate.high_threshold;
-            const count = this.updateViolationCount(state, 'heart_rate_high', isViolating);
-            const persistSamples = this.rules.heart_rate.persist_samples || 1;
+        if (reasons.length > 0) {
+            state.lastRejected = sample;
+        } else {
+            state.lastAccepted = sample;
+            state.lastRejected = undefined;
+        }
 
-            if (count >= persistSamples) {
-                reasons.push({
-                    code: 'HEART_RATE_HIGH',
-                    message: `Heart rate ${vitals.heart_rate} exceeds threshold ${this.rules.heart_rate.high_threshold}`,
-                });
-            }
+        return { artifact: reasons.length > 0, reasons };
+    }
+
+    /**
+     * Evaluate vitals and return alert decision. A read-only evaluation
+     * neither resolves episodes nor reports a signal recovery.
+     */
+    evaluate(vitals: VitalsData, options: EvaluateOptions = {}): AlertResult {
+        const state = options.readOnly
+            ? this.copyPatientState(vitals.patient_id)
+            : this.getPatientState(vitals.patient_id);
+        state.lastUpdated = Date.now();
+
+        const fired: FiredRule[] = [];
+        const at = readingTime(vitals);
+        if (vitals.patient_context) {
+            this.contexts.update(vitals.patient_id, vitals.patient_context);
         }
+        const active = this.resolveRules(vitals.patient_id, this.contexts.get(vitals.patient_id));
+        const { config, ruleSet } = active;
+        this.recordHistory(state, vitals, at, ruleSet);
+        const signalRecovered = this.trackSignal(state, at, state.lastUpdated);
+        const recovered = signalRecovered && !options.readOnly ? { signalRecovered } : undefined;
 
-        // Check heart rate low
-        if (this.rules.heart_rate?.low_threshold !== undefined) {
-            const isViolating = vitals.heart_rate < this.rules.heart_rate.low_threshold;
-            const count = this.updateViolationCount(state, 'heart_rate_low', isViolating);
-            const persistSamples = this.rules.heart_rate.persist_samples || 1;
+        // Evaluate every rule whose fields are present on the reading
+        for (const rule of ruleSet.rules) {
+            if (!hasFields(vitals, rule.fields)) {
+                continue;
+            }
 
-            if (count >= persistSamples) {
-                reasons.push({
-                    code: 'HEART_RATE_LOW',
-                    message: `Heart rate ${vitals.heart_rate} below threshold ${this.rules.heart_rate.low_threshold}`,
-                });
+            const isViolating = evaluateCondition(rule.condition, vitals, state.history);
+            if (this.updateViolation(state, rule, vitals, isViolating, at)) {
+                fired.push(this.fireRule(rule, vitals, state));
             }
         }
 
-        // Check SpO2 low
-        if (this.rules.spo2?.low_threshold !== undefined) {
-            const isViolating = vitals.oxygen_saturation < this.rules.spo2.low_threshold;
-            const count = this.updateViolationCount(state, 'spo2_low', isViolating);
-            const persistSamples = this.rules.spo2.persist_samples || 1;
+        // Deviations from the patient's own baseline
+        const anomalies = config.anomaly && config.anomaly.enabled !== false
+            ? detectAnomalies(state, vitals, config.anomaly)
+            : [];
+        for (const anomaly of anomalies.filter((finding) => finding.fires)) {
+            fired.push(this.fireAnomaly(anomaly, config));
+        }
 
-            if (count >= persistSamples) {
-                reasons.push({
-                    code: 'SPO2_LOW',
-                    message: `SpO2 ${vitals.oxygen_saturation}% below threshold ${this.rules.spo2.low_threshold}%`,
-                });
-            }
+        // NEWS2 early-warning score
+        const news2 = config.news2?.enabled ? calculateNews2(vitals, config.news2) : undefined;
+        const news2Reason = news2 ? this.getNews2Reason(news2, vitals, config) : undefined;
+
+        // Risk model scored beside the rules
+        const strategy = config.model?.strategy ?? DEFAULT_STRATEGY;
+        const modelResult = this.model?.evaluate({ vitals, history: state.history });
+        const scored = modelResult?.risk ? { risk: { ...modelResult.risk, strategy } } : undefined;
+
+        // Open alert episodes this reading resolves, and those left open too long
+        const detected = new Set(anomalies.map((anomaly) => anomaly.code));
+        if (modelResult?.shouldAlert) {
+            detected.add(RISK_MODEL_CODE);
         }
+        const resolutions = this.updateEpisodes(state, vitals, at, ruleSet, config, news2Reason, detected);
+        const resolved = resolutions.length > 0 && !options.readOnly ? { resolved: resolutions } : undefined;
+        const unacknowledged = this.findUnacknowledgedEscalations(
+            state,
+            at,
+            config,
+            new Set(resolutions.map((resolution) => resolution.code)),
+        );
+
+        const { severity, suggestedAction, reasons, basis } = this.composeModel(
+            this.combineRules(fired, ruleSet, news2, news2Reason, config),
+            modelResult,
+            strategy,
+            config,
+        );
 
         // No violations
-        if (reasons.length === 0) {
-            return { shouldAlert: false };
+        if (!severity) {
+            return {
+                shouldAlert: false,
+                news2,
+                rulesVersion: this.rulesVersion,
+                effectiveRules: active.effective,
+                ...resolved,
+                ...(unacknowledged.length > 0 && { escalations: unacknowledged }),
+                ...recovered,
+                ...scored,
+            };
         }
 
-        // Determine severity based on number and type of violations
-        const severity = this.calculateSeverity(reasons, vitals);
-        const suggestedAction = this.getSuggestedAction(reasons, vitals);
+        // Open episodes whose severity increased escalate instead of raising again
+        const escalations = [
+            ...this.findSeverityEscalations(state, reasons, severity, suggestedAction!, at, config),
+            ...unacknowledged,
+        ];
+        const escalating = new Set(
+            escalations.filter((e) => e.trigger === 'severity_increase').flatMap((e) => e.codes),
+        );
+        const toRaise = reasons.filter((reason) => !escalating.has(reason.code));
 
         return {
             shouldAlert: true,
             severity,
             reasons,
             suggestedAction,
+            news2,
+            rulesVersion: this.rulesVersion,
+            effectiveRules: active.effective,
+            evidence: {
+                ...(this.rulesVersion && { rules_version: this.rulesVersion }),
+                severity: basis!,
+            },
+            ...(this.isSuppressed(state, toRaise, severity, at, config) && { suppressed: true }),
+            ...resolved,
+            ...(escalations.length > 0 && { escalations }),
+            ...recovered,
+            ...scored,
+        };
+    }
+
+    /**
+     * Update the device's reporting cadence from an evaluated reading and
+     * report a recovery when the signal had been reported lost. The gap
+     * itself is left out of the cadence.
+     */
+    private trackSignal(state: PatientState, at: number, now: number): SignalRecovery | undefined {
+        const signal = state.signal;
+        if (!signal) {
+            state.signal = { lastSeenAt: now, lastReadingAt: at };
+            return undefined;
+        }
+
+        const interval = at - signal.lastReadingAt;
+        const recovery = signal.lost && {
+            lostEventId: signal.lost.eventId,
+            lostAt: signal.lost.at,
+            lastSeenAt: signal.lastSeenAt,
+            recoveredAt: now,
         };
+
+        if (interval > 0 && !signal.lost) {
+            signal.intervalMs = signal.intervalMs === undefined
+                ? interval
+                : signal.intervalMs + CADENCE_SMOOTHING * (interval - signal.intervalMs);
+        }
+        signal.lastSeenAt = now;
+        signal.lastReadingAt = Math.max(at, signal.lastReadingAt);
+
+        return recovery;
+    }
+
+    private getSignalLossConfig(patientId: string): SignalLossConfig | undefined {
+        const config = this.resolveRules(patientId, this.contexts.get(patientId)).config.signal_loss;
+        return config && config.enabled !== false ? config : undefined;
+    }
+
+    /**
+     * Devices silent for longer than `signal_loss.after_ms`, or than the
+     * cadence multiple of their learnt reporting interval if that is longer,
+     * whose loss has not been reported yet
+     */
+    findSignalLosses(now = Date.now()): SignalLoss[] {
+        const losses: SignalLoss[] = [];
+
+        for (const state of this.states.values()) {
+            const signal = state.signal;
+            const config = signal && !signal.lost ? this.getSignalLossConfig(state.patientId) : undefined;
+            if (!signal || !config) {
+                continue;
+            }
+
+            const multiplier = config.cadence_multiplier ?? DEFAULT_CADENCE_MULTIPLIER;
+            const thresholdMs = Math.round(Math.max(config.after_ms, multiplier * (signal.intervalMs ?? 0)));
+            const silentMs = now - signal.lastSeenAt;
+
+            if (silentMs >= thresholdMs) {
+                losses.push({
+                    patientId: state.patientId,
+                    lastSeenAt: signal.lastSeenAt,
+                    lastReadingAt: signal.lastReadingAt,
+                    silentMs,
+                    thresholdMs,
+                    ...(signal.intervalMs !== undefined && { expectedIntervalMs: Math.round(signal.intervalMs) }),
+                });
+            }
+        }
+
+        return losses;
+    }
+
+    /**
+     * Mark a signal loss as reported, once device.signal.lost is published
+     */
+    recordSignalLost(patientId: string, eventId: string, at = Date.now()): void {
+        const state = this.states.get(patientId);
+        if (state?.signal) {
+            state.signal.lost = { eventId, at };
+            this.states.set(state);
+        }
+    }
+
+    /**
+     * Clear a reported signal loss, once device.signal.recovered is published
+     */
+    recordSignalRecovered(patientId: string, recovery: SignalRecovery): void {
+        const state = this.states.get(patientId);
+        if (state?.signal?.lost?.eventId === recovery.lostEventId) {
+            state.signal.lost = undefined;
+            this.states.set(state);
+        }
+    }
+
+    /**
+     * Number of devices whose signal is currently reported lost
+     */
+    getSilentDevicesCount(): number {
+        return [...this.states.values()].filter((state) => state.signal?.lost).length;
+    }
+
+    /**
+     * Escalations for open episodes of the firing reasons whose severity the
+     * current alert exceeds, one per originating alert
+     */
+    private findSeverityEscalations(
+        state: PatientState,
+        reasons: AlertReason[],
+        severity: Severity,
+        suggestedAction: string,
+        at: number,
+        config: RulesConfig,
+    ): AlertEscalation[] {
+        if (!(config.alerting?.realert_on_escalation ?? true)) {
+            return [];
+        }
+
+        const byAlert = new Map<string, AlertEscalation>();
+
+        for (const { code } of reasons) {
+            const episode = state.episodes[code];
+            if (!episode || SEVERITY_RANK[severity] <= SEVERITY_RANK[episode.severity]) {
+                continue;
+            }
+
+            const escalation = byAlert.get(episode.alertEventId);
+            if (escalation) {
+                escalation.codes.push(code);
+                continue;
+            }
+
+            byAlert.set(episode.alertEventId, {
+                alertEventId: episode.alertEventId,
+                codes: [code],
+                previousSeverity: episode.severity,
+                severity,
+                trigger: 'severity_increase',
+                suggestedAction,
+                raisedAt: episode.raisedAt,
+                escalatedAt: at,
+            });
+        }
+
+        return [...byAlert.values()];
     }
 
     /**
-     * Calculate alert severity based on violations
+     * Escalations for open episodes that have stayed at or above the
+     * configured severity for too long, one per originating alert. Episodes
+     * this reading resolves are skipped.
      */
-    private calculateSeverity(reasons: AlertReason[], vitals: VitalsData): Severity {
-        // Multiple violations = high severity
-        if (reasons.length >= 2) {
-            return 'high';
+    private findUnacknowledgedEscalations(
+        state: PatientState,
+        at: number,
+        config: RulesConfig,
+        resolving: Set<string>,
+    ): AlertEscalation[] {
+        const policy = config.alerting?.unacknowledged_escalation;
+        if (!policy) {
+            return [];
         }
 
-        // Check for critical individual values
-        for (const reason of reasons) {
-            if (reason.code === 'SPO2_LOW' && vitals.oxygen_saturation < 85) {
-                return 'high';
+        const minRank = SEVERITY_RANK[policy.min_severity ?? 'high'];
+        const byAlert = new Map<string, AlertEscalation>();
+
+        for (const [code, episode] of Object.entries(state.episodes)) {
+            if (
+                resolving.has(code) ||
+                this.isAcknowledged(state, code, episode.severity, at) ||
+                episode.unacknowledgedEscalatedAt !== undefined ||
+                SEVERITY_RANK[episode.severity] < minRank ||
+                at - episode.severitySince < policy.after_ms
+            ) {
+                continue;
             }
-            if (reason.code === 'HEART_RATE_HIGH' && vitals.heart_rate > 140) {
-                return 'high';
+
+            const escalation = byAlert.get(episode.alertEventId);
+            if (escalation) {
+                escalation.codes.push(code);
+                continue;
             }
-            if (reason.code === 'HEART_RATE_LOW' && vitals.heart_rate < 40) {
-                return 'high';
+
+            byAlert.set(episode.alertEventId, {
+                alertEventId: episode.alertEventId,
+                codes: [code],
+                previousSeverity: episode.severity,
+                severity: episode.severity,
+                trigger: 'unacknowledged',
+                suggestedAction: policy.suggested_action,
+                raisedAt: episode.raisedAt,
+                escalatedAt: at,
+            });
+        }
+
+        return [...byAlert.values()];
+    }
+
+    /**
+     * Count in-range readings towards each open episode's resolve policy and
+     * report the episodes it resolves. Episodes stay open until
+     * recordResolved, so a failed publish is reported again on the next reading.
+     */
+    private updateEpisodes(
+        state: PatientState,
+        vitals: VitalsData,
+        at: number,
+        ruleSet: CompiledRuleSet,
+        config: RulesConfig,
+        news2Reason: AlertReason | undefined,
+        detected: Set<string>,
+    ): AlertResolution[] {
+        const resolutions: AlertResolution[] = [];
+
+        for (const [code, episode] of Object.entries(state.episodes)) {
+            const rules = ruleSet.rules.filter((rule) => rule.code === code);
+            const recovered = this.isRecovered(code, rules, vitals, state, config, news2Reason, detected);
+
+            if (recovered === undefined) {
+                continue;
+            }
+            if (!recovered) {
+                episode.recoveredSamples = 0;
+                episode.recoveredSince = undefined;
+                continue;
             }
+
+            episode.recoveredSamples++;
+            episode.recoveredSince ??= at;
+
+            const policy = this.getResolvePolicy(rules, config);
+            const done = policy.duration_ms !== undefined
+                ? at - episode.recoveredSince >= policy.duration_ms
+                : episode.recoveredSamples >= (policy.samples ?? 1);
+
+            if (done) {
+                resolutions.push({
+                    code,
+                    alertEventId: episode.alertEventId,
+                    severity: episode.severity,
+                    raisedAt: episode.raisedAt,
+                    resolvedAt: at,
+                });
+            }
+        }
+
+        return resolutions;
+    }
+
+    /**
+     * Whether the reading is back in range for a reason code, or undefined
+     * if the reading lacks the fields to tell. Reasons no longer produced by
+     * the rules in force count as recovered. Anomalies recover once the
+     * vital is back within k standard deviations of the baseline.
+     */
+    private isRecovered(
+        code: string,
+        rules: CompiledRule[],
+        vitals: VitalsData,
+        state: PatientState,
+        config: RulesConfig,
+        news2Reason: AlertReason | undefined,
+        detected: Set<string>,
+    ): boolean | undefined {
+        if (NEWS2_CODES.has(code)) {
+            return !config.news2?.enabled || news2Reason?.code !== code;
+        }
+        if (code === RISK_MODEL_CODE) {
+            return !detected.has(code);
+        }
+        const anomalyField = ANOMALY_CODES.get(code);
+        if (anomalyField) {
+            return vitals[anomalyField] === undefined ? undefined : !detected.has(code);
+        }
+        if (rules.length === 0) {
+            return true;
+        }
+
+        const applicable = rules.filter((rule) => hasFields(vitals, rule.fields));
+        if (applicable.length === 0) {
+            return undefined;
+        }
+
+        return applicable.every((rule) =>
+            rule.resolve?.when
+                ? evaluateCondition(rule.resolve.when, vitals, state.history)
+                : !evaluateCondition(rule.condition, vitals, state.history),
+        );
+    }
+
+    /**
+     * The rule's own resolve timing, else the alerting default
+     */
+    private getResolvePolicy(rules: CompiledRule[], config: RulesConfig): Omit<ResolvePolicy, 'when'> {
+        const own = rules.find((rule) => rule.resolve?.samples !== undefined || rule.resolve?.duration_ms !== undefined);
+        return own?.resolve ?? config.alerting?.resolve ?? {};
+    }
+
+    /**
+     * An alert is suppressed when every reason left to raise was alerted
+     * within its cooldown or has been acknowledged at this severity
+     */
+    private isSuppressed(
+        state: PatientState,
+        reasons: AlertReason[],
+        severity: Severity,
+        at: number,
+        config: RulesConfig,
+    ): boolean {
+        const policy = config.alerting ?? {};
+
+        return reasons.every((reason) => {
+            const last = state.alerted[reason.code];
+            const cooldownMs = policy.reason_cooldown_ms?.[reason.code] ?? policy.cooldown_ms ?? 0;
+
+            return (last !== undefined && at - last.at < cooldownMs)
+                || this.isAcknowledged(state, reason.code, severity, at);
+        });
+    }
+
+    /**
+     * Whether a reason has an acknowledgement that is unexpired and was given
+     * at or above the severity. Expired snoozes are dropped.
+     */
+    private isAcknowledged(state: PatientState, code: string, severity: Severity, at: number): boolean {
+        const acknowledgement = state.acknowledgements[code];
+        if (!acknowledgement) {
+            return false;
+        }
+
+        if (acknowledgement.until !== undefined && at >= acknowledgement.until) {
+            delete state.acknowledgements[code];
+            return false;
         }
 
-        // Check for moderate concerns
-        for (const reason of reasons) {
-            if (reason.code === 'SPO2_LOW' && vitals.oxygen_saturation < 90) {
-                return 'medium';
+        return SEVERITY_RANK[severity] <= SEVERITY_RANK[acknowledgement.severity];
+    }
+
+    /**
+     * Apply a clinician acknowledgement or snooze to the patient's open
+     * episodes. Returns the number of episodes it applied to.
+     */
+    acknowledge(record: AcknowledgementRecord, type: Acknowledgement['type']): number {
+        const state = this.states.get(record.patient_id);
+        if (!state) {
+            return 0;
+        }
+
+        const parsed = record.acknowledged_at ? Date.parse(record.acknowledged_at) : NaN;
+        const at = isNaN(parsed) ? Date.now() : parsed;
+        const until = type === 'snoozed' ? at + (record.snooze_ms ?? 0) : undefined;
+        let applied = 0;
+
+        for (const [code, episode] of Object.entries(state.episodes)) {
+            if (record.alert_event_id && episode.alertEventId !== record.alert_event_id) {
+                continue;
             }
-            if (reason.code === 'HEART_RATE_HIGH' && vitals.heart_rate > 130) {
-                return 'medium';
+            if (record.reason_codes && !record.reason_codes.includes(code)) {
+                continue;
             }
-            if (reason.code === 'HEART_RATE_LOW' && vitals.heart_rate < 45) {
-                return 'medium';
+
+            state.acknowledgements[code] = {
+                type,
+                alertEventId: episode.alertEventId,
+                severity: episode.severity,
+                at,
+                until,
+                by: record.acknowledged_by,
+            };
+            applied++;
+        }
+
+        if (applied > 0) {
+            this.states.set(state);
+        }
+        return applied;
+    }
+
+    /**
+     * Unexpired acknowledgements across all tracked patients
+     */
+    getAcknowledgements(now = Date.now()): AcknowledgementSummary[] {
+        const summaries: AcknowledgementSummary[] = [];
+
+        for (const state of this.states.values()) {
+            for (const [code, acknowledgement] of Object.entries(state.acknowledgements)) {
+                if (acknowledgement.until !== undefined && now >= acknowledgement.until) {
+                    continue;
+                }
+
+                summaries.push({
+                    patient_id: state.patientId,
+                    reason_code: code,
+                    alert_event_id: acknowledgement.alertEventId,
+                    type: acknowledgement.type,
+                    severity: acknowledgement.severity,
+                    acknowledged_at: new Date(acknowledgement.at).toISOString(),
+                    ...(acknowledgement.by && { acknowledged_by: acknowledgement.by }),
+                    ...(acknowledgement.until !== undefined && {
+                        snoozed_until: new Date(acknowledgement.until).toISOString(),
+                    }),
+                });
             }
         }
 
-        return 'low';
+        return summaries;
     }
 
     /**
-     * Generate suggested action based on violations
+     * Start the cooldown for an alert's reasons and open an episode for each
+     * reason without one. Called once the alert has been published, so a
+     * failed publish is retried rather than suppressed.
      */
-    private getSuggestedAction(reasons: AlertReason[], vitals: VitalsData): string {
-        const codes = reasons.map((r) => r.code);
+    recordAlert(vitals: VitalsData, alert: AlertResult, alertEventId: string): void {
+        const state = this.states.get(vitals.patient_id);
+        const severity = alert.severity;
+        if (!state || !severity) {
+            return;
+        }
+
+        const at = readingTime(vitals);
+        for (const { code } of alert.reasons ?? []) {
+            state.alerted[code] = { at, severity };
+
+            const episode = state.episodes[code];
+            if (!episode) {
+                state.episodes[code] = { alertEventId, raisedAt: at, severity, severitySince: at, recoveredSamples: 0 };
+            } else if (SEVERITY_RANK[severity] > SEVERITY_RANK[episode.severity]) {
+                episode.severity = severity;
+                episode.severitySince = at;
+            }
+        }
+
+        this.states.set(state);
+    }
 
-        // Multiple violations
-        if (codes.length >= 2) {
-            return 'Immediate medical attention required. Multiple vital signs abnormal.';
+    /**
+     * Apply an escalation once it has been published. A severity increase
+     * restarts the reasons' cooldowns at the new severity and lifts any
+     * acknowledgement.
+     */
+    recordEscalation(patientId: string, escalation: AlertEscalation): void {
+        const state = this.states.get(patientId);
+        if (!state) {
+            return;
         }
 
-        // SpO2 specific
-        if (codes.includes('SPO2_LOW')) {
-            if (vitals.oxygen_saturation < 85) {
-                return 'Critical: Administer oxygen immediately and contact physician.';
+        for (const code of escalation.codes) {
+            const episode = state.episodes[code];
+            if (episode?.alertEventId !== escalation.alertEventId) {
+                continue;
+            }
+
+            if (escalation.trigger === 'unacknowledged') {
+                episode.unacknowledgedEscalatedAt = escalation.escalatedAt;
+            } else if (SEVERITY_RANK[escalation.severity] > SEVERITY_RANK[episode.severity]) {
+                episode.severity = escalation.severity;
+                episode.severitySince = escalation.escalatedAt;
+                state.alerted[code] = { at: escalation.escalatedAt, severity: escalation.severity };
+                delete state.acknowledgements[code];
             }
-            return 'Monitor closely and consider supplemental oxygen.';
         }
 
-        // Heart rate high
-        if (codes.includes('HEART_RATE_HIGH')) {
-            if (vitals.heart_rate > 140) {
-                return 'Urgent: Check patient status and notify physician.';
+        this.states.set(state);
+    }
+
+    /**
+     * Close an episode once its resolution has been published. The reason's
+     * cooldown ends with it, so a relapse alerts straight away.
+     */
+    recordResolved(patientId: string, resolution: AlertResolution): void {
+        const state = this.states.get(patientId);
+        if (state?.episodes[resolution.code]?.alertEventId !== resolution.alertEventId) {
+            return;
+        }
+
+        delete state.episodes[resolution.code];
+        delete state.alerted[resolution.code];
+        delete state.acknowledgements[resolution.code];
+        this.states.set(state);
+    }
+
+    /**
+     * Severity from the number and type of rules fired, raised by the NEWS2
+     * band if it is more severe
+     */
+    private combineRules(
+        fired: FiredRule[],
+        ruleSet: CompiledRuleSet,
+        news2: News2Score | undefined,
+        news2Reason: AlertReason | undefined,
+        config: RulesConfig,
+    ): Outcome {
+        const outcome: Outcome = { reasons: fired.map((f) => f.reason) };
+
+        if (fired.length > 0) {
+            outcome.severity = this.calculateSeverity(fired, ruleSet);
+            outcome.suggestedAction = this.getSuggestedAction(fired, ruleSet);
+            outcome.basis = this.getSeverityBasis(fired, ruleSet, outcome.severity);
+        }
+
+        if (news2Reason && news2) {
+            if (!outcome.severity || SEVERITY_RANK[news2.severity!] > SEVERITY_RANK[outcome.severity]) {
+                outcome.severity = news2.severity;
+                outcome.suggestedAction = this.getNews2Action(news2, config);
+                outcome.basis = { decided_by: 'news2', codes: [news2Reason.code] };
             }
-            return 'Monitor patient and reassess in 5 minutes.';
+            outcome.reasons.push(news2Reason);
         }
 
-        // Heart rate low
-        if (codes.includes('HEART_RATE_LOW')) {
-            if (vitals.heart_rate < 40) {
-                return 'Urgent: Check patient responsiveness and notify physician.';
+        return outcome;
+    }
+
+    /**
+     * Combine the rules outcome with the risk model's per the composition strategy
+     */
+    private composeModel(
+        rules: Outcome,
+        model: AlertResult | undefined,
+        strategy: CompositionStrategy,
+        config: RulesConfig,
+    ): Outcome {
+        if (!model || strategy === 'rules_only') {
+            return rules;
+        }
+
+        const modelOutcome: Outcome = model.severity
+            ? {
+                severity: model.severity,
+                suggestedAction: this.getModelAction(model.severity, model, config),
+                reasons: model.reasons ?? [],
+                basis: { decided_by: 'model', codes: (model.reasons ?? []).map((reason) => reason.code) },
+            }
+            : { reasons: [] };
+        const reasons = [...rules.reasons, ...modelOutcome.reasons];
+
+        switch (strategy) {
+            case 'model_only':
+                return modelOutcome;
+            case 'max_severity': {
+                const modelWins = modelOutcome.severity &&
+                    (!rules.severity || SEVERITY_RANK[modelOutcome.severity] > SEVERITY_RANK[rules.severity]);
+                return { ...(modelWins ? modelOutcome : rules), reasons };
+            }
+            case 'weighted': {
+                // Rules severities score at their band's threshold
+                const thresholds = this.model!.thresholds;
+                const weight = config.model?.weight ?? DEFAULT_MODEL_WEIGHT;
+                const rulesScore = rules.severity ? thresholds[rules.severity] : 0;
+                const blended = weight * model.risk!.score + (1 - weight) * rulesScore;
+                const severity = scoreSeverity(blended, thresholds);
+
+                if (!severity) {
+                    return { reasons: [] };
+                }
+                return {
+                    severity,
+                    suggestedAction: severity === rules.severity
+                        ? rules.suggestedAction
+                        : this.getModelAction(severity, model, config),
+                    reasons,
+                    basis: {
+                        decided_by: 'weighted',
+                        codes: reasons.map((reason) => reason.code),
+                        score: Math.round(blended * 10000) / 10000,
+                    },
+                };
             }
-            return 'Monitor patient closely and assess symptoms.';
         }
+    }
 
-        return 'Continue monitoring vital signs.';
+    private getModelAction(severity: Severity, model: AlertResult, config: RulesConfig): string {
+        return config.model?.actions?.[severity]
+            ?? (severity === model.severity ? model.suggestedAction : undefined)
+            ?? DEFAULT_RISK_ACTIONS[severity];
+    }
+
+    /**
+     * Build the NEWS2 alert reason if the score crosses the configured trigger
+     */
+    private getNews2Reason(news2: News2Score, vitals: VitalsData, config: RulesConfig): AlertReason | undefined {
+        if (!news2.severity) {
+            return undefined;
+        }
+
+        const minScore = config.news2?.min_alert_score ?? 5;
+        const alertOnRed = config.news2?.alert_on_red_parameter ?? true;
+        const partial = news2.complete
+            ? ''
+            : ` (partial score, missing: ${news2.missing_parameters.join(', ')})`;
+
+        const evidence = {
+            source: 'news2' as const,
+            observed: pickValues(vitals, VITAL_FIELDS),
+            score: news2.total,
+            severity: news2.severity,
+        };
+
+        if (news2.total >= minScore) {
+            return {
+                code: 'NEWS2_ELEVATED',
+                message: `NEWS2 score ${news2.total} at or above ${minScore}${partial}`,
+                evidence: { ...evidence, threshold: minScore },
+            };
+        }
+
+        if (alertOnRed && news2.red_parameters.length > 0) {
+            return {
+                code: 'NEWS2_RED_PARAMETER',
+                message: `NEWS2 red score for ${news2.red_parameters.join(', ')}${partial}`,
+                evidence: { ...evidence, threshold: RED_PARAMETER_SCORE },
+            };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * NEWS2 clinical response for the score band
+     */
+    private getNews2Action(news2: News2Score, config: RulesConfig): string {
+        const severity = news2.severity ?? 'low';
+        return config.news2?.actions?.[severity] ?? DEFAULT_NEWS2_ACTIONS[severity];
+    }
+
+    /**
+     * Resolve a rule's reason, severity and action for the current reading
+     */
+    private fireRule(rule: CompiledRule, vitals: VitalsData, state: PatientState): FiredRule {
+        let severity = rule.severity;
+        let suggestedAction = rule.suggested_action;
+        let escalatedBy: RuleCondition | undefined;
+
+        for (const tier of rule.escalation_tiers) {
+            if (
+                SEVERITY_RANK[tier.severity] > SEVERITY_RANK[severity] &&
+                evaluateCondition(tier.when, vitals, state.history)
+            ) {
+                severity = tier.severity;
+                suggestedAction = tier.suggested_action ?? rule.suggested_action;
+                escalatedBy = tier.when;
+            }
+        }
+
+        const threshold = conditionThreshold(rule.condition);
+        const readings: EvidenceReading[] = (state.violations[rule.id]?.readings ?? []).map((reading) => ({
+            timestamp: new Date(reading.at).toISOString(),
+            values: reading.values,
+        }));
+
+        return {
+            rule,
+            severity,
+            suggestedAction,
+            reason: {
+                code: rule.code,
+                message: renderMessage(rule.message ?? rule.code, vitals),
+                evidence: {
+                    source: 'rule',
+                    rule_id: rule.id,
+                    observed: pickValues(vitals, rule.fields),
+                    ...(threshold !== undefined && { threshold }),
+                    readings,
+                    severity,
+                    ...(escalatedBy && { escalated_by: escalatedBy }),
+                },
+            },
+        };
+    }
+
+    /**
+     * Severity and action for an anomaly, from the severity table entry for
+     * its code if there is one, else the anomaly section
+     */
+    private fireAnomaly(anomaly: AnomalyFinding, config: RulesConfig): FiredRule {
+        const table = config.severity_table?.[anomaly.code];
+
+        const severity = table?.severity ?? config.anomaly?.severity ?? 'low';
+
+        return {
+            severity,
+            suggestedAction: table?.suggested_action ?? config.anomaly?.suggested_action ?? DEFAULT_ANOMALY_ACTION,
+            reason: {
+                code: anomaly.code,
+                message: anomaly.message,
+                evidence: {
+                    source: 'anomaly',
+                    observed: { [anomaly.field]: anomaly.value },
+                    baseline: anomaly.baseline,
+                    severity,
+                },
+            },
+        };
+    }
+
+    /**
+     * Learnt anomaly baselines of a tracked patient
+     */
+    getBaselines(patientId: string): BaselineSummary[] | undefined {
+        const state = this.states.get(patientId);
+        if (!state) {
+            return undefined;
+        }
+
+        const { config } = this.resolveRules(patientId, this.contexts.get(patientId));
+        return summarizeBaselines(state, config.anomaly ?? {});
+    }
+
+    /**
+     * Find the first combination rule matching the fired rules
+     */
+    private findCombination(fired: FiredRule[], ruleSet: CompiledRuleSet): CombinationRule | undefined {
+        const codes = new Set(fired.map((f) => f.reason.code));
+
+        return ruleSet.combinations.find(
+            (combination) =>
+                fired.length >= (combination.min_reasons ?? 1) &&
+                (combination.codes ?? []).every((code) => codes.has(code)),
+        );
+    }
+
+    /**
+     * Most severe fired rule, or the first on ties
+     */
+    private mostSevere(fired: FiredRule[]): FiredRule {
+        return fired.reduce((worst, f) =>
+            SEVERITY_RANK[f.severity] > SEVERITY_RANK[worst.severity] ? f : worst,
+        );
+    }
+
+    /**
+     * What decided the rules' severity: a combination rule, or the source
+     * of the most severe reasons
+     */
+    private getSeverityBasis(fired: FiredRule[], ruleSet: CompiledRuleSet, severity: Severity): SeverityBasis {
+        const combination = this.findCombination(fired, ruleSet);
+        if (combination) {
+            return { decided_by: 'combination', codes: combination.codes ?? fired.map((f) => f.reason.code) };
+        }
+
+        const worst = fired.filter((f) => f.severity === severity);
+        return {
+            decided_by: worst[0].reason.evidence?.source ?? 'rule',
+            codes: worst.map((f) => f.reason.code),
+        };
+    }
+
+    /**
+     * Calculate alert severity based on fired rules
+     */
+    private calculateSeverity(fired: FiredRule[], ruleSet: CompiledRuleSet): Severity {
+        return this.findCombination(fired, ruleSet)?.severity ?? this.mostSevere(fired).severity;
+    }
+
+    /**
+     * Generate suggested action based on fired rules
+     */
+    private getSuggestedAction(fired: FiredRule[], ruleSet: CompiledRuleSet): string {
+        return this.findCombination(fired, ruleSet)?.suggested_action ?? this.mostSevere(fired).suggestedAction;
     }
 
     /**
      * Get current number of tracked patients (for metrics)
      */
     getTrackedPatientsCount(): number {
-        return this.patientStates.size;
+        return this.states.size();
+    }
+
+    /**
+     * Keep only the patients this instance owns, after partitions are
+     * rebalanced. Context learned from events goes with the state.
+     */
+    async claimPatients(owns: (patientId: string) => boolean): Promise<void> {
+        const released = [...this.states.values()]
+            .map((state) => state.patientId)
+            .filter((patientId) => !owns(patientId));
+
+        for (const patientId of released) {
+            this.patientRules.delete(patientId);
+            this.contexts.evict(patientId);
+        }
+
+        await this.states.claim(owns);
+    }
+
+    getStateStoreStats(): StateStoreStats {
+        return this.states.stats();
     }
 }
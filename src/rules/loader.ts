@@ -1,17 +1,57 @@
 import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
 import { logger } from '../config/logger.js';
+import { SchemaValidator } from '../contracts/schema-validator.js';
+import { compileRules } from './compiler.js';
+import { RulesValidationError, validateRules } from './validation.js';
 import type { RulesConfig } from './types.js';
 
-export function loadRules(rulesPath: string): RulesConfig {
+export interface LoadedRules {
+    rules: RulesConfig;
+    /** Short content hash identifying this rules file revision */
+    version: string;
+}
+
+/**
+ * Hash rules file content into a short version identifier
+ */
+export function rulesVersion(content: string): string {
+    return createHash('sha256').update(content).digest('hex').slice(0, 12);
+}
+
+/**
+ * Load, validate and version a rules file
+ */
+export function loadVersionedRules(rulesPath: string, validator: SchemaValidator): LoadedRules {
     try {
         const content = readFileSync(rulesPath, 'utf-8');
         const rules = JSON.parse(content) as RulesConfig;
 
-        logger.info({ rulesPath, rules }, 'Rules loaded successfully');
+        const issues = validateRules(rules, validator);
+        if (issues.length > 0) {
+            throw new RulesValidationError(issues);
+        }
 
-        return rules;
+        const { rules: compiled } = compileRules(rules);
+        const version = rulesVersion(content);
+
+        logger.info(
+            {
+                rulesPath,
+                version,
+                ruleIds: compiled.map((rule) => rule.id),
+                ruleSets: Object.keys(rules.rule_sets ?? {}),
+            },
+            'Rules loaded successfully',
+        );
+
+        return { rules, version };
     } catch (err) {
         logger.error({ rulesPath, error: err }, 'Failed to load rules');
-        throw new Error(`Failed to load rules from ${rulesPath}: ${err}`);
+        throw new Error(`Failed to load rules from ${rulesPath}: ${err instanceof Error ? err.message : err}`);
     }
 }
+
+export function loadRules(rulesPath: string, validator: SchemaValidator): RulesConfig {
+    return loadVersionedRules(rulesPath, validator).rules;
+}
@@ -0,0 +1,115 @@
+import type {
+    News2Config,
+    News2Parameter,
+    News2Score,
+    Severity,
+    VitalsData,
+} from './types.js';
+
+/**
+ * Score a value against an ascending list of [upper bound, points] bands.
+ * The last band's upper bound should be Infinity.
+ */
+function scoreBands(value: number, bands: Array<[number, number]>): number {
+    for (const [upper, points] of bands) {
+        if (value <= upper) {
+            return points;
+        }
+    }
+    return bands[bands.length - 1][1];
+}
+
+function scoreRespiratoryRate(value: number): number {
+    return scoreBands(value, [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]]);
+}
+
+function scoreSpo2Scale1(value: number): number {
+    return scoreBands(value, [[91, 3], [93, 2], [95, 1], [Infinity, 0]]);
+}
+
+/**
+ * Scale 2 is for patients with a prescribed 88–92% target (e.g. hypercapnic
+ * respiratory failure). Readings of 93% and above only score when on oxygen.
+ */
+function scoreSpo2Scale2(value: number, onOxygen: boolean | undefined): number {
+    if (value <= 92 || !onOxygen) {
+        return scoreBands(value, [[83, 3], [85, 2], [87, 1], [Infinity, 0]]);
+    }
+    return scoreBands(value, [[94, 1], [96, 2], [Infinity, 3]]);
+}
+
+function scoreSystolicBp(value: number): number {
+    return scoreBands(value, [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]]);
+}
+
+function scorePulse(value: number): number {
+    return scoreBands(value, [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]]);
+}
+
+function scoreTemperature(value: number): number {
+    return scoreBands(value, [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1], [Infinity, 2]]);
+}
+
+/** RCP clinical response per NEWS2 severity, used unless `news2.actions` replaces it */
+export const DEFAULT_NEWS2_ACTIONS: Record<Severity, string> = {
+    low: 'Assessment by a registered nurse and increase monitoring frequency.',
+    medium: 'Urgent response: review by a clinician competent in assessing acute illness.',
+    high: 'Emergency response: urgent assessment by a critical care competent team.',
+};
+
+/**
+ * Map a NEWS2 score to a severity using the RCP clinical response bands:
+ * 0 = none, 1–4 = low, a single red parameter or 5–6 = medium, 7+ = high.
+ */
+export function news2Severity(total: number, hasRedParameter: boolean): Severity | undefined {
+    if (total >= 7) return 'high';
+    if (total >= 5 || hasRedParameter) return 'medium';
+    if (total >= 1) return 'low';
+    return undefined;
+}
+
+/**
+ * Calculate the NEWS2 aggregate score and per-parameter sub-scores.
+ * Parameters absent from the reading are listed in `missing_parameters`
+ * and excluded from the total, rather than being scored as zero.
+ */
+export function calculateNews2(vitals: VitalsData, config: News2Config = {}): News2Score {
+    const scale = config.spo2_scale ?? 1;
+    const subScores: Partial<Record<News2Parameter, number>> = {};
+    const missing: News2Parameter[] = [];
+
+    const score = (param: News2Parameter, value: unknown, scorer: () => number) => {
+        if (value === undefined || value === null) {
+            missing.push(param);
+        } else {
+            subScores[param] = scorer();
+        }
+    };
+
+    score('respiratory_rate', vitals.respiratory_rate, () => scoreRespiratoryRate(vitals.respiratory_rate!));
+    score('spo2', vitals.oxygen_saturation, () =>
+        scale === 2
+            ? scoreSpo2Scale2(vitals.oxygen_saturation, vitals.supplemental_oxygen)
+            : scoreSpo2Scale1(vitals.oxygen_saturation),
+    );
+    score('supplemental_oxygen', vitals.supplemental_oxygen, () => (vitals.supplemental_oxygen ? 2 : 0));
+    score('systolic_bp', vitals.systolic_bp, () => scoreSystolicBp(vitals.systolic_bp!));
+    score('pulse', vitals.heart_rate, () => scorePulse(vitals.heart_rate));
+    score('consciousness', vitals.consciousness, () => (vitals.consciousness === 'A' ? 0 : 3));
+    score('temperature', vitals.temperature, () => scoreTemperature(vitals.temperature!));
+
+    const total = Object.values(subScores).reduce((sum, value) => sum + value, 0);
+    const redParameters = (Object.keys(subScores) as News2Parameter[]).filter(
+        (param) => subScores[param] === 3,
+    );
+
+    return {
+        total,
+        sub_scores: subScores,
+        missing_parameters: missing,
+        red_parameters: redParameters,
+        spo2_scale: scale,
+        complete: missing.length === 0,
+        severity: news2Severity(total, redParameters.length > 0),
+    };
+}
@@ -0,0 +1,104 @@
+import { logger } from '../config/logger.js';
+import { SchemaValidator } from '../contracts/schema-validator.js';
+import { cohortRuleSets } from './cohorts.js';
+import { mergeRules } from './compiler.js';
+import { readRecordsFile } from './records.js';
+import { formatIssues, validateRules } from './validation.js';
+import type { RulesConfig } from './types.js';
+
+export interface PatientOverride {
+    overrides: RulesConfig;
+    updatedAt: string;
+    source: 'file' | 'nats';
+}
+
+export interface PatientOverrideRecord {
+    patient_id: string;
+    /** Partial rules config merged over the global rules; null clears the override */
+    overrides: RulesConfig | null;
+    updated_at?: string;
+}
+
+/**
+ * Per-patient threshold overrides, loaded from a local JSON/NDJSON file
+ * and updated from `patient.thresholds.updated` events
+ */
+export class PatientOverrideStore {
+    private overrides = new Map<string, PatientOverride>();
+
+    /**
+     * @param rules The rules in force, which an override must merge over
+     *   cleanly for every cohort to be accepted
+     */
+    constructor(
+        private validator: SchemaValidator,
+        private rules?: () => RulesConfig,
+    ) { }
+
+    get(patientId: string): PatientOverride | undefined {
+        return this.overrides.get(patientId);
+    }
+
+    size(): number {
+        return this.overrides.size;
+    }
+
+    /**
+     * Validate and store a patient's override. Returns false if it was rejected.
+     */
+    apply(record: PatientOverrideRecord, source: PatientOverride['source']): boolean {
+        const { patient_id: patientId, overrides } = record;
+
+        if (!patientId) {
+            logger.warn({ record, source }, 'Patient override missing patient_id, ignored');
+            return false;
+        }
+
+        if (overrides === null) {
+            this.overrides.delete(patientId);
+            logger.info({ patientId, source }, 'Patient override cleared');
+            return true;
+        }
+
+        const issues = validateRules(overrides, this.validator);
+        for (const key of ['rule_sets', 'cohorts'] as const) {
+            if (overrides[key] !== undefined) {
+                issues.push({ path: `$.${key}`, message: 'is not allowed in a patient override' });
+            }
+        }
+        if (issues.length === 0 && this.rules) {
+            for (const [cohort, config] of cohortRuleSets(this.rules())) {
+                issues.push(...validateRules(mergeRules(config, overrides), this.validator).map((issue) => ({
+                    ...issue,
+                    message: `${issue.message} (merged over the ${cohort} rules)`,
+                })));
+            }
+        }
+        if (issues.length > 0) {
+            logger.warn(
+                { patientId, source, problems: formatIssues(issues) },
+                'Invalid patient override rejected',
+            );
+            return false;
+        }
+
+        this.overrides.set(patientId, {
+            overrides,
+            updatedAt: record.updated_at ?? new Date().toISOString(),
+            source,
+        });
+        logger.info({ patientId, source }, 'Patient override applied');
+        return true;
+    }
+
+    /**
+     * Load overrides from a `.json` file (array of records) or a
+     * `.ndjson` file (one record per line)
+     */
+    loadFile(path: string): void {
+        const records = readRecordsFile<PatientOverrideRecord>(path);
+
+        const applied = records.filter((record) => this.apply(record, 'file')).length;
+        logger.info({ path, applied, rejected: records.length - applied }, 'Patient overrides loaded');
+    }
+}
@@ -0,0 +1,16 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Read records from a `.json` file (array of records) or a `.ndjson` file
+ * (one record per line)
+ */
+export function readRecordsFile<T>(path: string): T[] {
+    const content = readFileSync(path, 'utf-8');
+
+    return path.endsWith('.ndjson')
+        ? content
+            .split('\n')
+            .filter((line) => line.trim() !== '')
+            .map((line) => JSON.parse(line))
+        : JSON.parse(content);
+}
@@ -0,0 +1,303 @@
+import { NUMERIC_VITAL_FIELDS, VITAL_DEFINITIONS, VITAL_FIELDS } from './vitals.js';
+
+export const RULES_SCHEMA_ID = 'https://5g-health-platform.example.com/schemas/ai-triage/rules.json';
+
+const severity = { type: 'string', enum: ['low', 'medium', 'high'] };
+const range = { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 };
+
+const severityActions = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        low: { type: 'string', minLength: 1 },
+        medium: { type: 'string', minLength: 1 },
+        high: { type: 'string', minLength: 1 },
+    },
+};
+
+const change = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['within_ms', 'value'],
+    properties: {
+        within_ms: { type: 'integer', minimum: 1 },
+        value: { type: 'number', minimum: 0 },
+    },
+};
+
+const persistence = {
+    persist_samples: { type: 'integer', minimum: 1 },
+    persist_duration_ms: { type: 'integer', minimum: 0 },
+    persist_window: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['min_violations', 'window_ms'],
+        properties: {
+            min_violations: { type: 'integer', minimum: 1 },
+            of_samples: { type: 'integer', minimum: 1 },
+            window_ms: { type: 'integer', minimum: 1 },
+        },
+    },
+};
+
+const resolveTiming = {
+    samples: { type: 'integer', minimum: 1 },
+    duration_ms: { type: 'integer', minimum: 0 },
+};
+
+const jumpLimit = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['value', 'within_ms'],
+    properties: {
+        value: { type: 'number', minimum: 0 },
+        within_ms: { type: 'integer', minimum: 1 },
+    },
+};
+
+const thresholdRule = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        high_threshold: { type: 'number' },
+        low_threshold: { type: 'number' },
+        hysteresis: { type: 'number', minimum: 0 },
+        ...persistence,
+    },
+};
+
+/**
+ * JSON Schema (draft 2020-12) for the rules file. Structural only; shape and
+ * cross-field checks live in validateRules.
+ */
+export const rulesSchema = {
+    $id: RULES_SCHEMA_ID,
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        ...Object.fromEntries(VITAL_DEFINITIONS.map((vital) => [vital.rule, thresholdRule])),
+        news2: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                enabled: { type: 'boolean' },
+                spo2_scale: { enum: [1, 2] },
+                min_alert_score: { type: 'integer', minimum: 0 },
+                alert_on_red_parameter: { type: 'boolean' },
+                actions: severityActions,
+            },
+        },
+        rules: {
+            type: 'array',
+            items: { $ref: '#/$defs/rule' },
+        },
+        history: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                max_samples: { type: 'integer', minimum: 2 },
+            },
+        },
+        alerting: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                cooldown_ms: { type: 'integer', minimum: 0 },
+                reason_cooldown_ms: {
+                    type: 'object',
+                    additionalProperties: { type: 'integer', minimum: 0 },
+                },
+                realert_on_escalation: { type: 'boolean' },
+                unacknowledged_escalation: {
+                    type: 'object',
+                    additionalProperties: false,
+                    required: ['after_ms', 'suggested_action'],
+                    properties: {
+                        after_ms: { type: 'integer', minimum: 0 },
+                        min_severity: severity,
+                        suggested_action: { type: 'string', minLength: 1 },
+                    },
+                },
+                resolve: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: resolveTiming,
+                },
+            },
+        },
+        anomaly: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                enabled: { type: 'boolean' },
+                fields: { type: 'array', minItems: 1, items: { enum: NUMERIC_VITAL_FIELDS } },
+                warmup_samples: { type: 'integer', minimum: 2 },
+                k: { type: 'number', exclusiveMinimum: 0 },
+                alpha: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+                min_std: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: Object.fromEntries(
+                        NUMERIC_VITAL_FIELDS.map((field) => [field, { type: 'number', exclusiveMinimum: 0 }]),
+                    ),
+                },
+                persist_samples: { type: 'integer', minimum: 1 },
+                severity,
+                suggested_action: { type: 'string', minLength: 1 },
+            },
+        },
+        model: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                strategy: { enum: ['rules_only', 'model_only', 'max_severity', 'weighted'] },
+                weight: { type: 'number', minimum: 0, maximum: 1 },
+                actions: severityActions,
+            },
+        },
+        signal_loss: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['after_ms'],
+            properties: {
+                enabled: { type: 'boolean' },
+                after_ms: { type: 'integer', minimum: 1 },
+                cadence_multiplier: { type: 'number', minimum: 1 },
+            },
+        },
+        artifacts: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                enabled: { type: 'boolean' },
+                limits: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: Object.fromEntries(NUMERIC_VITAL_FIELDS.map((field) => [field, range])),
+                },
+                max_jump: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: Object.fromEntries(NUMERIC_VITAL_FIELDS.map((field) => [field, jumpLimit])),
+                },
+                min_signal_quality: { type: 'number', minimum: 0, maximum: 100 },
+                min_perfusion_index: { type: 'number', minimum: 0 },
+            },
+        },
+        severity_table: {
+            type: 'object',
+            additionalProperties: {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                    severity,
+                    suggested_action: { type: 'string', minLength: 1 },
+                    escalation_tiers: { $ref: '#/$defs/escalationTiers' },
+                },
+            },
+        },
+        combinations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                additionalProperties: false,
+                required: ['severity', 'suggested_action'],
+                properties: {
+                    min_reasons: { type: 'integer', minimum: 1 },
+                    codes: { type: 'array', items: { type: 'string', minLength: 1 } },
+                    severity,
+                    suggested_action: { type: 'string', minLength: 1 },
+                },
+            },
+        },
+        rule_sets: {
+            type: 'object',
+            additionalProperties: { $ref: '#' },
+        },
+        cohorts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                additionalProperties: false,
+                required: ['rule_set'],
+                properties: {
+                    rule_set: { type: 'string', minLength: 1 },
+                    age_min_years: { type: 'number', minimum: 0 },
+                    age_max_years: { type: 'number', minimum: 0 },
+                    care_units: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+                    pregnant: { type: 'boolean' },
+                },
+            },
+        },
+    },
+    $defs: {
+        field: { type: 'string', enum: VITAL_FIELDS },
+        condition: {
+            type: 'object',
+            additionalProperties: false,
+            minProperties: 1,
+            properties: {
+                field: { $ref: '#/$defs/field' },
+                op: { type: 'string', enum: ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'] },
+                value: { type: ['number', 'string', 'boolean'] },
+                between: range,
+                outside: range,
+                rise: change,
+                fall: change,
+                slope: {
+                    type: 'object',
+                    additionalProperties: false,
+                    required: ['window_ms', 'per_ms', 'op', 'value'],
+                    properties: {
+                        window_ms: { type: 'integer', minimum: 1 },
+                        per_ms: { type: 'integer', minimum: 1 },
+                        op: { type: 'string', enum: ['gt', 'gte', 'lt', 'lte'] },
+                        value: { type: 'number' },
+                        min_samples: { type: 'integer', minimum: 2 },
+                    },
+                },
+                all: { type: 'array', minItems: 1, items: { $ref: '#/$defs/condition' } },
+                any: { type: 'array', minItems: 1, items: { $ref: '#/$defs/condition' } },
+                not: { $ref: '#/$defs/condition' },
+            },
+        },
+        escalationTiers: {
+            type: 'array',
+            items: {
+                type: 'object',
+                additionalProperties: false,
+                required: ['when', 'severity'],
+                properties: {
+                    when: { $ref: '#/$defs/condition' },
+                    severity,
+                    suggested_action: { type: 'string', minLength: 1 },
+                },
+            },
+        },
+        rule: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['id', 'code', 'fields', 'condition', 'severity', 'suggested_action'],
+            properties: {
+                id: { type: 'string', minLength: 1 },
+                code: { type: 'string', minLength: 1 },
+                message: { type: 'string' },
+                fields: { type: 'array', minItems: 1, items: { $ref: '#/$defs/field' } },
+                condition: { $ref: '#/$defs/condition' },
+                ...persistence,
+                severity,
+                suggested_action: { type: 'string', minLength: 1 },
+                escalation_tiers: { $ref: '#/$defs/escalationTiers' },
+                resolve: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                        when: { $ref: '#/$defs/condition' },
+                        ...resolveTiming,
+                    },
+                },
+            },
+        },
+    },
+};
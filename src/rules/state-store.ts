@@ -0,0 +1,70 @@
+import type { PatientState } from './types.js';
+
+export interface StateStoreStats {
+    type: 'memory' | 'kv';
+    /** States changed since the last write-behind flush */
+    pending_writes?: number;
+    /** Writes retried because another writer updated the entry first */
+    conflicts?: number;
+    write_failures?: number;
+}
+
+/**
+ * Where the rules engine keeps per-patient state. Reads are served from
+ * memory so evaluation stays synchronous; the engine calls `set` after
+ * changing a state so persistent stores can write it back.
+ */
+export interface PatientStateStore {
+    get(patientId: string): PatientState | undefined;
+    /** Store a new or changed state */
+    set(state: PatientState): void;
+    delete(patientId: string): void;
+    values(): IterableIterator<PatientState>;
+    size(): number;
+    stats(): StateStoreStats;
+    /**
+     * Keep only the states of patients this instance owns. Persistent stores
+     * write released states out before forgetting them and load the states
+     * of newly owned patients.
+     */
+    claim(owns: (patientId: string) => boolean): Promise<void>;
+}
+
+/**
+ * Patient state held in process memory only, lost on restart
+ */
+export class InMemoryStateStore implements PatientStateStore {
+    private states = new Map<string, PatientState>();
+
+    get(patientId: string): PatientState | undefined {
+        return this.states.get(patientId);
+    }
+
+    set(state: PatientState): void {
+        this.states.set(state.patientId, state);
+    }
+
+    delete(patientId: string): void {
+        this.states.delete(patientId);
+    }
+
+    values(): IterableIterator<PatientState> {
+        return this.states.values();
+    }
+
+    size(): number {
+        return this.states.size;
+    }
+
+    stats(): StateStoreStats {
+        return { type: 'memory' };
+    }
+
+    async claim(owns: (patientId: string) => boolean): Promise<void> {
+        for (const patientId of [...this.states.keys()]) {
+            if (!owns(patientId)) {
+                this.states.delete(patientId);
+            }
+        }
+    }
+}
@@ -1,26 +1,544 @@
+/** ACVPU consciousness scale: Alert, new Confusion, Voice, Pain, Unresponsive */
+export type ConsciousnessLevel = 'A' | 'C' | 'V' | 'P' | 'U';
+
 export interface VitalsData {
     patient_id: string;
     heart_rate: number;
     oxygen_saturation: number;
+    respiratory_rate?: number;
+    systolic_bp?: number;
+    diastolic_bp?: number;
+    mean_arterial_pressure?: number;
+    /** Body temperature in °C */
+    temperature?: number;
+    blood_glucose?: number;
+    consciousness?: ConsciousnessLevel;
+    supplemental_oxygen?: boolean;
+    /** Optional patient context used to select a cohort rule set */
+    patient_context?: PatientContext;
+    /** Device-reported signal quality, 0–100 */
+    signal_quality?: number;
+    /** Pulse oximeter perfusion index in % */
+    perfusion_index?: number;
+    /** Reporting device; readings are deduplicated per patient, timestamp and device */
+    device_id?: string;
     timestamp: string;
 }
 
-export interface ThresholdRule {
+export interface PatientContext {
+    age_years?: number;
+    care_unit?: string;
+    pregnant?: boolean;
+}
+
+/**
+ * "M of N" persistence: at least `min_violations` of the last `of_samples`
+ * readings (or all readings when omitted) within `window_ms` are violating
+ */
+export interface PersistWindow {
+    min_violations: number;
+    of_samples?: number;
+    window_ms: number;
+}
+
+/**
+ * How long a violation must persist before a rule fires. Use one mode:
+ * consecutive samples (default 1), a duration measured on reading
+ * timestamps, or an M-of-N window.
+ */
+export interface Persistence {
+    persist_samples?: number;
+    persist_duration_ms?: number;
+    persist_window?: PersistWindow;
+}
+
+export interface ThresholdRule extends Persistence {
     high_threshold?: number;
     low_threshold?: number;
-    persist_samples?: number;
+    /** Distance back inside the threshold a reading must be to count towards resolving an alert */
+    hysteresis?: number;
+}
+
+export interface News2Config {
+    enabled?: boolean;
+    /** SpO2 scoring scale: 1 (default) or 2 for prescribed 88–92% targets */
+    spo2_scale?: 1 | 2;
+    /** Aggregate score at or above which an alert is raised (default 5) */
+    min_alert_score?: number;
+    /** Raise an alert when any single parameter scores 3 (default true) */
+    alert_on_red_parameter?: boolean;
+    /** Suggested action per NEWS2 severity, replacing the RCP clinical response texts */
+    actions?: Partial<Record<Severity, string>>;
+}
+
+export type Severity = 'low' | 'medium' | 'high';
+
+/** Vitals fields a declarative rule can read */
+export type VitalField = Exclude<
+    keyof VitalsData,
+    'patient_id' | 'timestamp' | 'patient_context' | 'signal_quality' | 'perfusion_index' | 'device_id'
+>;
+
+/** Vitals fields with numeric readings */
+export type NumericVitalField = Exclude<VitalField, 'consciousness' | 'supplemental_oxygen'>;
+
+export type ComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
+
+/** Change of a vital relative to the lowest/highest reading within a window */
+export interface ChangeCondition {
+    within_ms: number;
+    value: number;
+}
+
+/**
+ * Least-squares slope of a vital over a window, expressed per `per_ms`
+ * (e.g. 600000 for "per 10 minutes") and compared with `op`/`value`
+ */
+export interface SlopeCondition {
+    window_ms: number;
+    per_ms: number;
+    op: ComparisonOperator;
+    value: number;
+    /** Readings required in the window before the slope is trusted (default 3) */
+    min_samples?: number;
+}
+
+/**
+ * Rule condition tree. Ranges are inclusive; numeric comparisons against
+ * `consciousness` use the ACVPU index (A=0 … U=4). Trend conditions (`rise`,
+ * `fall`, `slope`) use the patient's reading history ordered by reading timestamp.
+ */
+export type RuleCondition =
+    | { field: VitalField; op: ComparisonOperator; value: number | string | boolean }
+    | { field: VitalField; between: [number, number] }
+    | { field: VitalField; outside: [number, number] }
+    | { field: VitalField; rise: ChangeCondition }
+    | { field: VitalField; fall: ChangeCondition }
+    | { field: VitalField; slope: SlopeCondition }
+    | { all: RuleCondition[] }
+    | { any: RuleCondition[] }
+    | { not: RuleCondition };
+
+export interface EscalationTier {
+    when: RuleCondition;
+    severity: Severity;
+    suggested_action?: string;
+}
+
+export interface RuleDefinition extends Persistence {
+    id: string;
+    /** Reason code reported when the rule fires */
+    code: string;
+    /** Reason message; `{field}` placeholders are replaced with reading values */
+    message?: string;
+    /** Vitals the rule reads; the rule is skipped when any is absent */
+    fields: VitalField[];
+    condition: RuleCondition;
+    severity: Severity;
+    suggested_action: string;
+    /** Value-dependent tiers; the most severe matching tier overrides the base severity */
+    escalation_tiers?: EscalationTier[];
+    resolve?: ResolvePolicy;
+}
+
+/**
+ * When an open alert episode for a reason is resolved. Readings count
+ * towards resolution while `when` holds, or while the rule condition does
+ * not hold if `when` is unset. Use one of samples or duration_ms.
+ */
+export interface ResolvePolicy {
+    /** Hysteresis band, e.g. SpO2 above 92 for a rule firing below 90 */
+    when?: RuleCondition;
+    /** Consecutive in-range readings required (default 1) */
+    samples?: number;
+    /** Reading time the vital must stay in range */
+    duration_ms?: number;
+}
+
+/**
+ * Overrides severity and action when several rules fire together.
+ * Matches when at least `min_reasons` fired and all `codes` are present.
+ */
+export interface ReasonSeverity {
+    severity?: Severity;
+    suggested_action?: string;
+    /** Replaces the rule's escalation tiers */
+    escalation_tiers?: EscalationTier[];
+}
+
+export interface CombinationRule {
+    min_reasons?: number;
+    codes?: string[];
+    severity: Severity;
+    suggested_action: string;
 }
 
+/**
+ * Consciousness thresholds compare ACVPU levels by index (A=0 … U=4),
+ * so `high_threshold: 0` flags anything other than Alert.
+ */
 export interface RulesConfig {
     heart_rate?: ThresholdRule;
     spo2?: ThresholdRule;
+    respiratory_rate?: ThresholdRule;
+    systolic_bp?: ThresholdRule;
+    diastolic_bp?: ThresholdRule;
+    mean_arterial_pressure?: ThresholdRule;
+    temperature?: ThresholdRule;
+    blood_glucose?: ThresholdRule;
+    consciousness?: ThresholdRule;
+    news2?: News2Config;
+    rules?: RuleDefinition[];
+    combinations?: CombinationRule[];
+    history?: HistoryConfig;
+    alerting?: AlertingConfig;
+    /** Flag deviations from each patient's own learnt baseline */
+    anomaly?: AnomalyConfig;
+    /** Detect devices that stop reporting */
+    signal_loss?: SignalLossConfig;
+    /** Plausibility checks that reject sensor artifacts before evaluation */
+    artifacts?: ArtifactConfig;
+    /** How a loaded risk model's output combines with the rules */
+    model?: ModelConfig;
+    /** Severity, action and value tiers per reason code, overriding the rules that produce it */
+    severity_table?: Record<string, ReasonSeverity>;
+    /** Named cohort rule sets, each merged over the top-level rules */
+    rule_sets?: Record<string, RulesConfig>;
+    /** Ordered cohort selection policy; the first matching entry wins */
+    cohorts?: CohortSelector[];
 }
 
-export type Severity = 'low' | 'medium' | 'high';
+/**
+ * How a risk model's severity combines with the rules: ignore the model,
+ * use only the model, take the more severe of the two, or band a blend of
+ * the model score and the rules severity
+ */
+export type CompositionStrategy = 'rules_only' | 'model_only' | 'max_severity' | 'weighted';
+
+export interface ModelConfig {
+    /** Defaults to max_severity */
+    strategy?: CompositionStrategy;
+    /** Share of the model score in the weighted blend (default 0.5) */
+    weight?: number;
+    /** Suggested action per model severity, replacing the built-in texts */
+    actions?: Partial<Record<Severity, string>>;
+}
+
+export interface AnomalyConfig {
+    /** Defaults to true when the section is present */
+    enabled?: boolean;
+    /** Vitals to learn baselines for (default heart_rate, oxygen_saturation) */
+    fields?: NumericVitalField[];
+    /** Readings used to learn a baseline before deviations are flagged (default 20) */
+    warmup_samples?: number;
+    /** Deviation, in standard deviations, that counts as anomalous (default 3) */
+    k?: number;
+    /** EWMA weight of each normal reading once the baseline is learnt (default 0.05) */
+    alpha?: number;
+    /** Floor on the baseline standard deviation per field */
+    min_std?: Partial<Record<NumericVitalField, number>>;
+    /** Consecutive anomalous readings required to fire (default 1) */
+    persist_samples?: number;
+    /** Defaults to low; a severity_table entry for the reason code takes precedence */
+    severity?: Severity;
+    suggested_action?: string;
+}
+
+/**
+ * Running mean and variance of one vital for one patient
+ */
+export interface VitalBaseline {
+    samples: number;
+    mean: number;
+    variance: number;
+    /** Consecutive readings beyond k standard deviations */
+    streak: number;
+}
+
+/**
+ * A patient's baseline for one vital, as exposed by the API
+ */
+export interface BaselineSummary {
+    field: NumericVitalField;
+    samples: number;
+    /** Deviations are only flagged once the warm-up is complete */
+    learnt: boolean;
+    mean: number;
+    std: number;
+    streak: number;
+}
+
+export interface SignalLossConfig {
+    /** Defaults to true when the section is present */
+    enabled?: boolean;
+    /** Silence after which the signal is lost; also the floor once a cadence is learnt */
+    after_ms: number;
+    /** Multiple of the learnt reporting interval that counts as silence (default 3) */
+    cadence_multiplier?: number;
+}
+
+/**
+ * Reporting cadence of a patient's device
+ */
+export interface DeviceSignal {
+    /** Wall-clock arrival of the last evaluated reading */
+    lastSeenAt: number;
+    /** Reading timestamp of the last evaluated reading */
+    lastReadingAt: number;
+    /** Smoothed interval between reading timestamps */
+    intervalMs?: number;
+    /** Set once device.signal.lost is published */
+    lost?: { eventId: string; at: number };
+}
+
+/**
+ * A device silent for longer than its threshold, not yet reported
+ */
+export interface SignalLoss {
+    patientId: string;
+    lastSeenAt: number;
+    lastReadingAt: number;
+    silentMs: number;
+    thresholdMs: number;
+    expectedIntervalMs?: number;
+}
+
+/**
+ * First reading after a reported signal loss
+ */
+export interface SignalRecovery {
+    /** event_id of the device.signal.lost event */
+    lostEventId: string;
+    lostAt: number;
+    lastSeenAt: number;
+    recoveredAt: number;
+}
+
+/**
+ * What one engine decided for a reading: drop it as an artifact, raise an
+ * alert, or neither
+ */
+export interface TriageDecision {
+    artifact: boolean;
+    alert: boolean;
+    severity?: Severity;
+    reasonCodes: string[];
+    rulesVersion?: string;
+    /** Risk model score, when a model is loaded */
+    riskScore?: number;
+}
+
+/**
+ * How the shadow engine's decision differs from the live engine's
+ */
+export type ShadowDiffKind = 'only_live' | 'only_shadow' | 'severity';
+
+export interface ShadowDiff {
+    kind: ShadowDiffKind;
+    patientId: string;
+    /** Reading time in epoch ms */
+    at: number;
+    live: TriageDecision;
+    shadow: TriageDecision;
+}
+
+/**
+ * Largest plausible change between a reading and the previous accepted
+ * reading, when that reading is at most `within_ms` older
+ */
+export interface JumpLimit {
+    value: number;
+    within_ms: number;
+}
+
+export interface ArtifactConfig {
+    /** Defaults to true when the section is present */
+    enabled?: boolean;
+    /** Physiologically plausible [min, max] per field */
+    limits?: Partial<Record<NumericVitalField, [number, number]>>;
+    max_jump?: Partial<Record<NumericVitalField, JumpLimit>>;
+    /** Reject readings whose device-reported signal quality is below this */
+    min_signal_quality?: number;
+    /** Reject readings whose perfusion index is below this */
+    min_perfusion_index?: number;
+}
+
+export type ArtifactCode = 'IMPLAUSIBLE_VALUE' | 'IMPLAUSIBLE_JUMP' | 'LOW_SIGNAL_QUALITY' | 'LOW_PERFUSION';
+
+export interface ArtifactReason {
+    code: ArtifactCode;
+    /** Vitals field, or signal_quality / perfusion_index */
+    field: string;
+    value: number;
+    message: string;
+}
+
+/**
+ * How a reading compares with those already admitted for the patient:
+ * `late` readings are older than the newest one, `expired` ones older
+ * than the dedup window, and `future` ones further ahead of the clock
+ * than the allowed skew
+ */
+export type ReadingAdmission = 'new' | 'duplicate' | 'late' | 'expired' | 'future';
+
+export interface ReadingLimits {
+    /** How far back duplicate readings are recognized */
+    dedupWindowMs?: number;
+    /** How far past the current time a reading timestamp may be */
+    maxClockSkewMs?: number;
+}
+
+export interface EvaluateOptions {
+    /** Evaluate against a copy of the patient's state, leaving it unchanged */
+    readOnly?: boolean;
+}
+
+export interface ArtifactCheck {
+    artifact: boolean;
+    reasons: ArtifactReason[];
+}
+
+/**
+ * Selects a named rule set when every criterion given matches the patient
+ * context. A criterion whose context field is unknown does not match.
+ */
+export interface CohortSelector {
+    rule_set: string;
+    /** Inclusive lower age bound in years */
+    age_min_years?: number;
+    /** Exclusive upper age bound in years */
+    age_max_years?: number;
+    care_units?: string[];
+    pregnant?: boolean;
+}
+
+/**
+ * Suppression, escalation and resolution of alerts. Cooldowns are tracked
+ * per patient and reason code and measured in reading time.
+ */
+export interface AlertingConfig {
+    /** Suppress a reason for this long after it was alerted (default 0: never suppress) */
+    cooldown_ms?: number;
+    /** Per reason code cooldowns, overriding cooldown_ms */
+    reason_cooldown_ms?: Record<string, number>;
+    /** Publish an escalation when an open episode's severity increases (default true) */
+    realert_on_escalation?: boolean;
+    unacknowledged_escalation?: UnacknowledgedEscalation;
+    /** Default resolution policy for rules without their own */
+    resolve?: Omit<ResolvePolicy, 'when'>;
+}
+
+/**
+ * Escalate an episode that has stayed at or above a severity for too long
+ * without being acknowledged. Each episode escalates this way once.
+ */
+export interface UnacknowledgedEscalation {
+    /** Reading time at the severity before escalating */
+    after_ms: number;
+    /** Lowest episode severity that escalates (default high) */
+    min_severity?: Severity;
+    suggested_action: string;
+}
+
+export interface HistoryConfig {
+    /** Upper bound on readings kept per patient for trend rules (default 500) */
+    max_samples?: number;
+}
+
+export type ThresholdVital =
+    | 'heart_rate'
+    | 'spo2'
+    | 'respiratory_rate'
+    | 'systolic_bp'
+    | 'diastolic_bp'
+    | 'mean_arterial_pressure'
+    | 'temperature'
+    | 'blood_glucose'
+    | 'consciousness';
+
+
+export type News2Parameter =
+    | 'respiratory_rate'
+    | 'spo2'
+    | 'supplemental_oxygen'
+    | 'systolic_bp'
+    | 'pulse'
+    | 'consciousness'
+    | 'temperature';
+
+export interface News2Score {
+    total: number;
+    sub_scores: Partial<Record<News2Parameter, number>>;
+    missing_parameters: News2Parameter[];
+    red_parameters: News2Parameter[];
+    spo2_scale: 1 | 2;
+    complete: boolean;
+    severity?: Severity;
+}
 
 export interface AlertReason {
     code: string;
     message: string;
+    evidence?: ReasonEvidence;
+}
+
+/** Vitals values read by a rule, keyed by field */
+export type EvidenceValues = Partial<Record<VitalField, number | string | boolean>>;
+
+export interface EvidenceReading {
+    timestamp: string;
+    values: EvidenceValues;
+}
+
+/**
+ * Structured account of why a reason was raised, published with it
+ */
+export interface ReasonEvidence {
+    source: 'rule' | 'anomaly' | 'news2' | 'model';
+    rule_id?: string;
+    /** Values on the reading that raised the reason */
+    observed: EvidenceValues;
+    /** Threshold or range crossed, for single-field conditions; the minimum score for NEWS2 and models */
+    threshold?: number | string | boolean | [number, number];
+    /** NEWS2 total or model score */
+    score?: number;
+    /** Learnt baseline the reading deviated from */
+    baseline?: { mean: number; std: number };
+    /** Violating readings that satisfied persistence, oldest first */
+    readings?: EvidenceReading[];
+    severity: Severity;
+    /** Escalation tier condition that raised the severity above the rule's own */
+    escalated_by?: RuleCondition;
+}
+
+/**
+ * What set an alert's severity: the most severe reason's source, a
+ * combination, or the weighted blend of rules and risk model
+ */
+export interface SeverityBasis {
+    decided_by: ReasonEvidence['source'] | 'combination' | 'weighted';
+    /** Reasons whose severity, or combination, was adopted */
+    codes: string[];
+    /** Blended score, for the weighted strategy */
+    score?: number;
+}
+
+export interface AlertEvidence {
+    rules_version?: string;
+    severity: SeverityBasis;
+}
+
+/**
+ * Which rules produced a decision, carried on alerts as `effective_rules`
+ */
+export interface EffectiveRules {
+    source: 'global' | 'patient_override';
+    rules_version?: string;
+    /** Cohort rule set applied, or "default" for the top-level rules */
+    cohort: string;
+    /** Patient-specific settings merged over the global rules */
+    overrides?: RulesConfig;
+    overrides_updated_at?: string;
 }
 
 export interface AlertResult {
@@ -28,14 +546,199 @@ export interface AlertResult {
     severity?: Severity;
     reasons?: AlertReason[];
     suggestedAction?: string;
+    news2?: News2Score;
+    /** Version of the rules file that produced this result */
+    rulesVersion?: string;
+    effectiveRules?: EffectiveRules;
+    /** Alert conditions were met but every reason is within its cooldown */
+    suppressed?: boolean;
+    /** Open alert episodes that this reading resolved */
+    resolved?: AlertResolution[];
+    /** Open alert episodes that this reading escalated */
+    escalations?: AlertEscalation[];
+    /** The reading ended a reported signal loss */
+    signalRecovered?: SignalRecovery;
+    /** Risk model output for the reading, whether or not it raised the alert */
+    risk?: RiskAssessment;
+    evidence?: AlertEvidence;
+}
+
+/**
+ * Share of one model input in the risk score, in log-odds
+ */
+export interface RiskContribution {
+    feature: string;
+    /** Value the model read, after imputing a missing reading */
+    value: number | null;
+    contribution: number;
+}
+
+export interface RiskAssessment {
+    model: string;
+    version: string;
+    /** Probability of deterioration, 0 to 1 */
+    score: number;
+    strategy?: CompositionStrategy;
+    /** Contributions ordered by magnitude, largest first */
+    explanation: RiskContribution[];
+}
+
+/**
+ * Escalation of the open episodes opened by one patient.alert.raised event
+ */
+export interface AlertEscalation {
+    alertEventId: string;
+    codes: string[];
+    previousSeverity: Severity;
+    severity: Severity;
+    trigger: 'severity_increase' | 'unacknowledged';
+    suggestedAction: string;
+    /** Reading times in epoch ms */
+    raisedAt: number;
+    escalatedAt: number;
+}
+
+export interface AlertResolution {
+    code: string;
+    /** event_id of the patient.alert.raised that opened the episode */
+    alertEventId: string;
+    /** Highest severity alerted during the episode */
+    severity: Severity;
+    /** Reading times in epoch ms */
+    raisedAt: number;
+    resolvedAt: number;
+}
+
+/**
+ * A reading already admitted, for duplicate detection
+ */
+export interface SeenReading {
+    /** Reading timestamp in epoch milliseconds */
+    at: number;
+    device?: string;
+}
+
+/**
+ * The parts of a patient's state that handling a reading changes, as they
+ * were before the reading, restored if handling is retried; no state if
+ * the patient was not tracked yet. Acknowledgements, signal losses and
+ * published events recorded in the meantime are not part of it.
+ */
+export interface PatientSnapshot {
+    patientId: string;
+    state?: ReadingState;
+}
+
+export type ReadingState = Pick<
+    PatientState,
+    'violations' | 'history' | 'baselines' | 'lastAccepted' | 'lastRejected' | 'latestReadingAt' | 'seenReadings'
+> & {
+    /** Recovery progress of the open episodes, keyed by reason code */
+    recovery: Record<string, Pick<AlertEpisode, 'alertEventId' | 'recoveredSamples' | 'recoveredSince'>>;
+};
+
+export interface VitalsSample {
+    /** Reading timestamp in epoch milliseconds */
+    at: number;
+    vitals: VitalsData;
+}
+
+export interface ViolationTrack {
+    /** Consecutive violating readings */
+    count: number;
+    /** Reading timestamp (epoch ms) at which the current violating streak began */
+    firstViolationAt?: number;
+    /** Recent outcomes for M-of-N persistence, oldest first */
+    recent?: Array<{ at: number; violating: boolean }>;
+    /** Violating readings counting towards persistence, oldest first and bounded */
+    readings?: Array<{ at: number; values: EvidenceValues }>;
 }
 
 export interface PatientState {
     patientId: string;
-    violations: {
-        heart_rate_high?: number;
-        heart_rate_low?: number;
-        spo2_low?: number;
-    };
+    /** Violation tracking keyed by rule id */
+    violations: Record<string, ViolationTrack>;
+    /** Recent readings ordered by reading timestamp, bounded for trend rules */
+    history: VitalsSample[];
+    /** Last published alert keyed by reason code, for cooldowns */
+    alerted: Record<string, AlertedReason>;
+    /** Open alert episodes keyed by reason code */
+    episodes: Record<string, AlertEpisode>;
+    /** Clinician acknowledgements of open episodes keyed by reason code */
+    acknowledgements: Record<string, Acknowledgement>;
+    /** Learnt baselines for anomaly detection, keyed by vitals field */
+    baselines: Partial<Record<NumericVitalField, VitalBaseline>>;
+    /** Reporting cadence, for signal loss detection */
+    signal?: DeviceSignal;
+    /** Last reading that passed the artifact filter, for jump checks */
+    lastAccepted?: VitalsSample;
+    /** Last reading rejected as an artifact; a jump it confirms is accepted */
+    lastRejected?: VitalsSample;
+    /** Newest reading timestamp admitted, for late reading detection */
+    latestReadingAt?: number;
+    /** Readings admitted within the dedup window */
+    seenReadings?: SeenReading[];
     lastUpdated: number;
 }
+
+/**
+ * Payload of `patient.alert.acknowledged` and `patient.alert.snoozed`
+ */
+export interface AcknowledgementRecord {
+    patient_id: string;
+    /** Acknowledge the episodes opened by this alert */
+    alert_event_id?: string;
+    /** Acknowledge these reasons; all open episodes if neither this nor alert_event_id is set */
+    reason_codes?: string[];
+    acknowledged_by?: string;
+    /** ISO-8601, defaults to arrival time */
+    acknowledged_at?: string;
+    /** Snooze duration, required on `patient.alert.snoozed` */
+    snooze_ms?: number;
+}
+
+export interface Acknowledgement {
+    type: 'acknowledged' | 'snoozed';
+    alertEventId: string;
+    /** Episode severity when acknowledged; a higher severity lifts the acknowledgement */
+    severity: Severity;
+    /** Epoch ms */
+    at: number;
+    /** Snooze expiry in epoch ms */
+    until?: number;
+    by?: string;
+}
+
+/**
+ * Active acknowledgement as listed by the HTTP API
+ */
+export interface AcknowledgementSummary {
+    patient_id: string;
+    reason_code: string;
+    alert_event_id: string;
+    type: Acknowledgement['type'];
+    severity: Severity;
+    acknowledged_at: string;
+    acknowledged_by?: string;
+    snoozed_until?: string;
+}
+
+export interface AlertEpisode {
+    alertEventId: string;
+    /** Reading time of the alert that opened the episode */
+    raisedAt: number;
+    severity: Severity;
+    /** Reading time the episode reached its current severity */
+    severitySince: number;
+    /** Reading time the episode was escalated for going unacknowledged */
+    unacknowledgedEscalatedAt?: number;
+    /** In-range readings since the reason last fired */
+    recoveredSamples: number;
+    recoveredSince?: number;
+}
+
+export interface AlertedReason {
+    /** Reading time of the alert in epoch ms */
+    at: number;
+    severity: Severity;
+}
@@ -0,0 +1,318 @@
+import { SchemaValidator } from '../contracts/schema-validator.js';
+import type { ValidationIssue } from '../contracts/schema-validator.js';
+import { compileRules, mergeRules, thresholdBlocksToRules } from './compiler.js';
+import { VITAL_DEFINITIONS } from './vitals.js';
+import { cohortRuleSets, DEFAULT_COHORT } from './cohorts.js';
+import type { Persistence, ResolvePolicy, RuleCondition, RulesConfig, VitalField } from './types.js';
+
+const CONDITION_KINDS = ['op', 'between', 'outside', 'rise', 'fall', 'slope', 'all', 'any', 'not'] as const;
+
+/**
+ * Thrown when a rules file fails schema or semantic validation
+ */
+export class RulesValidationError extends Error {
+    constructor(public readonly issues: ValidationIssue[]) {
+        super(`Rules file is invalid:\n${formatIssues(issues)}`);
+        this.name = 'RulesValidationError';
+    }
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Check a condition tree's shape and collect the fields it reads
+ */
+function checkCondition(
+    condition: RuleCondition,
+    path: string,
+    issues: ValidationIssue[],
+    fields: Set<VitalField>,
+): void {
+    const node = condition as Record<string, unknown>;
+    const kinds = CONDITION_KINDS.filter((kind) => kind in node);
+
+    if (kinds.length !== 1) {
+        issues.push({
+            path,
+            message: `must have exactly one of ${CONDITION_KINDS.join(', ')} (found ${kinds.join(', ') || 'none'})`,
+        });
+        return;
+    }
+
+    const kind = kinds[0];
+
+    if (kind === 'all' || kind === 'any' || kind === 'not') {
+        if ('field' in node || 'value' in node) {
+            issues.push({ path, message: `"${kind}" cannot be combined with field or value` });
+        }
+        const children = kind === 'not' ? [node.not as RuleCondition] : (node[kind] as RuleCondition[]);
+        children.forEach((child, i) =>
+            checkCondition(child, kind === 'not' ? `${path}.not` : `${path}.${kind}[${i}]`, issues, fields),
+        );
+        return;
+    }
+
+    if (!('field' in node)) {
+        issues.push({ path: `${path}.field`, message: `is required with "${kind}"` });
+    } else {
+        fields.add(node.field as VitalField);
+    }
+
+    if (kind === 'op' && !('value' in node)) {
+        issues.push({ path: `${path}.value`, message: 'is required with "op"' });
+    }
+    if (kind !== 'op' && 'value' in node) {
+        issues.push({ path: `${path}.value`, message: `cannot be combined with "${kind}"` });
+    }
+    if (kind === 'between' || kind === 'outside') {
+        const [min, max] = node[kind] as [number, number];
+        if (min > max) {
+            issues.push({ path: `${path}.${kind}`, message: `lower bound ${min} must not exceed upper bound ${max}` });
+        }
+    }
+}
+
+/**
+ * A rule or threshold block may use only one persistence mode
+ */
+function checkPersistence(persistence: Persistence, path: string, issues: ValidationIssue[]): void {
+    const modes = (['persist_samples', 'persist_duration_ms', 'persist_window'] as const)
+        .filter((mode) => persistence[mode] !== undefined);
+
+    if (modes.length > 1) {
+        issues.push({ path, message: `use only one of ${modes.join(', ')}` });
+    }
+
+    const window = persistence.persist_window;
+    if (window?.of_samples !== undefined && window.min_violations > window.of_samples) {
+        issues.push({
+            path: `${path}.persist_window`,
+            message: `min_violations ${window.min_violations} exceeds of_samples ${window.of_samples}`,
+        });
+    }
+}
+
+/**
+ * A resolve policy counts either samples or duration
+ */
+function checkResolve(policy: ResolvePolicy, path: string, issues: ValidationIssue[]): void {
+    if (policy.samples !== undefined && policy.duration_ms !== undefined) {
+        issues.push({ path, message: 'use only one of samples, duration_ms' });
+    }
+}
+
+/**
+ * Cross-field checks that JSON Schema cannot express
+ */
+function checkSemantics(config: RulesConfig, root = '$'): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const vital of VITAL_DEFINITIONS) {
+        const block = config[vital.rule];
+        if (block) {
+            checkPersistence(block, `${root}.${vital.rule}`, issues);
+        }
+        if (block?.low_threshold !== undefined && block.high_threshold !== undefined
+            && block.low_threshold >= block.high_threshold) {
+            issues.push({
+                path: `${root}.${vital.rule}`,
+                message: `low_threshold ${block.low_threshold} must be below high_threshold ${block.high_threshold}`,
+            });
+        }
+    }
+
+    const thresholdRules = thresholdBlocksToRules(config);
+    const ids = new Set(thresholdRules.map((rule) => rule.id));
+
+    (config.rules ?? []).forEach((rule, i) => {
+        const path = `${root}.rules[${i}]`;
+
+        if (ids.has(rule.id)) {
+            issues.push({ path: `${path}.id`, message: `duplicate rule id "${rule.id}"` });
+        }
+        ids.add(rule.id);
+        checkPersistence(rule, path, issues);
+
+        const read = new Set<VitalField>();
+        checkCondition(rule.condition, `${path}.condition`, issues, read);
+        (rule.escalation_tiers ?? []).forEach((tier, t) =>
+            checkCondition(tier.when, `${path}.escalation_tiers[${t}].when`, issues, read),
+        );
+        if (rule.resolve) {
+            checkResolve(rule.resolve, `${path}.resolve`, issues);
+            if (rule.resolve.when) {
+                checkCondition(rule.resolve.when, `${path}.resolve.when`, issues, read);
+            }
+        }
+
+        for (const field of read) {
+            if (!rule.fields.includes(field)) {
+                issues.push({ path: `${path}.fields`, message: `condition reads "${field}" which is not listed` });
+            }
+        }
+    });
+
+    // Table tiers replace the tiers of every rule with the code, so they may
+    // only read fields all of those rules list
+    const definitions = [...thresholdRules, ...(config.rules ?? [])];
+    for (const [code, entry] of Object.entries(config.severity_table ?? {})) {
+        const path = `${root}.severity_table.${code}`;
+        const read = new Set<VitalField>();
+        (entry.escalation_tiers ?? []).forEach((tier, t) =>
+            checkCondition(tier.when, `${path}.escalation_tiers[${t}].when`, issues, read),
+        );
+
+        for (const rule of definitions.filter((definition) => definition.code === code)) {
+            for (const field of read) {
+                if (!rule.fields.includes(field)) {
+                    issues.push({
+                        path: `${path}.escalation_tiers`,
+                        message: `tiers read "${field}" which rule "${rule.id}" does not list`,
+                    });
+                }
+            }
+        }
+    }
+
+    for (const [field, range] of Object.entries(config.artifacts?.limits ?? {})) {
+        if (range[0] > range[1]) {
+            issues.push({
+                path: `${root}.artifacts.limits.${field}`,
+                message: `lower bound ${range[0]} must not exceed upper bound ${range[1]}`,
+            });
+        }
+    }
+
+    if (config.alerting?.resolve) {
+        checkResolve(config.alerting.resolve, `${root}.alerting.resolve`, issues);
+    }
+
+    (config.combinations ?? []).forEach((combination, i) => {
+        if (combination.min_reasons === undefined && !combination.codes?.length) {
+            issues.push({ path: `${root}.combinations[${i}]`, message: 'must set min_reasons or codes' });
+        }
+    });
+
+    return issues;
+}
+
+const issueKey = (issue: ValidationIssue) => `${issue.path} ${issue.message}`;
+
+/**
+ * Cohort rule sets cannot nest, and are checked merged over the top-level
+ * rules as the engine runs them; problems the top-level rules have on
+ * their own are reported once, for the top level. Every selector must name
+ * a defined rule set.
+ */
+function checkCohorts(config: RulesConfig, root: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { rule_sets: ruleSets = {}, cohorts: _selection, ...base } = config;
+    const baseIssues = new Set(checkSemantics(base, '').map(issueKey));
+
+    for (const [name, ruleSet] of Object.entries(ruleSets)) {
+        const path = `${root}.rule_sets.${name}`;
+
+        if (name === DEFAULT_COHORT) {
+            issues.push({ path, message: `"${DEFAULT_COHORT}" is reserved for the top-level rules` });
+        }
+        for (const key of ['rule_sets', 'cohorts'] as const) {
+            if (ruleSet[key] !== undefined) {
+                issues.push({ path: `${path}.${key}`, message: 'is not allowed inside a rule set' });
+            }
+        }
+
+        const { rule_sets: _nested, cohorts: _nestedSelection, ...own } = ruleSet;
+        const merged = mergeRules(base, own);
+        for (const issue of checkSemantics(merged, '')) {
+            if (!baseIssues.has(issueKey(issue))) {
+                issues.push(locateMergedIssue(issue, merged, own, base, root, name));
+            }
+        }
+    }
+
+    (config.cohorts ?? []).forEach((selector, i) => {
+        const path = `${root}.cohorts[${i}]`;
+
+        if (!(selector.rule_set in ruleSets)) {
+            issues.push({ path: `${path}.rule_set`, message: `unknown rule set "${selector.rule_set}"` });
+        }
+        if (Object.keys(selector).length === 1) {
+            issues.push({ path, message: 'must set at least one selection criterion' });
+        }
+        if (selector.age_min_years !== undefined && selector.age_max_years !== undefined
+            && selector.age_min_years >= selector.age_max_years) {
+            issues.push({
+                path,
+                message: `age_min_years ${selector.age_min_years} must be below age_max_years ${selector.age_max_years}`,
+            });
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Point an issue found in a merged rule set at the rule it concerns, in
+ * the rule set or, for a top-level rule, at the top level
+ */
+function locateMergedIssue(
+    issue: ValidationIssue,
+    merged: RulesConfig,
+    ruleSet: RulesConfig,
+    base: RulesConfig,
+    root: string,
+    name: string,
+): ValidationIssue {
+    const path = `${root}.rule_sets.${name}`;
+    const index = issue.path.match(/^\.rules\[(\d+)\]/);
+    if (!index) {
+        return { path: `${path}${issue.path}`, message: issue.message };
+    }
+
+    const id = merged.rules![Number(index[1])].id;
+    const rest = issue.path.slice(index[0].length);
+    const own = (ruleSet.rules ?? []).findIndex((rule) => rule.id === id);
+    if (own >= 0) {
+        return { path: `${path}.rules[${own}]${rest}`, message: issue.message };
+    }
+
+    const inherited = (base.rules ?? []).findIndex((rule) => rule.id === id);
+    return { path: `${root}.rules[${inherited}]${rest}`, message: `${issue.message} (in rule set "${name}")` };
+}
+
+/**
+ * Compile every cohort's rules the way the engine does, so a file that
+ * passes validation also loads
+ */
+function checkCompiles(config: RulesConfig): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const [name, ruleSet] of cohortRuleSets(config)) {
+        try {
+            compileRules(ruleSet);
+        } catch (err) {
+            issues.push({
+                path: name === DEFAULT_COHORT ? '$' : `$.rule_sets.${name}`,
+                message: err instanceof Error ? err.message : String(err),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validate a parsed rules file, returning every problem found
+ */
+export function validateRules(config: unknown, validator: SchemaValidator): ValidationIssue[] {
+    const result = validator.validateRulesConfig(config);
+
+    if (!result.valid) {
+        return result.issues ?? [{ path: '$', message: result.errors ?? 'invalid' }];
+    }
+
+    const issues = [...checkSemantics(config as RulesConfig), ...checkCohorts(config as RulesConfig, '$')];
+    return issues.length > 0 ? issues : checkCompiles(config as RulesConfig);
+}
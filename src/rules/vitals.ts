@@ -0,0 +1,91 @@
+import type { ConsciousnessLevel, NumericVitalField, ThresholdVital, VitalField, VitalsData } from './types.js';
+
+/** ACVPU levels in order of increasing impairment */
+export const ACVPU_LEVELS: ConsciousnessLevel[] = ['A', 'C', 'V', 'P', 'U'];
+
+export interface VitalDefinition {
+    /** Key of the threshold block in RulesConfig */
+    rule: ThresholdVital;
+    /** Field read from VitalsData */
+    field: VitalField;
+    /** Prefix for reason codes, e.g. HEART_RATE -> HEART_RATE_HIGH */
+    codePrefix: string;
+    label: string;
+    unit: string;
+    /** Reason code overrides where _HIGH/_LOW reads poorly */
+    highCode?: string;
+    lowCode?: string;
+    /** Convert a non-numeric reading to a comparable number */
+    toNumber?: (value: unknown) => number;
+    /** Convert a numeric threshold back to its display form */
+    formatThreshold?: (threshold: number) => string;
+}
+
+/**
+ * Vitals that support ThresholdRule checks, in evaluation order
+ */
+export const VITAL_DEFINITIONS: VitalDefinition[] = [
+    { rule: 'heart_rate', field: 'heart_rate', codePrefix: 'HEART_RATE', label: 'Heart rate', unit: '' },
+    { rule: 'spo2', field: 'oxygen_saturation', codePrefix: 'SPO2', label: 'SpO2', unit: '%' },
+    {
+        rule: 'respiratory_rate',
+        field: 'respiratory_rate',
+        codePrefix: 'RESPIRATORY_RATE',
+        label: 'Respiratory rate',
+        unit: '/min',
+    },
+    { rule: 'systolic_bp', field: 'systolic_bp', codePrefix: 'SYSTOLIC_BP', label: 'Systolic BP', unit: ' mmHg' },
+    { rule: 'diastolic_bp', field: 'diastolic_bp', codePrefix: 'DIASTOLIC_BP', label: 'Diastolic BP', unit: ' mmHg' },
+    {
+        rule: 'mean_arterial_pressure',
+        field: 'mean_arterial_pressure',
+        codePrefix: 'MEAN_ARTERIAL_PRESSURE',
+        label: 'Mean arterial pressure',
+        unit: ' mmHg',
+    },
+    { rule: 'temperature', field: 'temperature', codePrefix: 'TEMPERATURE', label: 'Temperature', unit: '°C' },
+    { rule: 'blood_glucose', field: 'blood_glucose', codePrefix: 'BLOOD_GLUCOSE', label: 'Blood glucose', unit: '' },
+    {
+        rule: 'consciousness',
+        field: 'consciousness',
+        codePrefix: 'CONSCIOUSNESS',
+        label: 'Consciousness level',
+        unit: '',
+        highCode: 'CONSCIOUSNESS_ALTERED',
+        toNumber: (value) => ACVPU_LEVELS.indexOf(value as ConsciousnessLevel),
+        formatThreshold: (threshold) => ACVPU_LEVELS[threshold] ?? String(threshold),
+    },
+];
+
+/**
+ * Optional vitals copied into alert snapshots when present on the reading
+ */
+export const OPTIONAL_VITAL_FIELDS = [
+    'respiratory_rate',
+    'systolic_bp',
+    'diastolic_bp',
+    'mean_arterial_pressure',
+    'temperature',
+    'blood_glucose',
+    'consciousness',
+    'supplemental_oxygen',
+] as const satisfies ReadonlyArray<keyof VitalsData>;
+
+/**
+ * Vitals fields with numeric readings, checked by the artifact filter
+ */
+export const NUMERIC_VITAL_FIELDS: NumericVitalField[] = [
+    'heart_rate',
+    'oxygen_saturation',
+    'respiratory_rate',
+    'systolic_bp',
+    'diastolic_bp',
+    'mean_arterial_pressure',
+    'temperature',
+    'blood_glucose',
+];
+
+/**
+ * Every vitals field a rule condition can read
+ */
+export const VITAL_FIELDS: VitalField[] = ['heart_rate', 'oxygen_saturation', ...OPTIONAL_VITAL_FIELDS];
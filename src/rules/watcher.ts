@@ -0,0 +1,84 @@
+import { watch, FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import { logger } from '../config/logger.js';
+import { SchemaValidator } from '../contracts/schema-validator.js';
+import { loadVersionedRules } from './loader.js';
+import { RulesEngine } from './engine.js';
+
+/**
+ * Reloads the rules file into a running RulesEngine when it changes.
+ * Invalid files are logged and the engine keeps its current rules.
+ */
+export class RulesWatcher {
+    private watcher: FSWatcher | null = null;
+    private debounceTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private rulesPath: string,
+        private rulesEngine: RulesEngine,
+        private validator: SchemaValidator,
+        private debounceMs = 250,
+    ) { }
+
+    /**
+     * Watch the rules file's directory so editors that replace the file
+     * (write to temp + rename) are picked up as well as in-place writes
+     */
+    start(): void {
+        const fileName = basename(this.rulesPath);
+
+        this.watcher = watch(dirname(this.rulesPath), (_event, changed) => {
+            if (changed && changed.toString() !== fileName) {
+                return;
+            }
+            this.scheduleReload();
+        });
+
+        logger.info({ rulesPath: this.rulesPath }, 'Watching rules file for changes');
+    }
+
+    stop(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        this.watcher?.close();
+        this.watcher = null;
+    }
+
+    private scheduleReload(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            this.reload('file-change');
+        }, this.debounceMs);
+    }
+
+    /**
+     * Validate and apply the rules file. Returns true if new rules were applied.
+     */
+    reload(trigger: string): boolean {
+        const previousVersion = this.rulesEngine.getRulesVersion();
+
+        try {
+            const { rules, version } = loadVersionedRules(this.rulesPath, this.validator);
+
+            if (version === previousVersion) {
+                logger.debug({ version, trigger }, 'Rules unchanged, skipping reload');
+                return false;
+            }
+
+            this.rulesEngine.updateRules(rules, version);
+            logger.info({ version, previousVersion, trigger }, 'Rules reloaded');
+            return true;
+        } catch (err) {
+            logger.error(
+                { error: err, version: previousVersion, trigger },
+                'Rules reload failed, keeping current rules',
+            );
+            return false;
+        }
+    }
+}
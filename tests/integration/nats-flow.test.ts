@@ -9,6 +9,21 @@ describe('Integration Test with NATS', () => {
 
     const NATS_URL = process.env.NATS_URL || 'nats://localhost:4222';
     const STREAM_NAME = 'events';
+    /** Every subject the service consumes or publishes with JetStream */
+    const STREAM_SUBJECTS = [
+        'vitals.recorded',
+        'vitals.artifact.detected',
+        'patient.alert.raised',
+        'patient.alert.resolved',
+        'patient.alert.escalated',
+        'patient.alert.acknowledged',
+        'patient.alert.snoozed',
+        'patient.thresholds.updated',
+        'device.signal.lost',
+        'device.signal.recovered',
+        'triage.shadow.diff',
+        'triage.dlq.vitals',
+    ];
 
     /**
      * Retry helper: calls `fn` up to `maxRetries` times with `delayMs` between attempts.
@@ -59,7 +74,7 @@ describe('Integration Test with NATS', () => {
         await retry(async () => {
             await jsm.streams.add({
                 name: STREAM_NAME,
-                subjects: ['vitals.recorded', 'patient.alert.raised'],
+                subjects: STREAM_SUBJECTS,
             });
             console.log('Stream created successfully');
         }, 15, 2000);
@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { ApiServer } from '../../../dist/api/server.js';
+import { Metrics } from '../../../dist/metrics/counter.js';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+
+describe('ApiServer', () => {
+    const engine = new RulesEngine({ heart_rate: { high_threshold: 120 } }, 600000);
+    const natsClient = { isConnected: () => true };
+    let server: ApiServer;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        server = new ApiServer(0, natsClient as any, new Metrics(), engine);
+        await server.start();
+        baseUrl = `http://127.0.0.1:${(server as any).server.address().port}`;
+    });
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it('should return 400 for a malformed patient id escape', async () => {
+        const res = await fetch(`${baseUrl}/patients/%E0%A4%A/baselines`);
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toEqual({ error: 'Malformed patient id' });
+
+        // The server is still up
+        expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+    });
+
+    it('should decode the patient id of a tracked patient', async () => {
+        engine.evaluate({ patient_id: 'ward 3/bed 7', heart_rate: 80, oxygen_saturation: 97, timestamp: '2025-01-01T00:00:00Z' });
+
+        const res = await fetch(`${baseUrl}/patients/${encodeURIComponent('ward 3/bed 7')}/baselines`);
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toMatchObject({ patient_id: 'ward 3/bed 7' });
+    });
+});
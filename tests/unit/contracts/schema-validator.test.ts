@@ -58,6 +58,7 @@ describe('SchemaValidator', () => {
                                 properties: {
                                     code: { type: 'string' },
                                     message: { type: 'string' },
+                                    evidence: { $ref: '#/$defs/reasonEvidence' },
                                 },
                             },
                         },
@@ -71,6 +72,49 @@ describe('SchemaValidator', () => {
                                 timestamp: { type: 'string', format: 'date-time' },
                             },
                         },
+                        evidence: {
+                            type: 'object',
+                            required: ['severity'],
+                            properties: {
+                                rules_version: { type: 'string' },
+                                severity: {
+                                    type: 'object',
+                                    required: ['decided_by', 'codes'],
+                                    properties: {
+                                        decided_by: {
+                                            type: 'string',
+                                            enum: ['rule', 'anomaly', 'news2', 'model', 'combination', 'weighted'],
+                                        },
+                                        codes: { type: 'array', items: { type: 'string' } },
+                                        score: { type: 'number' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            $defs: {
+                reasonEvidence: {
+                    type: 'object',
+                    required: ['source', 'observed', 'severity'],
+                    properties: {
+                        source: { type: 'string', enum: ['rule', 'anomaly', 'news2', 'model'] },
+                        rule_id: { type: 'string' },
+                        observed: { type: 'object' },
+                        score: { type: 'number' },
+                        readings: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                required: ['timestamp', 'values'],
+                                properties: {
+                                    timestamp: { type: 'string', format: 'date-time' },
+                                    values: { type: 'object' },
+                                },
+                            },
+                        },
+                        severity: { type: 'string', enum: ['low', 'medium', 'high'] },
                     },
                 },
             },
@@ -81,11 +125,93 @@ describe('SchemaValidator', () => {
             JSON.stringify(vitalsRecordedSchema, null, 2),
         );
 
+        const alertResolvedSchema = {
+            $id: 'https://5g-health-platform.example.com/schemas/events/patient-alert-resolved.json',
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'object',
+            required: ['event_name', 'event_id', 'timestamp', 'payload'],
+            properties: {
+                event_name: { type: 'string', const: 'patient.alert.resolved' },
+                event_id: { type: 'string', format: 'uuid' },
+                timestamp: { type: 'string', format: 'date-time' },
+                payload: {
+                    type: 'object',
+                    required: ['patient_id', 'alert_event_id', 'reason_code', 'resolved_at', 'vitals_snapshot'],
+                    properties: {
+                        patient_id: { type: 'string', format: 'uuid' },
+                        alert_event_id: { type: 'string', format: 'uuid' },
+                        reason_code: { type: 'string' },
+                        resolved_at: { type: 'string', format: 'date-time' },
+                        vitals_snapshot: { type: 'object' },
+                    },
+                },
+            },
+        };
+
         writeFileSync(
             join(testContractsDir, 'events', 'patient-alert-raised.json'),
             JSON.stringify(alertRaisedSchema, null, 2),
         );
 
+        const alertEscalatedSchema = {
+            $id: 'https://5g-health-platform.example.com/schemas/events/patient-alert-escalated.json',
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'object',
+            required: ['event_name', 'event_id', 'timestamp', 'payload'],
+            properties: {
+                event_name: { type: 'string', const: 'patient.alert.escalated' },
+                event_id: { type: 'string', format: 'uuid' },
+                timestamp: { type: 'string', format: 'date-time' },
+                payload: {
+                    type: 'object',
+                    required: ['patient_id', 'alert_event_id', 'previous_severity', 'severity', 'elapsed_ms'],
+                    properties: {
+                        patient_id: { type: 'string', format: 'uuid' },
+                        alert_event_id: { type: 'string', format: 'uuid' },
+                        previous_severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+                        severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+                        elapsed_ms: { type: 'integer', minimum: 0 },
+                    },
+                },
+            },
+        };
+
+        const artifactDetectedSchema = {
+            $id: 'https://5g-health-platform.example.com/schemas/events/vitals-artifact-detected.json',
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'object',
+            required: ['event_name', 'event_id', 'timestamp', 'payload'],
+            properties: {
+                event_name: { type: 'string', const: 'vitals.artifact.detected' },
+                event_id: { type: 'string', format: 'uuid' },
+                timestamp: { type: 'string', format: 'date-time' },
+                payload: {
+                    type: 'object',
+                    required: ['patient_id', 'reasons', 'vitals_snapshot'],
+                    properties: {
+                        patient_id: { type: 'string', format: 'uuid' },
+                        reasons: { type: 'array', minItems: 1 },
+                        vitals_snapshot: { type: 'object' },
+                    },
+                },
+            },
+        };
+
+        writeFileSync(
+            join(testContractsDir, 'events', 'patient-alert-resolved.json'),
+            JSON.stringify(alertResolvedSchema, null, 2),
+        );
+
+        writeFileSync(
+            join(testContractsDir, 'events', 'patient-alert-escalated.json'),
+            JSON.stringify(alertEscalatedSchema, null, 2),
+        );
+
+        writeFileSync(
+            join(testContractsDir, 'events', 'vitals-artifact-detected.json'),
+            JSON.stringify(artifactDetectedSchema, null, 2),
+        );
+
         // Initialize validator
         validator = new SchemaValidator(testContractsDir);
         validator.loadSchemas();
@@ -258,5 +384,130 @@ describe('SchemaValidator', () => {
             const result = validator.validateAlertRaised(invalidAlert);
             expect(result.valid).toBe(false);
         });
+
+        describe('evidence', () => {
+            const alertWith = (evidence: object) => ({
+                event_name: 'patient.alert.raised',
+                event_id: '123e4567-e89b-12d3-a456-426614174002',
+                timestamp: '2024-01-01T12:00:00Z',
+                payload: {
+                    patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                    severity: 'high',
+                    reasons: [{ code: 'HEART_RATE_HIGH', message: 'Heart rate 130 bpm', evidence }],
+                    suggested_action: 'Monitor patient closely',
+                    vitals_snapshot: { heart_rate: 130, oxygen_saturation: 98, timestamp: '2024-01-01T12:00:00Z' },
+                    evidence: { rules_version: 'v1', severity: { decided_by: 'rule', codes: ['HEART_RATE_HIGH'] } },
+                },
+            });
+
+            it('should accept structured reason evidence', () => {
+                const result = validator.validateAlertRaised(alertWith({
+                    source: 'rule',
+                    rule_id: 'heart-rate-high',
+                    observed: { heart_rate: 130 },
+                    readings: [{ timestamp: '2024-01-01T12:00:00.000Z', values: { heart_rate: 130 } }],
+                    severity: 'high',
+                }));
+
+                expect(result.valid).toBe(true);
+            });
+
+            it('should reject evidence from an unknown source', () => {
+                const result = validator.validateAlertRaised(alertWith({
+                    source: 'guess',
+                    observed: { heart_rate: 130 },
+                    severity: 'high',
+                }));
+
+                expect(result.valid).toBe(false);
+            });
+        });
+    });
+
+    describe('Alert Resolved Validation', () => {
+        const resolvedEvent = {
+            event_name: 'patient.alert.resolved',
+            event_id: '123e4567-e89b-12d3-a456-426614174003',
+            timestamp: '2024-01-01T12:10:00Z',
+            payload: {
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                alert_event_id: '123e4567-e89b-12d3-a456-426614174002',
+                reason_code: 'SPO2_LOW',
+                severity: 'medium',
+                raised_at: '2024-01-01T12:00:00Z',
+                resolved_at: '2024-01-01T12:10:00Z',
+                duration_ms: 600000,
+                vitals_snapshot: {
+                    heart_rate: 80,
+                    oxygen_saturation: 96,
+                    timestamp: '2024-01-01T12:10:00Z',
+                },
+            },
+        };
+
+        it('should validate a correct patient.alert.resolved event', () => {
+            const result = validator.validateAlertResolved(resolvedEvent);
+            expect(result.valid).toBe(true);
+        });
+
+        it('should reject a resolution without the original alert event_id', () => {
+            const { alert_event_id: _omitted, ...payload } = resolvedEvent.payload;
+
+            const result = validator.validateAlertResolved({ ...resolvedEvent, payload });
+            expect(result.valid).toBe(false);
+        });
+    });
+
+    describe('Alert Escalated Validation', () => {
+        it('should validate a correct patient.alert.escalated event', () => {
+            const result = validator.validateAlertEscalated({
+                event_name: 'patient.alert.escalated',
+                event_id: '123e4567-e89b-12d3-a456-426614174004',
+                timestamp: '2024-01-01T12:05:00Z',
+                payload: {
+                    patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                    alert_event_id: '123e4567-e89b-12d3-a456-426614174002',
+                    reason_codes: ['SPO2_LOW'],
+                    previous_severity: 'medium',
+                    severity: 'high',
+                    trigger: 'severity_increase',
+                    suggested_action: 'Administer oxygen',
+                    elapsed_ms: 300000,
+                    vitals_snapshot: {
+                        heart_rate: 80,
+                        oxygen_saturation: 84,
+                        timestamp: '2024-01-01T12:05:00Z',
+                    },
+                },
+            });
+            expect(result.valid).toBe(true);
+        });
+    });
+
+    describe('Artifact Detected Validation', () => {
+        it('should validate a correct vitals.artifact.detected event', () => {
+            const result = validator.validateArtifactDetected({
+                event_name: 'vitals.artifact.detected',
+                event_id: '123e4567-e89b-12d3-a456-426614174005',
+                timestamp: '2024-01-01T12:00:00Z',
+                payload: {
+                    patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                    reasons: [
+                        {
+                            code: 'IMPLAUSIBLE_VALUE',
+                            field: 'heart_rate',
+                            value: 0,
+                            message: 'heart_rate 0 outside plausible range 20–250',
+                        },
+                    ],
+                    vitals_snapshot: {
+                        heart_rate: 0,
+                        oxygen_saturation: 97,
+                        timestamp: '2024-01-01T12:00:00Z',
+                    },
+                },
+            });
+            expect(result.valid).toBe(true);
+        });
     });
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import { LogisticRegressionEvaluator } from '../../../dist/models/logistic.js';
+import type { CompositionStrategy, RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('Risk model composition', () => {
+    // Score depends on heart rate only: 0.5 at 100 bpm, rising with it
+    const evaluator = new LogisticRegressionEvaluator({
+        type: 'logistic_regression',
+        name: 'hr-model',
+        version: '3',
+        thresholds: { low: 0.3, medium: 0.5, high: 0.8 },
+        features: [{ name: 'heart_rate', mean: 100, scale: 10 }],
+        intercept: 0,
+        coefficients: { heart_rate: 1 },
+    });
+
+    const rules: RulesConfig = {
+        heart_rate: { high_threshold: 120 },
+        spo2: { low_threshold: 90 },
+    };
+
+    let offset = 0;
+    const reading = (vitals: Partial<VitalsData>): VitalsData => ({
+        patient_id: 'patient-1',
+        heart_rate: 70,
+        oxygen_saturation: 97,
+        timestamp: new Date(Date.parse('2025-01-01T00:00:00Z') + (offset += 1000)).toISOString(),
+        ...vitals,
+    });
+
+    const engineWith = (strategy?: CompositionStrategy, extra: RulesConfig = {}) =>
+        new RulesEngine({ ...rules, ...(strategy && { model: { strategy, ...extra.model } }) }, 600000, 'v1', undefined, undefined, evaluator);
+
+    it('should attach the model score to every result, whatever the strategy', () => {
+        const result = engineWith('rules_only').evaluate(reading({ heart_rate: 110 }));
+
+        expect(result.shouldAlert).toBe(false);
+        expect(result.risk).toMatchObject({ model: 'hr-model', version: '3', score: 0.7311, strategy: 'rules_only' });
+    });
+
+    it('should let the model raise the severity under max_severity by default', () => {
+        const result = engineWith().evaluate(reading({ heart_rate: 115, oxygen_saturation: 88 }));
+
+        // SpO2 rule is medium; the model scores 0.8176, high
+        expect(result.severity).toBe('high');
+        expect(result.reasons!.map((reason) => reason.code)).toEqual(['SPO2_LOW', 'RISK_MODEL_ELEVATED']);
+        expect(result.risk!.strategy).toBe('max_severity');
+    });
+
+    it('should ignore the rules under model_only', () => {
+        const engine = engineWith('model_only');
+
+        expect(engine.evaluate(reading({ heart_rate: 70, oxygen_saturation: 85 })).shouldAlert).toBe(false);
+
+        const result = engine.evaluate(reading({ heart_rate: 105 }));
+        expect(result.severity).toBe('medium');
+        expect(result.reasons!.map((reason) => reason.code)).toEqual(['RISK_MODEL_ELEVATED']);
+    });
+
+    it('should band a blend of the model score and rules severity under weighted', () => {
+        const engine = engineWith('weighted', { model: { weight: 0.5, actions: { low: 'Recheck in 1 hour' } } });
+
+        // Rules medium (0.5) blended with a model score of 0.0474 gives 0.27, below low
+        expect(engine.evaluate(reading({ heart_rate: 70, oxygen_saturation: 85 })).shouldAlert).toBe(false);
+
+        // Rules medium (0.5) blended with 0.2689 gives 0.38, low
+        const result = engine.evaluate(reading({ heart_rate: 90, oxygen_saturation: 85 }));
+        expect(result.severity).toBe('low');
+        expect(result.suggestedAction).toBe('Recheck in 1 hour');
+        expect(result.reasons!.map((reason) => reason.code)).toEqual(['SPO2_LOW']);
+    });
+
+    it('should resolve a model alert once the score falls below every band', () => {
+        const engine = engineWith('model_only');
+
+        const raised = engine.evaluate(reading({ heart_rate: 110 }));
+        engine.recordAlert(reading({ heart_rate: 110 }), raised, '3f1c2a4e-8a9b-4a8e-9a55-0d1b2c3d4e5f');
+
+        expect(engine.evaluate(reading({ heart_rate: 100 })).resolved).toBeUndefined();
+        expect(engine.evaluate(reading({ heart_rate: 80 })).resolved).toMatchObject([{ code: 'RISK_MODEL_ELEVATED' }]);
+    });
+
+    it('should report no risk without a model', () => {
+        const result = new RulesEngine(rules, 600000).evaluate(reading({ oxygen_saturation: 85 }));
+
+        expect(result.risk).toBeUndefined();
+    });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { LogisticRegressionEvaluator } from '../../../dist/models/logistic.js';
+import { GradientBoostedTreesEvaluator } from '../../../dist/models/trees.js';
+import { validateModel } from '../../../dist/models/loader.js';
+import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
+import type { GradientBoostedTreesFile, LogisticRegressionFile } from '../../../dist/models/types.js';
+import type { VitalsData } from '../../../dist/rules/types.js';
+
+const reading = (vitals: Partial<VitalsData> = {}): VitalsData => ({
+    patient_id: 'patient-1',
+    heart_rate: 80,
+    oxygen_saturation: 97,
+    timestamp: '2025-01-01T00:00:00Z',
+    ...vitals,
+});
+
+const thresholds = { low: 0.3, medium: 0.5, high: 0.7 };
+
+describe('Logistic regression evaluator', () => {
+    const model: LogisticRegressionFile = {
+        type: 'logistic_regression',
+        name: 'lr',
+        version: '1.0.0',
+        thresholds,
+        features: [
+            { name: 'heart_rate', mean: 80, scale: 20 },
+            { name: 'oxygen_saturation', mean: 96, scale: 2 },
+            { name: 'respiratory_rate' },
+        ],
+        intercept: -2,
+        coefficients: { heart_rate: 1, oxygen_saturation: -1, respiratory_rate: 0.5 },
+    };
+    const evaluator = new LogisticRegressionEvaluator(model);
+
+    it('should score below the lowest band without alerting', () => {
+        const result = evaluator.evaluate({ vitals: reading({ heart_rate: 80, oxygen_saturation: 96 }), history: [] });
+
+        expect(result.shouldAlert).toBe(false);
+        expect(result.risk).toEqual({ model: 'lr', version: '1.0.0', score: 0.1192, explanation: [] });
+    });
+
+    it('should band the score and explain it by contribution size', () => {
+        // logit = -2 + (120 - 80) / 20 - (90 - 96) / 2 = 3
+        const result = evaluator.evaluate({ vitals: reading({ heart_rate: 120, oxygen_saturation: 90 }), history: [] });
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.severity).toBe('high');
+        expect(result.reasons).toEqual([
+            {
+                code: 'RISK_MODEL_ELEVATED',
+                message: 'Risk model lr 1.0.0 score 0.9526 at or above 0.7',
+                evidence: {
+                    source: 'model',
+                    observed: { heart_rate: 120, oxygen_saturation: 90 },
+                    score: 0.9526,
+                    threshold: 0.7,
+                    severity: 'high',
+                },
+            },
+        ]);
+        expect(result.risk!.explanation).toEqual([
+            { feature: 'oxygen_saturation', value: 90, contribution: 3 },
+            { feature: 'heart_rate', value: 120, contribution: 2 },
+        ]);
+    });
+
+    it('should leave out features missing from the reading with nothing to impute', () => {
+        const withRate = evaluator.evaluate({ vitals: reading({ respiratory_rate: 2 }), history: [] });
+        const withoutRate = evaluator.evaluate({ vitals: reading(), history: [] });
+
+        expect(withRate.risk!.explanation).toContainEqual({ feature: 'respiratory_rate', value: 2, contribution: 1 });
+        expect(withoutRate.risk!.explanation.map((c) => c.feature)).not.toContain('respiratory_rate');
+    });
+});
+
+describe('Gradient-boosted trees evaluator', () => {
+    const model: GradientBoostedTreesFile = {
+        type: 'gradient_boosted_trees',
+        name: 'gbt',
+        version: '2',
+        thresholds,
+        features: [{ name: 'heart_rate', impute: 80 }, { name: 'oxygen_saturation' }],
+        base_score: -1,
+        trees: [
+            {
+                feature: 'heart_rate',
+                threshold: 120,
+                left: { leaf: -0.5 },
+                right: {
+                    feature: 'oxygen_saturation',
+                    threshold: 92,
+                    missing: 'right',
+                    left: { leaf: 2 },
+                    right: { leaf: 1 },
+                },
+            },
+        ],
+    };
+    const evaluator = new GradientBoostedTreesEvaluator(model);
+
+    it('should sum the leaves reached and share each leaf between the features on its path', () => {
+        const result = evaluator.evaluate({ vitals: reading({ heart_rate: 130, oxygen_saturation: 90 }), history: [] });
+
+        // logit = -1 + 2 = 1
+        expect(result.risk!.score).toBe(0.7311);
+        expect(result.severity).toBe('high');
+        expect(result.risk!.explanation).toEqual([
+            { feature: 'heart_rate', value: 130, contribution: 1 },
+            { feature: 'oxygen_saturation', value: 90, contribution: 1 },
+        ]);
+    });
+
+    it('should follow the missing branch when a feature has no value', () => {
+        const vitals = { patient_id: 'patient-1', heart_rate: 130, timestamp: '2025-01-01T00:00:00Z' } as VitalsData;
+        const result = evaluator.evaluate({ vitals, history: [] });
+
+        // logit = -1 + 1 = 0
+        expect(result.risk!.score).toBe(0.5);
+        expect(result.severity).toBe('medium');
+    });
+});
+
+describe('Model file validation', () => {
+    const validator = new SchemaValidator('./contracts');
+
+    it('should accept the bundled example models', () => {
+        for (const file of ['models/deterioration-logistic.json', 'models/deterioration-trees.json']) {
+            expect(validateModel(JSON.parse(readFileSync(file, 'utf-8')), validator)).toEqual([]);
+        }
+    });
+
+    it('should reject unknown model types and missing fields', () => {
+        const issues = validateModel({ type: 'svm', name: 'x', version: '1', thresholds, features: [] }, validator);
+
+        expect(issues.map((issue) => issue.path)).toContain('$.type');
+    });
+
+    it('should reject undeclared features and unordered thresholds', () => {
+        const issues = validateModel(
+            {
+                type: 'gradient_boosted_trees',
+                name: 'gbt',
+                version: '1',
+                thresholds: { low: 0.6, medium: 0.5, high: 0.7 },
+                features: [{ name: 'heart_rate' }],
+                base_score: 0,
+                trees: [{ feature: 'heart_rate', threshold: 100, left: { leaf: 0 }, right: {
+                    feature: 'temperature', threshold: 38, left: { leaf: 0 }, right: { leaf: 1 },
+                } }],
+            },
+            validator,
+        );
+
+        expect(issues).toEqual([
+            { path: '$.thresholds', message: 'must satisfy low <= medium <= high' },
+            { path: '$.trees[0].right.feature', message: '"temperature" is not a declared feature' },
+        ]);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AcknowledgementsConsumer } from '../../../dist/nats/acknowledgements-consumer.js';
+import { Metrics } from '../../../dist/metrics/counter.js';
+
+describe('AcknowledgementsConsumer', () => {
+    const config = {
+        streamName: 'events',
+        acknowledgedSubject: 'patient.alert.acknowledged',
+        snoozedSubject: 'patient.alert.snoozed',
+    };
+
+    let rulesEngine: any;
+    let metrics: Metrics;
+    let getConsumer: ReturnType<typeof vi.fn>;
+
+    const createConsumer = (messages: any[], since?: Date) => {
+        getConsumer = vi.fn(async () => ({
+            consume: async () => messages,
+        }));
+        const natsClient = {
+            getConnection: () => ({
+                jetstream: () => ({
+                    consumers: { get: getConsumer },
+                }),
+            }),
+        };
+        return new AcknowledgementsConsumer(natsClient as any, rulesEngine, metrics, { ...config, since });
+    };
+
+    beforeEach(() => {
+        metrics = new Metrics();
+        rulesEngine = { acknowledge: vi.fn(() => 1) };
+    });
+
+    it('should apply acknowledgements and snoozes by subject', async () => {
+        await createConsumer([
+            { subject: config.acknowledgedSubject, json: () => ({ patient_id: 'patient-1' }) },
+            { subject: config.snoozedSubject, json: () => ({ payload: { patient_id: 'patient-1', snooze_ms: 60000 } }) },
+        ]).start();
+
+        expect(rulesEngine.acknowledge.mock.calls.map(([, type]: any[]) => type)).toEqual(['acknowledged', 'snoozed']);
+        expect(metrics.getCounters()).toMatchObject({ alerts_acknowledged: 1, alerts_snoozed: 1 });
+    });
+
+    it('should read new acknowledgements only, or replay them from a given time', async () => {
+        await createConsumer([]).start();
+        expect(getConsumer).toHaveBeenCalledWith('events', expect.objectContaining({ deliver_policy: 'new' }));
+
+        await createConsumer([], new Date('2025-01-01T00:00:00Z')).start();
+        expect(getConsumer).toHaveBeenCalledWith('events', expect.objectContaining({
+            deliver_policy: 'by_start_time',
+            opt_start_time: '2025-01-01T00:00:00.000Z',
+        }));
+    });
+});
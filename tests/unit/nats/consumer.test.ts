@@ -5,6 +5,7 @@ import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
 import { NatsClient } from '../../../dist/nats/connection.js';
 import { AlertPublisher } from '../../../dist/nats/publisher.js';
 import { Metrics } from '../../../dist/metrics/counter.js';
+import { WorkerPool } from '../../../dist/nats/worker-pool.js';
 
 // Mock implementations
 class MockMsg {
@@ -56,11 +57,24 @@ describe('VitalsConsumer Message Handling', () => {
         };
 
         mockRulesEngine = {
+            admitReading: vi.fn(() => 'new'),
+            snapshotPatient: vi.fn((patientId: string) => ({ patientId })),
+            restorePatient: vi.fn(),
+            checkArtifacts: vi.fn(() => ({ artifact: false, reasons: [] })),
+            getRulesVersion: vi.fn(() => 'abc123'),
             evaluate: vi.fn(() => ({ shouldAlert: false })),
+            recordAlert: vi.fn(),
+            recordResolved: vi.fn(),
+            recordEscalation: vi.fn(),
+            recordSignalRecovered: vi.fn(),
         };
 
         mockPublisher = {
-            publishAlert: vi.fn(() => Promise.resolve(true)),
+            publishAlert: vi.fn(() => Promise.resolve('123e4567-e89b-12d3-a456-426614174009')),
+            publishResolved: vi.fn(() => Promise.resolve(true)),
+            publishEscalated: vi.fn(() => Promise.resolve(true)),
+            publishArtifact: vi.fn(() => Promise.resolve(true)),
+            publishSignalRecovered: vi.fn(() => Promise.resolve(true)),
         };
     });
 
@@ -75,7 +89,7 @@ describe('VitalsConsumer Message Handling', () => {
                 {
                     streamName: 'events',
                     durableName: 'ai-triage',
-                    subject: 'vitals.recorded',
+                    subjects: ['vitals.recorded'],
                 },
             );
 
@@ -108,7 +122,7 @@ describe('VitalsConsumer Message Handling', () => {
                 {
                     streamName: 'events',
                     durableName: 'ai-triage',
-                    subject: 'vitals.recorded',
+                    subjects: ['vitals.recorded'],
                 },
             );
 
@@ -134,6 +148,151 @@ describe('VitalsConsumer Message Handling', () => {
         });
     });
 
+    describe('Sensor Artifact', () => {
+        const artifactEvent = {
+            event_name: 'vitals.recorded',
+            event_id: '123e4567-e89b-12d3-a456-426614174000',
+            timestamp: '2024-01-01T12:00:00Z',
+            payload: {
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                heart_rate: 0,
+                oxygen_saturation: 98,
+                timestamp: '2024-01-01T12:00:00Z',
+            },
+        };
+        const reasons = [
+            { code: 'IMPLAUSIBLE_VALUE', field: 'heart_rate', value: 0, message: 'heart_rate 0 outside plausible range 20–250' },
+        ];
+
+        beforeEach(() => {
+            mockRulesEngine.checkArtifacts = vi.fn(() => ({ artifact: true, reasons }));
+        });
+
+        it('should ACK and count the reading without evaluating it', async () => {
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+            );
+
+            const mockMsg = new MockMsg(artifactEvent);
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(metrics.getCounters().dropped_artifact).toBe(1);
+            expect(metrics.getCounters().validated).toBe(1);
+            expect(mockRulesEngine.evaluate).not.toHaveBeenCalled();
+            expect(mockPublisher.publishArtifact).not.toHaveBeenCalled();
+        });
+
+        it('should publish the artifact when enabled, and ACK even if that fails', async () => {
+            mockPublisher.publishArtifact = vi.fn(() => Promise.resolve(false));
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                    publishArtifacts: true,
+                },
+            );
+
+            const mockMsg = new MockMsg(artifactEvent);
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockPublisher.publishArtifact).toHaveBeenCalledWith(artifactEvent.payload, reasons, 'abc123');
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(mockMsg.nakCalled).toBe(false);
+        });
+    });
+
+    describe('Signal Recovered', () => {
+        const recovery = {
+            lostEventId: '123e4567-e89b-12d3-a456-426614174010',
+            lostAt: 1000,
+            lastSeenAt: 0,
+            recoveredAt: 5000,
+        };
+
+        it('should publish the recovery and clear the signal loss', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({ shouldAlert: false, signalRecovered: recovery }));
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+            );
+
+            const mockMsg = new MockMsg({
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                heart_rate: 75,
+                oxygen_saturation: 98,
+                timestamp: '2024-01-01T12:00:00Z',
+            });
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockRulesEngine.recordSignalRecovered).toHaveBeenCalledWith(
+                '123e4567-e89b-12d3-a456-426614174001',
+                recovery,
+            );
+            expect(metrics.getCounters().signal_recovered).toBe(1);
+            expect(mockMsg.ackCalled).toBe(true);
+        });
+
+        it('should NAK and keep the loss open when the recovery fails to publish', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({ shouldAlert: false, signalRecovered: recovery }));
+            mockPublisher.publishSignalRecovered = vi.fn(() => Promise.resolve(false));
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+            );
+
+            const mockMsg = new MockMsg({
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                heart_rate: 75,
+                oxygen_saturation: 98,
+                timestamp: '2024-01-01T12:00:00Z',
+            });
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockMsg.nakCalled).toBe(true);
+            expect(mockRulesEngine.recordSignalRecovered).not.toHaveBeenCalled();
+            expect(metrics.getCounters().dropped_publish_fail).toBe(1);
+        });
+    });
+
     describe('No Alert Triggered', () => {
         it('should ACK message when no alert is needed', async () => {
             const consumer = new VitalsConsumer(
@@ -145,7 +304,7 @@ describe('VitalsConsumer Message Handling', () => {
                 {
                     streamName: 'events',
                     durableName: 'ai-triage',
-                    subject: 'vitals.recorded',
+                    subjects: ['vitals.recorded'],
                 },
             );
 
@@ -189,7 +348,7 @@ describe('VitalsConsumer Message Handling', () => {
                 {
                     streamName: 'events',
                     durableName: 'ai-triage',
-                    subject: 'vitals.recorded',
+                    subjects: ['vitals.recorded'],
                 },
             );
 
@@ -213,10 +372,251 @@ describe('VitalsConsumer Message Handling', () => {
             expect(mockMsg.nakCalled).toBe(false);
             expect(metrics.getCounters().alerts_published).toBe(1);
             expect(mockPublisher.publishAlert).toHaveBeenCalled();
+            expect(mockRulesEngine.recordAlert).toHaveBeenCalledWith(
+                validEvent.payload,
+                expect.objectContaining({ shouldAlert: true }),
+                '123e4567-e89b-12d3-a456-426614174009',
+            );
+        });
+    });
+
+    describe('Shadow Evaluation', () => {
+        it('should pass the live decision to the shadow runner and still publish the live alert', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({
+                shouldAlert: true,
+                severity: 'high',
+                reasons: [{ code: 'HEART_RATE_HIGH', message: 'Too high' }],
+                suggestedAction: 'Check patient',
+                rulesVersion: 'abc123',
+            }));
+            const mockShadow = { observe: vi.fn(() => Promise.resolve(undefined)) };
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+                mockShadow as any,
+            );
+
+            const payload = {
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                heart_rate: 130,
+                oxygen_saturation: 98,
+                timestamp: '2024-01-01T12:00:00Z',
+            };
+            const mockMsg = new MockMsg({ payload });
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockShadow.observe).toHaveBeenCalledWith(payload, {
+                artifact: false,
+                alert: true,
+                severity: 'high',
+                reasonCodes: ['HEART_RATE_HIGH'],
+                rulesVersion: 'abc123',
+            });
+            expect(mockPublisher.publishAlert).toHaveBeenCalled();
+            expect(mockMsg.ackCalled).toBe(true);
+        });
+    });
+
+    describe('Alert Escalated', () => {
+        const escalation = {
+            alertEventId: '123e4567-e89b-12d3-a456-426614174009',
+            codes: ['SPO2_LOW'],
+            previousSeverity: 'medium',
+            severity: 'high',
+            trigger: 'severity_increase',
+            suggestedAction: 'Administer oxygen',
+            raisedAt: 0,
+            escalatedAt: 60000,
+        };
+
+        it('should publish the escalation without raising or counting a suppression', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({
+                shouldAlert: true,
+                suppressed: true,
+                severity: 'high',
+                reasons: [{ code: 'SPO2_LOW', message: 'Too low' }],
+                suggestedAction: 'Administer oxygen',
+                escalations: [escalation],
+            }));
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+            );
+
+            const mockMsg = new MockMsg({
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                heart_rate: 80,
+                oxygen_saturation: 84,
+                timestamp: '2024-01-01T12:00:00Z',
+            });
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockPublisher.publishEscalated).toHaveBeenCalled();
+            expect(mockRulesEngine.recordEscalation).toHaveBeenCalledWith(
+                '123e4567-e89b-12d3-a456-426614174001',
+                escalation,
+            );
+            expect(mockPublisher.publishAlert).not.toHaveBeenCalled();
+            expect(metrics.getCounters().alerts_escalated).toBe(1);
+            expect(metrics.getCounters().alerts_suppressed).toBe(0);
+            expect(mockMsg.ackCalled).toBe(true);
+        });
+    });
+
+    describe('Alert Resolved', () => {
+        const resolution = {
+            code: 'SPO2_LOW',
+            alertEventId: '123e4567-e89b-12d3-a456-426614174009',
+            severity: 'medium',
+            raisedAt: 0,
+            resolvedAt: 60000,
+        };
+
+        const vitals = {
+            patient_id: '123e4567-e89b-12d3-a456-426614174001',
+            heart_rate: 80,
+            oxygen_saturation: 96,
+            timestamp: '2024-01-01T12:00:00Z',
+        };
+
+        const createConsumer = () => new VitalsConsumer(
+            mockNatsClient as any,
+            mockValidator as any,
+            mockRulesEngine as any,
+            mockPublisher as any,
+            metrics,
+            {
+                streamName: 'events',
+                durableName: 'ai-triage',
+                subjects: ['vitals.recorded'],
+            },
+        );
+
+        it('should publish resolutions and close the episode', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({ shouldAlert: false, resolved: [resolution] }));
+
+            const mockMsg = new MockMsg(vitals);
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(mockPublisher.publishResolved).toHaveBeenCalledWith(vitals, resolution, undefined);
+            expect(mockRulesEngine.recordResolved).toHaveBeenCalledWith(vitals.patient_id, resolution);
+            expect(metrics.getCounters().alerts_resolved).toBe(1);
+            expect(mockMsg.ackCalled).toBe(true);
+        });
+
+        it('should NAK and keep the episode open when the resolution fails to publish', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({ shouldAlert: false, resolved: [resolution] }));
+            mockPublisher.publishResolved = vi.fn(() => Promise.resolve(false));
+
+            const mockMsg = new MockMsg(vitals);
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(mockMsg.nakCalled).toBe(true);
+            expect(mockRulesEngine.recordResolved).not.toHaveBeenCalled();
+            expect(metrics.getCounters().dropped_publish_fail).toBe(1);
+        });
+    });
+
+    describe('Alert Suppressed', () => {
+        it('should ACK message and increment alerts_suppressed without publishing', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({
+                shouldAlert: true,
+                suppressed: true,
+                severity: 'high',
+                reasons: [{ code: 'HEART_RATE_HIGH', message: 'Too high' }],
+                suggestedAction: 'Check patient',
+            }));
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+            );
+
+            const mockMsg = new MockMsg({
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                heart_rate: 130,
+                oxygen_saturation: 98,
+                timestamp: '2024-01-01T12:00:00Z',
+            });
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(metrics.getCounters().alerts_suppressed).toBe(1);
+            expect(metrics.getCounters().alerts_published).toBe(0);
+            expect(mockPublisher.publishAlert).not.toHaveBeenCalled();
         });
     });
 
     describe('Alert Publish Failure', () => {
+        it('should leave a reading NAKed for retry out of the shadow comparison', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({
+                shouldAlert: true,
+                severity: 'high',
+                reasons: [{ code: 'HEART_RATE_HIGH', message: 'Too high' }],
+                suggestedAction: 'Check patient',
+            }));
+            mockPublisher.publishAlert = vi.fn(() => Promise.resolve(undefined));
+            const mockShadow = { observe: vi.fn(() => Promise.resolve(undefined)) };
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+                mockShadow as any,
+            );
+
+            const mockMsg = new MockMsg({
+                payload: {
+                    patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                    heart_rate: 130,
+                    oxygen_saturation: 98,
+                    timestamp: '2024-01-01T12:00:00Z',
+                },
+            });
+
+            await (consumer as any).handleMessage(mockMsg);
+
+            expect(mockMsg.nakCalled).toBe(true);
+            expect(mockShadow.observe).not.toHaveBeenCalled();
+        });
+
+
         it('should NAK message and increment dropped_publish_fail on publish error', async () => {
             mockRulesEngine.evaluate = vi.fn(() => ({
                 shouldAlert: true,
@@ -225,7 +625,7 @@ describe('VitalsConsumer Message Handling', () => {
                 suggestedAction: 'Check patient',
             }));
 
-            mockPublisher.publishAlert = vi.fn(() => Promise.resolve(false));
+            mockPublisher.publishAlert = vi.fn(() => Promise.resolve(undefined));
 
             const consumer = new VitalsConsumer(
                 mockNatsClient as any,
@@ -236,7 +636,7 @@ describe('VitalsConsumer Message Handling', () => {
                 {
                     streamName: 'events',
                     durableName: 'ai-triage',
-                    subject: 'vitals.recorded',
+                    subjects: ['vitals.recorded'],
                 },
             );
 
@@ -259,6 +659,260 @@ describe('VitalsConsumer Message Handling', () => {
             expect(mockMsg.ackCalled).toBe(false);
             expect(mockMsg.nakCalled).toBe(true);
             expect(metrics.getCounters().dropped_publish_fail).toBe(1);
+            expect(mockRulesEngine.recordAlert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Duplicate and Late Readings', () => {
+        const reading = {
+            patient_id: '123e4567-e89b-12d3-a456-426614174001',
+            heart_rate: 130,
+            oxygen_saturation: 98,
+            timestamp: '2024-01-01T12:00:00Z',
+        };
+
+        const createConsumer = (lateReadings?: 'drop' | 'evaluate') => new VitalsConsumer(
+            mockNatsClient as any,
+            mockValidator as any,
+            mockRulesEngine as any,
+            mockPublisher as any,
+            metrics,
+            {
+                streamName: 'events',
+                durableName: 'ai-triage',
+                subjects: ['vitals.recorded'],
+                lateReadings,
+            },
+        );
+
+        it('should ACK a duplicate reading without evaluating it', async () => {
+            mockRulesEngine.admitReading = vi.fn(() => 'duplicate');
+            const mockMsg = new MockMsg(reading);
+
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(mockRulesEngine.evaluate).not.toHaveBeenCalled();
+            expect(metrics.getCounters().dropped_duplicate).toBe(1);
+        });
+
+        it('should drop a reading from the future', async () => {
+            mockRulesEngine.admitReading = vi.fn(() => 'future');
+            const mockMsg = new MockMsg(reading);
+
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(mockRulesEngine.evaluate).not.toHaveBeenCalled();
+            expect(metrics.getCounters()).toMatchObject({ dropped_future: 1, dropped_late: 0 });
+        });
+
+        it('should drop a late reading by default', async () => {
+            mockRulesEngine.admitReading = vi.fn(() => 'late');
+            const mockMsg = new MockMsg(reading);
+
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(mockRulesEngine.evaluate).not.toHaveBeenCalled();
+            expect(metrics.getCounters().dropped_late).toBe(1);
+        });
+
+        it('should evaluate a late reading read-only when configured', async () => {
+            mockRulesEngine.admitReading = vi.fn(() => 'late');
+            const mockMsg = new MockMsg(reading);
+
+            await (createConsumer('evaluate') as any).handleMessage(mockMsg);
+
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(mockRulesEngine.evaluate).toHaveBeenCalledWith(reading, { readOnly: true });
+            expect(metrics.getCounters()).toMatchObject({ late_evaluated: 1, dropped_late: 0 });
+        });
+
+        it('should count a reading once when its alert is retried', async () => {
+            mockRulesEngine = new RulesEngine({ heart_rate: { high_threshold: 120, persist_samples: 2 } }, 600000);
+            mockPublisher.publishAlert = vi.fn()
+                .mockResolvedValueOnce(undefined)
+                .mockResolvedValue('123e4567-e89b-12d3-a456-426614174009');
+            const consumer = createConsumer() as any;
+            const next = { ...reading, timestamp: '2024-01-01T12:01:00Z' };
+
+            await consumer.handleMessage(new MockMsg(reading));
+            const failed = new MockMsg(next);
+            await consumer.handleMessage(failed);
+            const redelivered = new MockMsg(next);
+            await consumer.handleMessage(redelivered);
+
+            const state = mockRulesEngine.states.get(reading.patient_id);
+            expect(failed.nakCalled).toBe(true);
+            expect(redelivered.ackCalled).toBe(true);
+            const [track]: any[] = Object.values(state.violations);
+            expect(track.count).toBe(2);
+            expect(track.readings).toHaveLength(2);
+            expect(state.seenReadings).toHaveLength(2);
+            expect(metrics.getCounters()).toMatchObject({ alerts_published: 1, dropped_duplicate: 0 });
+        });
+    });
+
+    describe('Dead Letters', () => {
+        let deadLetters: any;
+
+        const createConsumer = () => new VitalsConsumer(
+            mockNatsClient as any,
+            mockValidator as any,
+            mockRulesEngine as any,
+            mockPublisher as any,
+            metrics,
+            {
+                streamName: 'events',
+                durableName: 'ai-triage',
+                subjects: ['vitals.recorded'],
+            },
+            undefined,
+            undefined,
+            deadLetters,
+        );
+
+        const reading = {
+            patient_id: '123e4567-e89b-12d3-a456-426614174001',
+            heart_rate: 130,
+            oxygen_saturation: 98,
+            timestamp: '2024-01-01T12:00:00Z',
+        };
+
+        beforeEach(() => {
+            deadLetters = { publish: vi.fn(() => Promise.resolve(true)) };
+        });
+
+        it('should dead-letter a message that fails schema validation', async () => {
+            mockValidator.validateVitalsRecorded = vi.fn(() => ({
+                valid: false,
+                errors: 'data must have required property \'timestamp\'',
+            }));
+            const mockMsg = new MockMsg({ patient_id: 'p1' });
+
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(deadLetters.publish).toHaveBeenCalledWith(
+                mockMsg,
+                'validation',
+                'data must have required property \'timestamp\'',
+            );
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(metrics.getCounters()).toMatchObject({ dropped_invalid: 1, dead_lettered: 1 });
+        });
+
+        it('should dead-letter a message whose publish fails on its last delivery', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({ shouldAlert: true, severity: 'high', reasons: [] }));
+            mockPublisher.publishAlert = vi.fn(() => Promise.resolve(undefined));
+            const mockMsg = Object.assign(new MockMsg(reading), { info: { redeliveryCount: 5 } });
+
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(deadLetters.publish).toHaveBeenCalledWith(mockMsg, 'max_deliver', 'Alert publish failed');
+            expect(mockMsg.ackCalled).toBe(true);
+            expect(mockMsg.nakCalled).toBe(false);
+        });
+
+        it('should keep retrying before the last delivery', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => ({ shouldAlert: true, severity: 'high', reasons: [] }));
+            mockPublisher.publishAlert = vi.fn(() => Promise.resolve(undefined));
+            const mockMsg = Object.assign(new MockMsg(reading), { info: { redeliveryCount: 2 } });
+
+            await (createConsumer() as any).handleMessage(mockMsg);
+
+            expect(deadLetters.publish).not.toHaveBeenCalled();
+            expect(mockMsg.nakCalled).toBe(true);
+        });
+    });
+
+    describe('Reordering', () => {
+        it('should stop pulling while the readings pulled but not handled fill the pool', async () => {
+            const start = Date.parse('2024-01-01T12:00:00Z');
+            let pulled = 0;
+            async function* deliveries() {
+                for (let i = 0; i < 10; i++) {
+                    pulled++;
+                    yield new MockMsg({
+                        patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                        heart_rate: 80,
+                        timestamp: new Date(start + i * 1000).toISOString(),
+                    });
+                }
+            }
+            const js = {
+                consumers: {
+                    get: vi.fn(async () => ({ consume: async () => Object.assign(deliveries(), { close: vi.fn() }) })),
+                },
+            };
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                    lateReadings: 'reorder',
+                    reorderBufferMs: 60000,
+                },
+                undefined,
+                new WorkerPool(2, 3),
+            ) as any;
+
+            const handled: string[] = [];
+            let unblock!: () => void;
+            const blocked = new Promise<void>((resolve) => unblock = resolve);
+            consumer.handle = async (msg: MockMsg) => {
+                handled.push(msg.json().timestamp);
+                await blocked;
+            };
+
+            const consuming = consumer.connectAndConsume({}, js);
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            expect(pulled).toBe(3);
+
+            unblock();
+            await consuming;
+            await consumer.stop();
+
+            expect(pulled).toBe(10);
+            expect(handled).toEqual(Array.from({ length: 10 }, (_, i) => new Date(start + i * 1000).toISOString()));
+        });
+    });
+
+    describe('Handling Failure', () => {
+        it('should NAK a message whose handling throws', async () => {
+            mockRulesEngine.evaluate = vi.fn(() => {
+                throw new Error('Evaluation failed');
+            });
+
+            const consumer = new VitalsConsumer(
+                mockNatsClient as any,
+                mockValidator as any,
+                mockRulesEngine as any,
+                mockPublisher as any,
+                metrics,
+                {
+                    streamName: 'events',
+                    durableName: 'ai-triage',
+                    subjects: ['vitals.recorded'],
+                },
+            );
+
+            const mockMsg = new MockMsg({
+                patient_id: '123e4567-e89b-12d3-a456-426614174001',
+                heart_rate: 80,
+                timestamp: '2024-01-01T12:00:00Z',
+            });
+
+            await (consumer as any).handle(mockMsg);
+
+            expect(mockMsg.ackCalled).toBe(false);
+            expect(mockMsg.nakCalled).toBe(true);
         });
     });
 });
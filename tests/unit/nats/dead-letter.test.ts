@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { headers } from 'nats';
+import {
+    DEAD_LETTER_HEADERS,
+    DeadLetterQueue,
+    listDeadLetters,
+    readDeadLetterEntry,
+    replayDeadLetters,
+} from '../../../dist/nats/dead-letter.js';
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+function consumedMsg(data: unknown) {
+    const bytes = encode(data);
+    return {
+        subject: 'vitals.recorded',
+        seq: 42,
+        data: bytes,
+        info: { redeliveryCount: 1 },
+        json: () => JSON.parse(new TextDecoder().decode(bytes)),
+    };
+}
+
+describe('DeadLetterQueue', () => {
+    let publish: ReturnType<typeof vi.fn>;
+    let queue: DeadLetterQueue;
+
+    beforeEach(() => {
+        publish = vi.fn(() => Promise.resolve({ seq: 1 }));
+        const natsClient = { getConnection: () => ({ jetstream: () => ({ publish }) }) };
+        queue = new DeadLetterQueue(natsClient as any, 'events', 'triage.dlq.vitals');
+    });
+
+    it('should republish the message unchanged with failure headers', async () => {
+        const msg = consumedMsg({ patient_id: 'patient-1', heart_rate: 'fast' });
+
+        expect(await queue.publish(msg, 'validation', 'data/heart_rate must be integer\nand more')).toBe(true);
+
+        const [subject, data, options] = publish.mock.calls[0];
+        expect(subject).toBe('triage.dlq.vitals');
+        expect(data).toBe(msg.data);
+        expect(options.headers.get(DEAD_LETTER_HEADERS.stage)).toBe('validation');
+        expect(options.headers.get(DEAD_LETTER_HEADERS.reason)).toBe('data/heart_rate must be integer and more');
+        expect(options.headers.get(DEAD_LETTER_HEADERS.subject)).toBe('vitals.recorded');
+        expect(options.headers.get(DEAD_LETTER_HEADERS.sequence)).toBe('42');
+        expect(options.headers.get(DEAD_LETTER_HEADERS.deliveries)).toBe('1');
+
+        expect(queue.getStats()).toMatchObject({
+            subject: 'triage.dlq.vitals',
+            by_stage: { parse: 0, validation: 1, max_deliver: 0 },
+        });
+    });
+
+    it('should report a failed publish without counting it', async () => {
+        publish.mockImplementation(() => Promise.reject(new Error('no responders')));
+
+        expect(await queue.publish(consumedMsg({}), 'parse', 'Unexpected token')).toBe(false);
+        expect(queue.getStats().by_stage.parse).toBe(0);
+    });
+});
+
+describe('replayDeadLetters', () => {
+    function deadLetter(seq: number, stage: string, pending: number) {
+        const hdrs = headers();
+        hdrs.set(DEAD_LETTER_HEADERS.stage, stage);
+        hdrs.set(DEAD_LETTER_HEADERS.reason, 'failed');
+        hdrs.set(DEAD_LETTER_HEADERS.subject, 'vitals.recorded.3');
+        const data = encode({ patient_id: `patient-${seq}` });
+        return { seq, data, headers: hdrs, info: { pending }, json: () => JSON.parse(new TextDecoder().decode(data)) };
+    }
+
+    let js: any;
+
+    beforeEach(() => {
+        const messages = [deadLetter(10, 'validation', 2), deadLetter(11, 'parse', 1), deadLetter(12, 'validation', 0)];
+        js = {
+            publish: vi.fn(() => Promise.resolve({ seq: 1 })),
+            consumers: {
+                get: vi.fn(async () => ({ next: async () => messages.shift() ?? null })),
+            },
+        };
+    });
+
+    const options = {
+        stream: 'events',
+        subject: 'triage.dlq.vitals',
+        fallbackSubject: 'vitals.recorded',
+    };
+
+    it('should replay entries of the chosen stage to their original subject', async () => {
+        const result = await replayDeadLetters(js, { ...options, stage: 'validation', fromSeq: 10 });
+
+        expect(result).toEqual({ replayed: 2, skipped: 1, lastSeq: 12 });
+        expect(js.consumers.get).toHaveBeenCalledWith('events', expect.objectContaining({
+            filterSubjects: ['triage.dlq.vitals'],
+            opt_start_seq: 10,
+        }));
+        expect(js.publish).toHaveBeenCalledTimes(2);
+        expect(js.publish).toHaveBeenCalledWith('vitals.recorded.3', expect.any(Uint8Array), { msgID: 'dlq-replay:10' });
+    });
+
+    it('should only list entries on a dry run', async () => {
+        const listed: number[] = [];
+        const result = await replayDeadLetters(js, { ...options, dryRun: true, limit: 2 }, (_entry, seq) => {
+            listed.push(seq);
+        });
+
+        expect(result).toEqual({ replayed: 2, skipped: 0, lastSeq: 11 });
+        expect(listed).toEqual([10, 11]);
+        expect(js.publish).not.toHaveBeenCalled();
+    });
+
+    it('should read the failure back from the headers', () => {
+        expect(readDeadLetterEntry(deadLetter(10, 'parse', 0))).toMatchObject({
+            stage: 'parse',
+            reason: 'failed',
+            original_subject: 'vitals.recorded.3',
+            patient_id: 'patient-10',
+        });
+    });
+});
+
+describe('listDeadLetters', () => {
+    /** A stream whose dead-letter subject holds these sequences, recording what consumers deliver */
+    function streamWith(seqs: number[]) {
+        const delivered: number[] = [];
+        const js = {
+            streams: {
+                get: vi.fn(async () => ({
+                    getMessage: async () => {
+                        if (seqs.length === 0) {
+                            throw Object.assign(new Error('no message found'), { api_error: { err_code: 10037 } });
+                        }
+                        return { seq: seqs[seqs.length - 1] };
+                    },
+                })),
+            },
+            consumers: {
+                get: vi.fn(async (_stream: string, options: any) => {
+                    const remaining = seqs.filter((seq) => seq >= options.opt_start_seq);
+                    return {
+                        next: async () => {
+                            const seq = remaining.shift();
+                            if (seq === undefined) {
+                                return null;
+                            }
+                            delivered.push(seq);
+                            const hdrs = headers();
+                            hdrs.set(DEAD_LETTER_HEADERS.stage, 'parse');
+                            return { seq, data: encode({}), headers: hdrs, info: { pending: remaining.length } };
+                        },
+                    };
+                }),
+            },
+        };
+        return { js, delivered };
+    }
+
+    it('should read only the latest entries, newest first', async () => {
+        const { js, delivered } = streamWith([3, 7, 12, 20, 21]);
+
+        const entries = await listDeadLetters(js, 'events', 'triage.dlq.vitals', 3);
+
+        expect(entries.map((entry) => entry.seq)).toEqual([21, 20, 12]);
+        expect(delivered).not.toContain(3);
+        expect(delivered).not.toContain(7);
+        expect(js.consumers.get).toHaveBeenCalledWith('events', expect.objectContaining({
+            filterSubjects: ['triage.dlq.vitals'],
+        }));
+    });
+
+    it('should list every entry of a subject shorter than the limit', async () => {
+        const { js } = streamWith([3, 7]);
+
+        expect((await listDeadLetters(js, 'events', 'triage.dlq.vitals', 5)).map((entry) => entry.seq)).toEqual([7, 3]);
+    });
+
+    it('should return straight away for an empty subject', async () => {
+        const { js } = streamWith([]);
+
+        expect(await listDeadLetters(js, 'events', 'triage.dlq.vitals')).toEqual([]);
+        expect(js.consumers.get).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KvStateStore } from '../../../dist/nats/kv-state-store.js';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import type { StateBucket } from '../../../dist/nats/kv-state-store.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+/**
+ * In-memory stand-in for a JetStream KV bucket with per-key revisions
+ */
+class FakeBucket {
+    entries = new Map<string, { value: Uint8Array; revision: number; operation: 'PUT' | 'DEL'; created: Date }>();
+    writes = 0;
+    private sequence = 0;
+
+    async get(key: string) {
+        const entry = this.entries.get(key);
+        return entry ? { key, ...entry } : null;
+    }
+
+    async create(key: string, value: Uint8Array) {
+        if (this.entries.get(key)?.operation === 'PUT') {
+            throw wrongLastSequence();
+        }
+        return this.put(key, value);
+    }
+
+    async update(key: string, value: Uint8Array, revision: number) {
+        if (this.entries.get(key)?.revision !== revision) {
+            throw wrongLastSequence();
+        }
+        return this.put(key, value);
+    }
+
+    async delete(key: string) {
+        this.entries.set(key, { value: new Uint8Array(), revision: ++this.sequence, operation: 'DEL', created: new Date() });
+    }
+
+    async keys() {
+        const live = [...this.entries].filter(([, entry]) => entry.operation === 'PUT').map(([key]) => key);
+        return (async function* () {
+            yield* live;
+        })();
+    }
+
+    put(key: string, value: Uint8Array) {
+        this.writes++;
+        this.entries.set(key, { value, revision: ++this.sequence, operation: 'PUT', created: new Date() });
+        return this.sequence;
+    }
+
+    json(key: string) {
+        return JSON.parse(new TextDecoder().decode(this.entries.get(key)!.value));
+    }
+}
+
+function wrongLastSequence() {
+    return Object.assign(new Error('wrong last sequence'), { api_error: { err_code: 10071 } });
+}
+
+describe('KvStateStore', () => {
+    const rules: RulesConfig = { heart_rate: { high_threshold: 120, persist_samples: 2 } };
+    const reading = (heartRate: number, seconds: number): VitalsData => ({
+        patient_id: 'kv-patient-1',
+        heart_rate: heartRate,
+        oxygen_saturation: 97,
+        timestamp: new Date(Date.parse('2025-01-01T00:00:00Z') + seconds * 1000).toISOString(),
+    });
+
+    let bucket: FakeBucket;
+
+    const openStore = async () => {
+        const store = new KvStateStore(bucket as unknown as StateBucket, 1000);
+        await store.load();
+        return store;
+    };
+
+    beforeEach(() => {
+        bucket = new FakeBucket();
+    });
+
+    it('should write changed states behind, once per flush', async () => {
+        const store = await openStore();
+        const engine = new RulesEngine(rules, 600000, 'v1', undefined, undefined, undefined, store);
+
+        engine.evaluate(reading(125, 0));
+        engine.evaluate(reading(80, 30));
+        expect(bucket.writes).toBe(0);
+        expect(store.stats()).toMatchObject({ type: 'kv', pending_writes: 1 });
+
+        await store.flush();
+        expect(bucket.writes).toBe(1);
+        expect(bucket.json('kv-patient-1')).toMatchObject({ patientId: 'kv-patient-1' });
+        expect(store.stats().pending_writes).toBe(0);
+    });
+
+    it('should resume persistence counters after a restart', async () => {
+        const before = await openStore();
+        new RulesEngine(rules, 600000, 'v1', undefined, undefined, undefined, before).evaluate(reading(125, 0));
+        await before.flush();
+
+        const after = await openStore();
+        const engine = new RulesEngine(rules, 600000, 'v1', undefined, undefined, undefined, after);
+
+        expect(engine.getTrackedPatientsCount()).toBe(1);
+        expect(engine.evaluate(reading(126, 30)).shouldAlert).toBe(true);
+    });
+
+    it('should report from when the restored states may be missing changes', async () => {
+        expect((await openStore()).unflushedSince()).toBeUndefined();
+
+        const before = await openStore();
+        new RulesEngine(rules, 600000, 'v1', undefined, undefined, undefined, before).evaluate(reading(125, 0));
+        await before.flush();
+        const written = bucket.entries.get('kv-patient-1')!.created.getTime();
+
+        expect((await openStore()).unflushedSince()).toEqual(new Date(written - 1000));
+    });
+
+    it('should keep the other writer\'s state when a write loses a revision race', async () => {
+        const previous = await openStore();
+        const previousEngine = new RulesEngine(rules, 600000, 'v1', undefined, undefined, undefined, previous);
+        previousEngine.evaluate(reading(125, 0));
+        await previous.flush();
+
+        // The patient's partition moves to another instance, which writes first
+        const owner = await openStore();
+        const ownerEngine = new RulesEngine(rules, 600000, 'v1', undefined, undefined, undefined, owner);
+        ownerEngine.evaluate(reading(80, 30));
+        await owner.flush();
+
+        // The previous owner handles one more reading before it releases the partition
+        previousEngine.evaluate(reading(126, 30));
+        await previous.flush();
+
+        expect(previous.stats()).toMatchObject({ conflicts: 1, pending_writes: 0, write_failures: 0 });
+        expect(bucket.json('kv-patient-1').violations.heart_rate_high.count).toBe(0);
+        expect(previous.get('kv-patient-1')!.violations.heart_rate_high.count).toBe(0);
+    });
+
+    it('should delete evicted states from the bucket', async () => {
+        const store = await openStore();
+        store.set({
+            patientId: 'kv-patient-2',
+            violations: {},
+            history: [],
+            alerted: {},
+            episodes: {},
+            acknowledgements: {},
+            baselines: {},
+            lastUpdated: Date.now(),
+        });
+        await store.flush();
+
+        store.delete('kv-patient-2');
+        await store.flush();
+
+        expect(bucket.entries.get('kv-patient-2')!.operation).toBe('DEL');
+        expect((await openStore()).size()).toBe(0);
+    });
+});
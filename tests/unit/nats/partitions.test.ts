@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { assignPartitions, parsePartitions, partitionOf, partitionSubject } from '../../../dist/nats/partitions.js';
+import { PartitionCoordinator } from '../../../dist/nats/partition-coordinator.js';
+import { InstanceMembership } from '../../../dist/nats/membership.js';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import type { MembershipBucket } from '../../../dist/nats/membership.js';
+import type { PartitionConsumer } from '../../../dist/nats/partition-coordinator.js';
+
+describe('partitions', () => {
+    it('should map a patient to the same partition every time', () => {
+        const partition = partitionOf('patient-42', 8);
+
+        expect(partitionOf('patient-42', 8)).toBe(partition);
+        expect(partition).toBeGreaterThanOrEqual(0);
+        expect(partition).toBeLessThan(8);
+        expect(partitionSubject('vitals.recorded', partition)).toBe(`vitals.recorded.${partition}`);
+    });
+
+    it('should spread patients over every partition', () => {
+        const used = new Set(Array.from({ length: 200 }, (_, i) => partitionOf(`patient-${i}`, 8)));
+        expect(used.size).toBe(8);
+    });
+
+    it('should parse partition lists and ranges', () => {
+        expect(parsePartitions('', 8)).toEqual([]);
+        expect(parsePartitions('0,2, 5-7', 8)).toEqual([0, 2, 5, 6, 7]);
+        expect(() => parsePartitions('8', 8)).toThrow();
+        expect(() => parsePartitions('3-1', 8)).toThrow();
+        expect(() => parsePartitions('a', 8)).toThrow();
+    });
+
+    it('should give every partition to exactly one member', () => {
+        const members = ['triage-a', 'triage-b', 'triage-c'];
+        const assigned = members.flatMap((member) => assignPartitions(16, members, member));
+
+        expect(assigned.sort((a, b) => a - b)).toEqual(Array.from({ length: 16 }, (_, i) => i));
+    });
+
+    it('should only move partitions to a member that joins', () => {
+        const before = assignPartitions(16, ['triage-a', 'triage-b'], 'triage-a');
+        const after = assignPartitions(16, ['triage-a', 'triage-b', 'triage-c'], 'triage-a');
+        const joined = assignPartitions(16, ['triage-a', 'triage-b', 'triage-c'], 'triage-c');
+
+        expect(before).toEqual(expect.arrayContaining(after));
+        expect(before.filter((partition) => !after.includes(partition)).every((p) => joined.includes(p))).toBe(true);
+    });
+});
+
+/**
+ * In-memory stand-in for the membership KV bucket
+ */
+class FakeMembershipBucket {
+    keySet = new Set<string>();
+
+    async put(key: string) {
+        this.keySet.add(key);
+        return 1;
+    }
+
+    async delete(key: string) {
+        this.keySet.delete(key);
+    }
+
+    async keys() {
+        const keys = [...this.keySet];
+        return (async function* () {
+            yield* keys;
+        })();
+    }
+}
+
+class FakeConsumer implements PartitionConsumer {
+    running = false;
+
+    async start() {
+        this.running = true;
+    }
+
+    async stop() {
+        this.running = false;
+    }
+}
+
+describe('PartitionCoordinator', () => {
+    let bucket: FakeMembershipBucket;
+    let consumers: Map<number, FakeConsumer>;
+
+    const createConsumer = (partition: number) => {
+        const consumer = new FakeConsumer();
+        consumers.set(partition, consumer);
+        return consumer;
+    };
+    const running = () => [...consumers].filter(([, c]) => c.running).map(([p]) => p).sort((a, b) => a - b);
+
+    beforeEach(() => {
+        bucket = new FakeMembershipBucket();
+        consumers = new Map();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should consume a fixed list of partitions without membership', async () => {
+        const coordinator = new PartitionCoordinator(createConsumer, [], {
+            count: 4,
+            partitions: [1, 3],
+            rebalanceIntervalMs: 1000,
+        });
+
+        await coordinator.start();
+        expect(running()).toEqual([1, 3]);
+        expect(coordinator.getAssignment()).toEqual({ instance_id: undefined, partition_count: 4, partitions: [1, 3] });
+
+        await coordinator.stop();
+        expect(running()).toEqual([]);
+    });
+
+    it('should restart a failed partition consumer after a backoff', async () => {
+        vi.useFakeTimers();
+        let starts = 0;
+        const coordinator = new PartitionCoordinator((partition) => {
+            const consumer = createConsumer(partition);
+            consumer.start = async () => {
+                starts++;
+                if (starts === 1) {
+                    throw new Error('consumer not found');
+                }
+                consumer.running = true;
+            };
+            return consumer;
+        }, [], {
+            count: 4,
+            partitions: [2],
+            rebalanceIntervalMs: 1000,
+        });
+
+        await coordinator.start();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(running()).toEqual([]);
+        expect(coordinator.getAssignment().partitions).toEqual([2]);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(starts).toBe(2);
+        expect(running()).toEqual([2]);
+
+        await coordinator.stop();
+        expect(running()).toEqual([]);
+    });
+
+    it('should hand partitions to an instance that joins and drop its patients', async () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120, persist_samples: 3 } }, 600000, 'v1');
+        const membership = new InstanceMembership(bucket as unknown as MembershipBucket, 'triage-a');
+        const coordinator = new PartitionCoordinator(createConsumer, [engine], {
+            count: 8,
+            partitions: [],
+            rebalanceIntervalMs: 60000,
+        }, membership);
+
+        await coordinator.start();
+        expect(running()).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+
+        const patients = Array.from({ length: 20 }, (_, i) => `patient-${i}`);
+        for (const patientId of patients) {
+            engine.evaluate({ patient_id: patientId, heart_rate: 125, timestamp: '2025-01-01T00:00:00Z' });
+        }
+
+        await bucket.put('triage-b');
+        await coordinator.rebalance();
+
+        const owned = assignPartitions(8, ['triage-a', 'triage-b'], 'triage-a');
+        expect(running()).toEqual(owned);
+        expect(coordinator.getAssignment()).toMatchObject({
+            instance_id: 'triage-a',
+            partitions: owned,
+            members: ['triage-a', 'triage-b'],
+        });
+        expect(engine.getTrackedPatientsCount())
+            .toBe(patients.filter((patientId) => owned.includes(partitionOf(patientId, 8))).length);
+
+        await coordinator.stop();
+        expect([...bucket.keySet]).toEqual(['triage-b']);
+    });
+});
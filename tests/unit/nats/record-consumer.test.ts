@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { consumeRecords } from '../../../dist/nats/record-consumer.js';
+
+describe('consumeRecords', () => {
+    const message = (data: any) => ({
+        subject: 'patient.thresholds.updated',
+        json: () => {
+            if (data instanceof Error) {
+                throw data;
+            }
+            return data;
+        },
+    });
+
+    const consume = (messages: any[], apply: (record: any) => void) => {
+        const js = { consumers: { get: vi.fn(async () => ({ consume: async () => messages })) } };
+        return consumeRecords(js, 'events', { filterSubjects: 'patient.thresholds.updated' }, 'Record', apply);
+    };
+
+    it('should unwrap envelopes and skip messages whose record is not an object', async () => {
+        const apply = vi.fn();
+        const record = { patient_id: 'patient-1' };
+
+        await consume([
+            message(new SyntaxError('Unexpected token')),
+            message(null),
+            message({ payload: 42 }),
+            message([]),
+            message({ payload: record }),
+            message(record),
+        ], apply);
+
+        expect(apply.mock.calls.map(([applied]) => applied)).toEqual([record, record]);
+    });
+
+    it('should keep consuming after a record fails to apply', async () => {
+        const apply = vi.fn()
+            .mockImplementationOnce(() => {
+                throw new Error('Apply failed');
+            });
+
+        await consume([message({ patient_id: 'patient-1' }), message({ patient_id: 'patient-2' })], apply);
+
+        expect(apply).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ReorderBuffer } from '../../../dist/nats/reorder-buffer.js';
+
+describe('ReorderBuffer', () => {
+    let released: { key: string; items: string[] }[];
+    let buffer: ReorderBuffer<string>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        released = [];
+        buffer = new ReorderBuffer(2000, (key, items) => released.push({ key, items }));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should release a patient\'s held readings in reading time order after the delay', () => {
+        buffer.hold('patient-1', 3000, 'c');
+        buffer.hold('patient-1', 1000, 'a');
+        buffer.hold('patient-2', 5000, 'x');
+        buffer.hold('patient-1', 2000, 'b');
+        expect(buffer.size()).toBe(4);
+
+        vi.advanceTimersByTime(1999);
+        expect(released).toEqual([]);
+
+        vi.advanceTimersByTime(1);
+        expect(released).toEqual([
+            { key: 'patient-1', items: ['a', 'b', 'c'] },
+            { key: 'patient-2', items: ['x'] },
+        ]);
+        expect(buffer.size()).toBe(0);
+    });
+
+    it('should release everything held on flushAll', () => {
+        buffer.hold('patient-1', 2000, 'b');
+        buffer.hold('patient-1', 2000, 'c');
+        buffer.hold('patient-1', 1000, 'a');
+        buffer.flushAll();
+
+        expect(released).toEqual([{ key: 'patient-1', items: ['a', 'b', 'c'] }]);
+
+        vi.advanceTimersByTime(2000);
+        expect(released).toHaveLength(1);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ShadowRunner, triageDecision } from '../../../dist/nats/shadow.js';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('ShadowRunner', () => {
+    const live: RulesConfig = { spo2: { low_threshold: 90 }, heart_rate: { high_threshold: 120 } };
+    const candidate: RulesConfig = {
+        spo2: { low_threshold: 92 },
+        heart_rate: { high_threshold: 130 },
+        rules: [{
+            id: 'hr-very-high',
+            code: 'HEART_RATE_VERY_HIGH',
+            fields: ['heart_rate'],
+            condition: { field: 'heart_rate', op: 'gt', value: 130 },
+            severity: 'high',
+            suggested_action: 'Escalate',
+        }],
+    };
+
+    let offset = 0;
+    const reading = (vitals: Partial<VitalsData>): VitalsData => ({
+        patient_id: '123e4567-e89b-12d3-a456-426614174001',
+        heart_rate: 80,
+        oxygen_saturation: 97,
+        timestamp: new Date(Date.parse('2025-01-01T00:00:00Z') + (offset += 1000)).toISOString(),
+        ...vitals,
+    });
+
+    let liveEngine: RulesEngine;
+    let mockPublisher: any;
+    let runner: ShadowRunner;
+
+    const observe = (vitals: VitalsData) => runner.observe(vitals, triageDecision(liveEngine.evaluate(vitals)));
+
+    beforeEach(() => {
+        liveEngine = new RulesEngine(live, 600000, 'live-v1');
+        mockPublisher = { publishShadowDiff: vi.fn(() => Promise.resolve(true)) };
+        runner = new ShadowRunner(new RulesEngine(candidate, 600000, 'shadow-v2'), mockPublisher, 10000);
+    });
+
+    it('should count agreement without publishing', async () => {
+        expect(await observe(reading({}))).toBeUndefined();
+
+        expect(mockPublisher.publishShadowDiff).not.toHaveBeenCalled();
+        expect(runner.getSummary()).toMatchObject({ evaluated: 1, agreed: 1, only_live: 0, only_shadow: 0 });
+    });
+
+    it('should publish alerts raised by only one of the engines', async () => {
+        const onlyShadow = await observe(reading({ oxygen_saturation: 91 }));
+        const onlyLive = await observe(reading({ heart_rate: 125 }));
+
+        expect(onlyShadow).toMatchObject({
+            kind: 'only_shadow',
+            live: { alert: false, rulesVersion: 'live-v1' },
+            shadow: { alert: true, reasonCodes: ['SPO2_LOW'], rulesVersion: 'shadow-v2' },
+        });
+        expect(onlyLive!.kind).toBe('only_live');
+        expect(mockPublisher.publishShadowDiff).toHaveBeenCalledTimes(2);
+    });
+
+    it('should summarize severity disagreements by live and shadow severity', async () => {
+        await observe(reading({ heart_rate: 135 }));
+
+        const summary = runner.getSummary();
+        expect(summary.severity_disagreements).toBe(1);
+        expect(summary.severity_pairs).toEqual({ 'medium->high': 1 });
+        expect(summary.recent[0]).toMatchObject({
+            kind: 'severity',
+            live: { alert: true, severity: 'medium', reason_codes: ['HEART_RATE_HIGH'] },
+            shadow: { alert: true, severity: 'high', reason_codes: ['HEART_RATE_HIGH', 'HEART_RATE_VERY_HIGH'] },
+        });
+    });
+
+    it('should keep its own cooldowns, independent of live publishing', async () => {
+        const shadowEngine = new RulesEngine(
+            { ...candidate, alerting: { cooldown_ms: 60000 } },
+            600000,
+            'shadow-v3',
+        );
+        runner = new ShadowRunner(shadowEngine, mockPublisher, 10000);
+
+        // The shadow's first alert is recorded, so the repeat falls in its cooldown
+        expect((await observe(reading({ oxygen_saturation: 91 })))!.kind).toBe('only_shadow');
+        expect(await observe(reading({ oxygen_saturation: 91 }))).toBeUndefined();
+    });
+});
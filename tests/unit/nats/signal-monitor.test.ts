@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SignalLossMonitor } from '../../../dist/nats/signal-monitor.js';
+import { Metrics } from '../../../dist/metrics/counter.js';
+
+describe('SignalLossMonitor', () => {
+    const loss = {
+        patientId: '123e4567-e89b-12d3-a456-426614174001',
+        lastSeenAt: 0,
+        lastReadingAt: 0,
+        silentMs: 60000,
+        thresholdMs: 60000,
+    };
+
+    let mockRulesEngine: any;
+    let mockPublisher: any;
+    let metrics: Metrics;
+    let monitor: SignalLossMonitor;
+
+    beforeEach(() => {
+        metrics = new Metrics();
+
+        mockRulesEngine = {
+            findSignalLosses: vi.fn(() => [loss]),
+            recordSignalLost: vi.fn(),
+            getRulesVersion: vi.fn(() => 'abc123'),
+        };
+
+        mockPublisher = {
+            publishSignalLost: vi.fn(() => Promise.resolve('123e4567-e89b-12d3-a456-426614174010')),
+        };
+
+        monitor = new SignalLossMonitor(mockRulesEngine, mockPublisher, metrics, 10000);
+    });
+
+    it('should publish each loss and mark it reported', async () => {
+        await monitor.check(60000);
+
+        expect(mockPublisher.publishSignalLost).toHaveBeenCalledWith(loss, 'abc123');
+        expect(mockRulesEngine.recordSignalLost).toHaveBeenCalledWith(
+            loss.patientId,
+            '123e4567-e89b-12d3-a456-426614174010',
+            60000,
+        );
+        expect(metrics.getCounters().signal_lost).toBe(1);
+    });
+
+    it('should leave a loss unreported when the publish fails', async () => {
+        mockPublisher.publishSignalLost = vi.fn(() => Promise.resolve(undefined));
+
+        await monitor.check(60000);
+
+        expect(mockRulesEngine.recordSignalLost).not.toHaveBeenCalled();
+        expect(metrics.getCounters().signal_lost).toBe(0);
+    });
+});
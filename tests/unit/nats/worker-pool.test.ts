@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { WorkerPool } from '../../../dist/nats/worker-pool.js';
+import { partitionOf } from '../../../dist/nats/partitions.js';
+
+/**
+ * A task that runs until released, recording when it starts and ends
+ */
+function gate(log: string[], name: string) {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+        release = resolve;
+    });
+
+    return {
+        release,
+        run: async () => {
+            log.push(`start ${name}`);
+            await released;
+            log.push(`end ${name}`);
+        },
+    };
+}
+
+describe('WorkerPool', () => {
+    it('should keep one key in order while another key runs in parallel', async () => {
+        const pool = new WorkerPool(4, 100);
+        const log: string[] = [];
+        const first = gate(log, 'a1');
+        const second = gate(log, 'a2');
+        const other = gate(log, 'b1');
+
+        // 'patient-a' and 'patient-b' hash to different workers with 4 workers
+        const a1 = await pool.dispatch('patient-a', first.run);
+        const a2 = await pool.dispatch('patient-a', second.run);
+        const b1 = await pool.dispatch('patient-b', other.run);
+
+        other.release();
+        await b1.done;
+        expect(log).toEqual(['start a1', 'start b1', 'end b1']);
+
+        second.release();
+        first.release();
+        await Promise.all([a1.done, a2.done]);
+        expect(log.slice(3)).toEqual(['end a1', 'start a2', 'end a2']);
+    });
+
+    it('should spread the patients of a few partitions over every worker', async () => {
+        const pool = new WorkerPool(4, 1000);
+        const patients = Array.from({ length: 400 }, (_, i) => `patient-${i}`)
+            .filter((patientId) => [1, 5].includes(partitionOf(patientId, 8)));
+
+        const handled = await Promise.all(
+            patients.map((patientId) => pool.dispatch(patientId, async () => { })),
+        );
+        await Promise.all(handled.map(({ done }) => done));
+
+        const processed = pool.stats().map((stats) => stats.processed);
+        expect(processed.every((count) => count > patients.length / 8)).toBe(true);
+    });
+
+    it('should wait for a free slot once max in flight is reached', async () => {
+        const pool = new WorkerPool(2, 2);
+        const log: string[] = [];
+        const tasks = [gate(log, '1'), gate(log, '2'), gate(log, '3')];
+
+        await pool.dispatch('patient-1', tasks[0].run);
+        await pool.dispatch('patient-2', tasks[1].run);
+
+        let queued = false;
+        const third = pool.dispatch('patient-3', tasks[2].run).then((result) => {
+            queued = true;
+            return result;
+        });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(queued).toBe(false);
+
+        tasks[0].release();
+        const { done } = await third;
+        expect(queued).toBe(true);
+
+        tasks[1].release();
+        tasks[2].release();
+        await done;
+    });
+
+    it('should keep a worker going after a task throws', async () => {
+        const pool = new WorkerPool(1, 10);
+        const log: string[] = [];
+
+        await pool.dispatch('patient-1', async () => {
+            throw new Error('boom');
+        });
+        const { done } = await pool.dispatch('patient-1', async () => {
+            log.push('after');
+        });
+        await done;
+
+        expect(log).toEqual(['after']);
+    });
+
+    it('should report queue depth, processed count and latency per worker', async () => {
+        const pool = new WorkerPool(2, 10);
+        const log: string[] = [];
+        const blocked = gate(log, '1');
+
+        await pool.dispatch('patient-1', blocked.run);
+        const { done } = await pool.dispatch('patient-1', async () => { });
+
+        const busy = pool.stats().find((stats) => stats.queue_depth > 0)!;
+        expect(busy.queue_depth).toBe(2);
+        expect(pool.stats()).toHaveLength(2);
+
+        blocked.release();
+        await done;
+
+        const stats = pool.stats().find((worker) => worker.worker === busy.worker)!;
+        expect(stats).toMatchObject({ queue_depth: 0, processed: 2 });
+        expect(stats.latency_ms.max).toBeGreaterThanOrEqual(stats.latency_ms.avg);
+    });
+});
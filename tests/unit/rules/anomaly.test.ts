@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('Baseline anomaly detection', () => {
+    const rules: RulesConfig = {
+        anomaly: { fields: ['heart_rate'], warmup_samples: 5, k: 3 },
+    };
+
+    const start = Date.parse('2025-01-01T00:00:00Z');
+    let offset = 0;
+    const reading = (heartRate: number, patientId = 'patient-1'): VitalsData => ({
+        patient_id: patientId,
+        heart_rate: heartRate,
+        oxygen_saturation: 97,
+        timestamp: new Date(start + (offset += 60000)).toISOString(),
+    });
+
+    const warmUp = (engine: RulesEngine, patientId?: string) => {
+        for (const heartRate of [60, 62, 58, 61, 59]) {
+            expect(engine.evaluate(reading(heartRate, patientId)).shouldAlert).toBe(false);
+        }
+    };
+
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        offset = 0;
+        engine = new RulesEngine(rules, 600000);
+    });
+
+    it('should learn the baseline before flagging anything', () => {
+        engine.evaluate(reading(60));
+        expect(engine.evaluate(reading(90)).shouldAlert).toBe(false);
+
+        expect(engine.getBaselines('patient-1')).toEqual([
+            expect.objectContaining({ field: 'heart_rate', samples: 2, learnt: false, mean: 75 }),
+        ]);
+    });
+
+    it('should flag a deviation beyond k standard deviations of the patient\'s baseline', () => {
+        warmUp(engine);
+
+        const result = engine.evaluate(reading(75));
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.severity).toBe('low');
+        expect(result.reasons).toEqual([
+            {
+                code: 'HEART_RATE_ANOMALY',
+                message: 'Heart rate 75 deviates 7.5 SD from baseline 60.0 ± 2.0',
+                evidence: {
+                    source: 'anomaly',
+                    observed: { heart_rate: 75 },
+                    baseline: { mean: 60, std: 2 },
+                    severity: 'low',
+                },
+            },
+        ]);
+    });
+
+    it('should keep anomalous readings out of the baseline', () => {
+        warmUp(engine);
+        engine.evaluate(reading(75));
+        engine.evaluate(reading(76));
+
+        const [baseline] = engine.getBaselines('patient-1')!;
+        expect(baseline).toMatchObject({ samples: 5, learnt: true, mean: 60, streak: 2 });
+    });
+
+    it('should follow normal readings once learnt', () => {
+        warmUp(engine);
+        engine.evaluate(reading(64));
+
+        const [baseline] = engine.getBaselines('patient-1')!;
+        expect(baseline.samples).toBe(6);
+        expect(baseline.mean).toBeCloseTo(60.2);
+    });
+
+    it('should require persist_samples consecutive deviations', () => {
+        const persistent = new RulesEngine({ anomaly: { ...rules.anomaly, persist_samples: 2 } }, 600000);
+        warmUp(persistent);
+
+        expect(persistent.evaluate(reading(75)).shouldAlert).toBe(false);
+        expect(persistent.evaluate(reading(75)).reasons?.[0].code).toBe('HEART_RATE_ANOMALY');
+    });
+
+    it('should resolve the episode once the vital is back near baseline', () => {
+        warmUp(engine);
+        const alert = engine.evaluate(reading(75));
+        engine.recordAlert(reading(75), alert, 'alert-1');
+
+        const result = engine.evaluate(reading(61));
+        expect(result.resolved).toEqual([
+            expect.objectContaining({ code: 'HEART_RATE_ANOMALY', alertEventId: 'alert-1' }),
+        ]);
+    });
+
+    it('should take severity and action from the severity table', () => {
+        const tabled = new RulesEngine(
+            {
+                ...rules,
+                severity_table: {
+                    HEART_RATE_ANOMALY: { severity: 'medium', suggested_action: 'Review trend with the nurse in charge.' },
+                },
+            },
+            600000,
+        );
+        warmUp(tabled);
+
+        const result = tabled.evaluate(reading(75));
+        expect(result.severity).toBe('medium');
+        expect(result.suggestedAction).toBe('Review trend with the nurse in charge.');
+    });
+
+    it('should not learn baselines when the section is absent', () => {
+        const plain = new RulesEngine({ heart_rate: { high_threshold: 120 } }, 600000);
+        plain.evaluate(reading(60));
+
+        expect(plain.getBaselines('patient-1')).toEqual([]);
+        expect(plain.getBaselines('unknown')).toBeUndefined();
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import { validateRules } from '../../../dist/rules/validation.js';
+import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('Sensor artifact filter', () => {
+    const rules: RulesConfig = {
+        spo2: { low_threshold: 90, persist_samples: 1 },
+        artifacts: {
+            limits: { heart_rate: [20, 250], oxygen_saturation: [50, 100] },
+            max_jump: { heart_rate: { value: 40, within_ms: 10000 } },
+            min_signal_quality: 50,
+            min_perfusion_index: 0.3,
+        },
+    };
+
+    const start = Date.parse('2025-01-01T00:00:00Z');
+    const reading = (offsetMs: number, vitals: Partial<VitalsData> = {}): VitalsData => ({
+        patient_id: 'patient-1',
+        heart_rate: 80,
+        oxygen_saturation: 97,
+        timestamp: new Date(start + offsetMs).toISOString(),
+        ...vitals,
+    });
+
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        engine = new RulesEngine(rules, 600000);
+    });
+
+    it('should accept plausible readings', () => {
+        expect(engine.checkArtifacts(reading(0))).toEqual({ artifact: false, reasons: [] });
+    });
+
+    it('should reject values outside the plausibility limits', () => {
+        const check = engine.checkArtifacts(reading(0, { heart_rate: 0, oxygen_saturation: 40 }));
+
+        expect(check.artifact).toBe(true);
+        expect(check.reasons.map((reason) => [reason.code, reason.field])).toEqual([
+            ['IMPLAUSIBLE_VALUE', 'heart_rate'],
+            ['IMPLAUSIBLE_VALUE', 'oxygen_saturation'],
+        ]);
+    });
+
+    it('should reject low signal quality and perfusion', () => {
+        const check = engine.checkArtifacts(reading(0, { signal_quality: 20, perfusion_index: 0.1 }));
+
+        expect(check.reasons.map((reason) => reason.code)).toEqual(['LOW_SIGNAL_QUALITY', 'LOW_PERFUSION']);
+    });
+
+    it('should reject a single-sample jump and keep the earlier baseline', () => {
+        engine.checkArtifacts(reading(0));
+
+        const spike = engine.checkArtifacts(reading(1000, { heart_rate: 200 }));
+        expect(spike.reasons).toEqual([
+            { code: 'IMPLAUSIBLE_JUMP', field: 'heart_rate', value: 200, message: 'heart_rate changed by 120 from 80, more than 40' },
+        ]);
+
+        expect(engine.checkArtifacts(reading(2000, { heart_rate: 85 })).artifact).toBe(false);
+    });
+
+    it('should accept a jump confirmed by the next reading', () => {
+        engine.checkArtifacts(reading(0));
+
+        expect(engine.checkArtifacts(reading(1000, { heart_rate: 150 })).artifact).toBe(true);
+        expect(engine.checkArtifacts(reading(2000, { heart_rate: 148 })).artifact).toBe(false);
+        expect(engine.checkArtifacts(reading(3000, { heart_rate: 146 })).artifact).toBe(false);
+    });
+
+    it('should not compare against readings older than the jump window', () => {
+        engine.checkArtifacts(reading(0));
+
+        expect(engine.checkArtifacts(reading(60000, { heart_rate: 150 })).artifact).toBe(false);
+    });
+
+    it('should accept everything when the filter is not configured or disabled', () => {
+        const unfiltered = new RulesEngine({ spo2: { low_threshold: 90 } }, 600000);
+        const disabled = new RulesEngine({ ...rules, artifacts: { ...rules.artifacts, enabled: false } }, 600000);
+
+        expect(unfiltered.checkArtifacts(reading(0, { heart_rate: 0 })).artifact).toBe(false);
+        expect(disabled.checkArtifacts(reading(0, { heart_rate: 0 })).artifact).toBe(false);
+    });
+
+    it('should reject limits whose bounds are reversed', () => {
+        const issues = validateRules(
+            { artifacts: { limits: { heart_rate: [250, 20] } } },
+            new SchemaValidator('./contracts'),
+        );
+
+        expect(issues).toEqual([
+            { path: '$.artifacts.limits.heart_rate', message: 'lower bound 250 must not exceed upper bound 20' },
+        ]);
+    });
+});
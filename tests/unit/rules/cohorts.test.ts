@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import { PatientContextStore, selectCohort } from '../../../dist/rules/cohorts.js';
+import { PatientOverrideStore } from '../../../dist/rules/overrides.js';
+import { validateRules } from '../../../dist/rules/validation.js';
+import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('Cohort rule sets', () => {
+    const rules: RulesConfig = {
+        heart_rate: { high_threshold: 120, low_threshold: 50, persist_samples: 1 },
+        spo2: { low_threshold: 90, persist_samples: 1 },
+        rule_sets: {
+            pediatric: { heart_rate: { high_threshold: 160, low_threshold: 80 } },
+            icu: { spo2: { low_threshold: 85 } },
+            maternity: { heart_rate: { high_threshold: 110 } },
+        },
+        cohorts: [
+            { rule_set: 'pediatric', age_max_years: 16 },
+            { rule_set: 'icu', care_units: ['ICU', 'CCU'] },
+            { rule_set: 'maternity', pregnant: true },
+        ],
+    };
+
+    const reading: VitalsData = {
+        patient_id: 'patient-1',
+        heart_rate: 130,
+        oxygen_saturation: 97,
+        timestamp: new Date().toISOString(),
+    };
+
+    let contexts: PatientContextStore;
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        contexts = new PatientContextStore();
+        engine = new RulesEngine(rules, 600000, 'v1', undefined, contexts);
+    });
+
+    describe('selectCohort', () => {
+        it('should pick the first matching selector', () => {
+            expect(selectCohort(rules, { age_years: 4, care_unit: 'ICU' })).toBe('pediatric');
+            expect(selectCohort(rules, { age_years: 40, care_unit: 'ICU' })).toBe('icu');
+            expect(selectCohort(rules, { age_years: 30, pregnant: true })).toBe('maternity');
+        });
+
+        it('should treat the upper age bound as exclusive', () => {
+            expect(selectCohort(rules, { age_years: 15.9 })).toBe('pediatric');
+            expect(selectCohort(rules, { age_years: 16 })).toBe('default');
+        });
+
+        it('should not match on unknown context fields', () => {
+            expect(selectCohort(rules, { care_unit: 'WARD' })).toBe('default');
+            expect(selectCohort(rules, undefined)).toBe('default');
+        });
+    });
+
+    describe('Engine', () => {
+        it('should use the top-level rules without context', () => {
+            const result = engine.evaluate(reading);
+            expect(result.shouldAlert).toBe(true);
+            expect(result.effectiveRules!.cohort).toBe('default');
+        });
+
+        it('should apply the cohort rule set from event context', () => {
+            const result = engine.evaluate({ ...reading, patient_context: { age_years: 2 } });
+            expect(result.shouldAlert).toBe(false);
+            expect(result.effectiveRules!.cohort).toBe('pediatric');
+
+            const low = engine.evaluate({ ...reading, heart_rate: 70 });
+            expect(low.shouldAlert).toBe(true);
+            expect(low.reasons![0].message).toBe('Heart rate 70 below threshold 80');
+        });
+
+        it('should keep unchanged fields from the top-level rules', () => {
+            const result = engine.evaluate({
+                ...reading,
+                heart_rate: 80,
+                oxygen_saturation: 87,
+                patient_context: { care_unit: 'ICU' },
+            });
+            expect(result.shouldAlert).toBe(false);
+
+            const low = engine.evaluate({ ...reading, heart_rate: 40, oxygen_saturation: 97 });
+            expect(low.effectiveRules!.cohort).toBe('icu');
+            expect(low.reasons![0].code).toBe('HEART_RATE_LOW');
+        });
+
+        it('should use context from the patient context store', () => {
+            contexts.update('patient-1', { pregnant: true });
+
+            const result = engine.evaluate({ ...reading, heart_rate: 115 });
+            expect(result.shouldAlert).toBe(true);
+            expect(result.effectiveRules!.cohort).toBe('maternity');
+        });
+
+        it('should merge patient overrides over the cohort rule set', () => {
+            const store = new PatientOverrideStore(new SchemaValidator('./contracts'));
+            store.apply({ patient_id: 'patient-1', overrides: { heart_rate: { low_threshold: 60 } } }, 'nats');
+            engine = new RulesEngine(rules, 600000, 'v1', store, contexts);
+
+            const result = engine.evaluate({ ...reading, heart_rate: 150, patient_context: { age_years: 5 } });
+            expect(result.shouldAlert).toBe(false);
+            expect(result.effectiveRules).toMatchObject({ source: 'patient_override', cohort: 'pediatric' });
+
+            expect(engine.evaluate({ ...reading, heart_rate: 65 }).shouldAlert).toBe(false);
+        });
+    });
+
+    describe('Validation', () => {
+        const validator = new SchemaValidator('./contracts');
+
+        it('should accept cohort rule sets', () => {
+            expect(validateRules(rules, validator)).toEqual([]);
+        });
+
+        it('should reject selectors for unknown rule sets', () => {
+            const issues = validateRules({ cohorts: [{ rule_set: 'neonatal', age_max_years: 1 }] }, validator);
+            expect(issues).toContainEqual({ path: '$.cohorts[0].rule_set', message: 'unknown rule set "neonatal"' });
+        });
+
+        it('should check rule sets like the top-level rules', () => {
+            const issues = validateRules({
+                rule_sets: {
+                    icu: {
+                        spo2: { high_threshold: 90, low_threshold: 95 },
+                        cohorts: [],
+                    },
+                },
+            }, validator);
+
+            expect(issues.map((issue) => issue.path)).toEqual(['$.rule_sets.icu.cohorts', '$.rule_sets.icu.spo2']);
+        });
+
+        it('should check rule sets merged over the top-level rules', () => {
+            const issues = validateRules({
+                heart_rate: { high_threshold: 120 },
+                rule_sets: { icu: { heart_rate: { low_threshold: 130 } } },
+            }, validator);
+
+            expect(issues).toEqual([{
+                path: '$.rule_sets.icu.heart_rate',
+                message: 'low_threshold 130 must be below high_threshold 120',
+            }]);
+        });
+
+        it('should accept and run a threshold block rule set over the shipped rules', () => {
+            const shipped = JSON.parse(readFileSync('./rules/default.json', 'utf-8'));
+            const withIcu = {
+                ...shipped,
+                rule_sets: { icu: { spo2: { low_threshold: 88 } } },
+                cohorts: [{ rule_set: 'icu', care_units: ['ICU'] }],
+            };
+
+            expect(validateRules(withIcu, validator)).toEqual([]);
+
+            const icuContexts = new PatientContextStore();
+            const icuEngine = new RulesEngine(withIcu, 600000, 'v1', undefined, icuContexts);
+            icuContexts.update('icu-1', { care_unit: 'ICU' });
+            const result = icuEngine.evaluate({ ...reading, patient_id: 'icu-1', heart_rate: 80, oxygen_saturation: 89 });
+
+            expect(result.effectiveRules!.cohort).toBe('icu');
+            expect(result.reasons?.map((reason) => reason.code) ?? []).not.toContain('SPO2_LOW');
+        });
+
+        it('should reject selectors without criteria', () => {
+            const issues = validateRules(
+                { rule_sets: { icu: {} }, cohorts: [{ rule_set: 'icu' }] },
+                validator,
+            );
+            expect(issues).toEqual([{ path: '$.cohorts[0]', message: 'must set at least one selection criterion' }]);
+        });
+    });
+
+    describe('PatientContextStore', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'contexts-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should load contexts from an NDJSON file and keep them on eviction', () => {
+            const path = join(dir, 'contexts.ndjson');
+            writeFileSync(path, '{"patient_id":"p1","age_years":3}\n{"patient_id":"p2","care_unit":"ICU"}\n');
+            contexts.loadFile(path);
+
+            contexts.update('p1', { care_unit: 'PICU' });
+            expect(contexts.get('p1')).toEqual({ age_years: 3, care_unit: 'PICU' });
+
+            contexts.evict('p1');
+            expect(contexts.get('p1')).toEqual({ age_years: 3 });
+            expect(contexts.size()).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import { loadRules } from '../../../dist/rules/loader.js';
+import { evaluateCondition } from '../../../dist/rules/dsl.js';
+import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+function reading(patientId: string, overrides: Partial<VitalsData> = {}): VitalsData {
+    return {
+        patient_id: patientId,
+        heart_rate: 75,
+        oxygen_saturation: 98,
+        timestamp: new Date().toISOString(),
+        ...overrides,
+    };
+}
+
+describe('Rule DSL', () => {
+    describe('Conditions', () => {
+        const vitals = reading('p', { heart_rate: 110, respiratory_rate: 22, consciousness: 'V' });
+
+        it('should evaluate comparisons and ranges', () => {
+            expect(evaluateCondition({ field: 'heart_rate', op: 'gte', value: 110 }, vitals)).toBe(true);
+            expect(evaluateCondition({ field: 'heart_rate', op: 'lt', value: 110 }, vitals)).toBe(false);
+            expect(evaluateCondition({ field: 'respiratory_rate', between: [21, 24] }, vitals)).toBe(true);
+            expect(evaluateCondition({ field: 'respiratory_rate', outside: [12, 20] }, vitals)).toBe(true);
+        });
+
+        it('should evaluate AND/OR/NOT combinators', () => {
+            expect(
+                evaluateCondition(
+                    {
+                        all: [
+                            { field: 'heart_rate', op: 'gt', value: 100 },
+                            { any: [{ field: 'oxygen_saturation', op: 'lt', value: 90 }, { field: 'respiratory_rate', op: 'gt', value: 20 }] },
+                        ],
+                    },
+                    vitals,
+                ),
+            ).toBe(true);
+            expect(evaluateCondition({ not: { field: 'heart_rate', op: 'gt', value: 100 } }, vitals)).toBe(false);
+        });
+
+        it('should compare consciousness by value or ACVPU index', () => {
+            expect(evaluateCondition({ field: 'consciousness', op: 'eq', value: 'V' }, vitals)).toBe(true);
+            expect(evaluateCondition({ field: 'consciousness', op: 'gt', value: 0 }, vitals)).toBe(true);
+        });
+    });
+
+    describe('Engine', () => {
+        const dslRules: RulesConfig = {
+            rules: [
+                {
+                    id: 'tachypnoea_with_fever',
+                    code: 'SEPSIS_SCREEN',
+                    message: 'RR {respiratory_rate} with temperature {temperature}',
+                    fields: ['respiratory_rate', 'temperature'],
+                    condition: {
+                        all: [
+                            { field: 'respiratory_rate', op: 'gte', value: 22 },
+                            { field: 'temperature', op: 'gt', value: 38 },
+                        ],
+                    },
+                    persist_samples: 2,
+                    severity: 'medium',
+                    suggested_action: 'Screen for sepsis.',
+                    escalation_tiers: [
+                        {
+                            when: { field: 'respiratory_rate', op: 'gte', value: 30 },
+                            severity: 'high',
+                            suggested_action: 'Start sepsis pathway.',
+                        },
+                    ],
+                },
+            ],
+        };
+
+        it('should keep per-rule counters and render messages', () => {
+            const engine = new RulesEngine(dslRules, 600000);
+            const vitals = reading('dsl-1', { respiratory_rate: 24, temperature: 38.6 });
+
+            expect(engine.evaluate(vitals).shouldAlert).toBe(false);
+
+            const result = engine.evaluate(vitals);
+            expect(result.shouldAlert).toBe(true);
+            expect(result.severity).toBe('medium');
+            expect(result.suggestedAction).toBe('Screen for sepsis.');
+            expect(result.reasons).toMatchObject([{ code: 'SEPSIS_SCREEN', message: 'RR 24 with temperature 38.6' }]);
+        });
+
+        it('should apply escalation tiers', () => {
+            const engine = new RulesEngine(dslRules, 600000);
+            const vitals = reading('dsl-2', { respiratory_rate: 32, temperature: 39 });
+
+            engine.evaluate(vitals);
+            const result = engine.evaluate(vitals);
+            expect(result.severity).toBe('high');
+            expect(result.suggestedAction).toBe('Start sepsis pathway.');
+        });
+
+        it('should skip rules whose fields are missing', () => {
+            const engine = new RulesEngine(dslRules, 600000);
+            const vitals = reading('dsl-3', { respiratory_rate: 32 });
+
+            engine.evaluate(vitals);
+            expect(engine.evaluate(vitals).shouldAlert).toBe(false);
+        });
+
+        it('should apply combination rules by reason code', () => {
+            const engine = new RulesEngine(
+                {
+                    heart_rate: { high_threshold: 120, persist_samples: 1 },
+                    spo2: { low_threshold: 90, persist_samples: 1 },
+                    combinations: [
+                        {
+                            codes: ['HEART_RATE_HIGH', 'SPO2_LOW'],
+                            severity: 'high',
+                            suggested_action: 'Assess for hypoxia-driven tachycardia.',
+                        },
+                    ],
+                },
+                600000,
+            );
+
+            const result = engine.evaluate(reading('dsl-4', { heart_rate: 125, oxygen_saturation: 89 }));
+            expect(result.severity).toBe('high');
+            expect(result.suggestedAction).toBe('Assess for hypoxia-driven tachycardia.');
+        });
+
+        it('should reject duplicate rule ids', () => {
+            expect(
+                () =>
+                    new RulesEngine(
+                        { heart_rate: { high_threshold: 120 }, rules: [{ ...dslRules.rules![0], id: 'heart_rate_high' }] },
+                        600000,
+                    ),
+            ).toThrow('Duplicate rule id');
+        });
+    });
+
+    describe('Default rules', () => {
+        it('should match the threshold-block configuration exactly', () => {
+            const legacy = new RulesEngine(
+                {
+                    heart_rate: { high_threshold: 120, low_threshold: 50, persist_samples: 2 },
+                    spo2: { low_threshold: 90, persist_samples: 1 },
+                },
+                600000,
+            );
+            const dsl = new RulesEngine(loadRules('./rules/default.json', new SchemaValidator('./contracts')), 600000);
+
+            const heartRates = [75, 125, 135, 145, 145, 48, 44, 38, 38, 75, 131];
+            const spo2Values = [98, 95, 89, 84, 92, 88, 97, 83, 99, 86, 91];
+
+            heartRates.forEach((heartRate, i) => {
+                const vitals = reading('default-1', { heart_rate: heartRate, oxygen_saturation: spo2Values[i] });
+                expect(dsl.evaluate(vitals)).toEqual(legacy.evaluate(vitals));
+            });
+        });
+    });
+});
+
+describe('Trend rules', () => {
+    const trendRules: RulesConfig = {
+        rules: [
+            {
+                id: 'heart_rate_rising',
+                code: 'HEART_RATE_RISING',
+                message: 'Heart rate rose to {heart_rate} by more than 30 bpm within 20 minutes',
+                fields: ['heart_rate'],
+                condition: { field: 'heart_rate', rise: { within_ms: 20 * 60_000, value: 30 } },
+                severity: 'medium',
+                suggested_action: 'Reassess patient for deterioration.',
+            },
+            {
+                id: 'spo2_falling',
+                code: 'SPO2_FALLING',
+                fields: ['oxygen_saturation'],
+                condition: {
+                    field: 'oxygen_saturation',
+                    slope: { window_ms: 30 * 60_000, per_ms: 10 * 60_000, op: 'lt', value: -2 },
+                },
+                severity: 'medium',
+                suggested_action: 'Check oxygenation trend.',
+            },
+        ],
+        combinations: [],
+    };
+
+    const start = Date.parse('2024-01-01T12:00:00Z');
+    const at = (minutes: number) => new Date(start + minutes * 60_000).toISOString();
+
+    it('should detect a rising heart rate that never crosses a threshold', () => {
+        const engine = new RulesEngine(trendRules, 600000);
+        const series = [70, 80, 90, 100, 110];
+
+        const results = series.map((heartRate, i) =>
+            engine.evaluate(reading('trend-1', { heart_rate: heartRate, timestamp: at(i * 5) })),
+        );
+
+        expect(results.slice(0, 4).every((r) => !r.shouldAlert)).toBe(true);
+        expect(results[4].reasons![0].code).toBe('HEART_RATE_RISING');
+        expect(results[4].reasons![0].message).toContain('rose to 110');
+    });
+
+    it('should ignore rises spread over more than the window', () => {
+        const engine = new RulesEngine(trendRules, 600000);
+
+        [70, 80, 90, 100, 110].forEach((heartRate, i) => {
+            const result = engine.evaluate(reading('trend-2', { heart_rate: heartRate, timestamp: at(i * 15) }));
+            expect(result.shouldAlert).toBe(false);
+        });
+    });
+
+    it('should detect a falling SpO2 slope using reading timestamps', () => {
+        const engine = new RulesEngine(trendRules, 600000);
+
+        engine.evaluate(reading('trend-3', { oxygen_saturation: 98, timestamp: at(0) }));
+        engine.evaluate(reading('trend-3', { oxygen_saturation: 96, timestamp: at(5) }));
+        const result = engine.evaluate(reading('trend-3', { oxygen_saturation: 94, timestamp: at(10) }));
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.reasons![0].code).toBe('SPO2_FALLING');
+    });
+
+    it('should order late readings by timestamp rather than arrival', () => {
+        const engine = new RulesEngine(trendRules, 600000);
+
+        engine.evaluate(reading('trend-4', { oxygen_saturation: 94, timestamp: at(10) }));
+        engine.evaluate(reading('trend-4', { oxygen_saturation: 98, timestamp: at(0) }));
+        const result = engine.evaluate(reading('trend-4', { oxygen_saturation: 92, timestamp: at(15) }));
+
+        expect(result.reasons![0].code).toBe('SPO2_FALLING');
+    });
+});
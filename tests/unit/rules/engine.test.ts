@@ -237,3 +237,773 @@ describe('RulesEngine', () => {
         });
     });
 });
+
+describe('RulesEngine NEWS2 mode', () => {
+    const news2Rules: RulesConfig = {
+        heart_rate: {
+            high_threshold: 120,
+            low_threshold: 50,
+            persist_samples: 2,
+        },
+        news2: {
+            enabled: true,
+        },
+    };
+
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        engine = new RulesEngine(news2Rules, 600000);
+    });
+
+    it('should alert when the aggregate score reaches the trigger', () => {
+        const result = engine.evaluate({
+            patient_id: 'news2-1',
+            heart_rate: 105,
+            oxygen_saturation: 95,
+            respiratory_rate: 22,
+            systolic_bp: 105,
+            temperature: 37.0,
+            consciousness: 'A',
+            supplemental_oxygen: false,
+            timestamp: new Date().toISOString(),
+        });
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.severity).toBe('medium');
+        expect(result.reasons![0].code).toBe('NEWS2_ELEVATED');
+        expect(result.news2!.total).toBe(5);
+    });
+
+    it('should alert on a single red parameter', () => {
+        const result = engine.evaluate({
+            patient_id: 'news2-2',
+            heart_rate: 75,
+            oxygen_saturation: 97,
+            respiratory_rate: 16,
+            systolic_bp: 125,
+            temperature: 37.0,
+            consciousness: 'P',
+            supplemental_oxygen: false,
+            timestamp: new Date().toISOString(),
+        });
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.severity).toBe('medium');
+        expect(result.reasons![0].code).toBe('NEWS2_RED_PARAMETER');
+        expect(result.news2!.red_parameters).toEqual(['consciousness']);
+    });
+
+    it('should report missing parameters in the reason', () => {
+        const result = engine.evaluate({
+            patient_id: 'news2-3',
+            heart_rate: 135,
+            oxygen_saturation: 97,
+            timestamp: new Date().toISOString(),
+        });
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.reasons![0].message).toContain('missing');
+        expect(result.news2!.missing_parameters).toContain('respiratory_rate');
+    });
+
+    it('should keep the higher of threshold and NEWS2 severity', () => {
+        const vitals: VitalsData = {
+            patient_id: 'news2-4',
+            heart_rate: 135,
+            oxygen_saturation: 91,
+            respiratory_rate: 26,
+            systolic_bp: 125,
+            temperature: 37.0,
+            consciousness: 'A',
+            supplemental_oxygen: true,
+            timestamp: new Date().toISOString(),
+        };
+
+        engine.evaluate(vitals);
+        const result = engine.evaluate(vitals);
+
+        expect(result.severity).toBe('high');
+        expect(result.reasons!.map((r) => r.code)).toEqual(['HEART_RATE_HIGH', 'NEWS2_ELEVATED']);
+        expect(result.suggestedAction).toContain('Emergency');
+    });
+});
+
+describe('RulesEngine extended vitals', () => {
+    const extendedRules: RulesConfig = {
+        respiratory_rate: { high_threshold: 24, low_threshold: 8, persist_samples: 1 },
+        systolic_bp: { low_threshold: 90, persist_samples: 2 },
+        temperature: { high_threshold: 38.5, persist_samples: 1 },
+        consciousness: { high_threshold: 0, persist_samples: 1 },
+    };
+
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        engine = new RulesEngine(extendedRules, 600000);
+    });
+
+    it('should alert on respiratory rate with its own reason code', () => {
+        const result = engine.evaluate({
+            patient_id: 'ext-1',
+            heart_rate: 75,
+            oxygen_saturation: 98,
+            respiratory_rate: 28,
+            timestamp: new Date().toISOString(),
+        });
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.reasons![0].code).toBe('RESPIRATORY_RATE_HIGH');
+        expect(result.reasons![0].message).toBe('Respiratory rate 28/min exceeds threshold 24/min');
+    });
+
+    it('should track persistence per vital', () => {
+        const vitals: VitalsData = {
+            patient_id: 'ext-2',
+            heart_rate: 75,
+            oxygen_saturation: 98,
+            systolic_bp: 85,
+            timestamp: new Date().toISOString(),
+        };
+
+        expect(engine.evaluate(vitals).shouldAlert).toBe(false);
+
+        const result = engine.evaluate(vitals);
+        expect(result.shouldAlert).toBe(true);
+        expect(result.reasons![0].code).toBe('SYSTOLIC_BP_LOW');
+    });
+
+    it('should flag altered consciousness on the ACVPU scale', () => {
+        const result = engine.evaluate({
+            patient_id: 'ext-3',
+            heart_rate: 75,
+            oxygen_saturation: 98,
+            consciousness: 'V',
+            timestamp: new Date().toISOString(),
+        });
+
+        expect(result.shouldAlert).toBe(true);
+        expect(result.reasons![0].code).toBe('CONSCIOUSNESS_ALTERED');
+        expect(result.reasons![0].message).toContain('threshold A');
+    });
+
+    it('should skip checks for vitals absent from the reading', () => {
+        const result = engine.evaluate({
+            patient_id: 'ext-4',
+            heart_rate: 75,
+            oxygen_saturation: 98,
+            temperature: 37.2,
+            timestamp: new Date().toISOString(),
+        });
+
+        expect(result.shouldAlert).toBe(false);
+    });
+});
+
+describe('RulesEngine time-based persistence', () => {
+    const start = Date.parse('2024-01-01T12:00:00Z');
+    const at = (seconds: number) => new Date(start + seconds * 1000).toISOString();
+
+    const vitals = (patientId: string, heartRate: number, seconds: number): VitalsData => ({
+        patient_id: patientId,
+        heart_rate: heartRate,
+        oxygen_saturation: 98,
+        timestamp: at(seconds),
+    });
+
+    it('should require the violation to last persist_duration_ms regardless of sampling rate', () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120, persist_duration_ms: 60_000 } }, 600000);
+
+        // Device sampling every second: 59 violating readings are not enough
+        for (let s = 0; s < 60; s++) {
+            expect(engine.evaluate(vitals('duration-1', 130, s)).shouldAlert).toBe(false);
+        }
+        expect(engine.evaluate(vitals('duration-1', 130, 60)).shouldAlert).toBe(true);
+
+        // Device sampling every minute: two readings a minute apart are enough
+        expect(engine.evaluate(vitals('duration-2', 130, 0)).shouldAlert).toBe(false);
+        expect(engine.evaluate(vitals('duration-2', 130, 60)).shouldAlert).toBe(true);
+    });
+
+    it('should restart the duration when the violation clears', () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120, persist_duration_ms: 60_000 } }, 600000);
+
+        engine.evaluate(vitals('duration-3', 130, 0));
+        engine.evaluate(vitals('duration-3', 80, 30));
+        expect(engine.evaluate(vitals('duration-3', 130, 60)).shouldAlert).toBe(false);
+        expect(engine.evaluate(vitals('duration-3', 130, 120)).shouldAlert).toBe(true);
+    });
+
+    it('should fire on M of N violating samples within the window', () => {
+        const engine = new RulesEngine(
+            { heart_rate: { high_threshold: 120, persist_window: { min_violations: 3, of_samples: 5, window_ms: 300_000 } } },
+            600000,
+        );
+
+        const series = [130, 80, 130, 80, 130];
+        const results = series.map((heartRate, i) => engine.evaluate(vitals('window-1', heartRate, i * 30)));
+
+        expect(results.slice(0, 4).every((r) => !r.shouldAlert)).toBe(true);
+        expect(results[4].shouldAlert).toBe(true);
+    });
+
+    it('should not count violations older than the window', () => {
+        const engine = new RulesEngine(
+            { heart_rate: { high_threshold: 120, persist_window: { min_violations: 2, window_ms: 60_000 } } },
+            600000,
+        );
+
+        engine.evaluate(vitals('window-2', 130, 0));
+        expect(engine.evaluate(vitals('window-2', 130, 120)).shouldAlert).toBe(false);
+        expect(engine.evaluate(vitals('window-2', 130, 150)).shouldAlert).toBe(true);
+    });
+});
+
+describe('RulesEngine alert cooldown', () => {
+    const start = Date.parse('2024-01-01T12:00:00Z');
+
+    const vitals = (heartRate: number, spo2: number, seconds: number): VitalsData => ({
+        patient_id: 'cooldown-1',
+        heart_rate: heartRate,
+        oxygen_saturation: spo2,
+        timestamp: new Date(start + seconds * 1000).toISOString(),
+    });
+
+    let engine: RulesEngine;
+
+    /** Evaluate and, like the consumer, record alerts that would be published */
+    const publish = (reading: VitalsData) => {
+        const result = engine.evaluate(reading);
+        for (const escalation of result.escalations ?? []) {
+            engine.recordEscalation(reading.patient_id, escalation);
+        }
+        if (result.shouldAlert && !result.suppressed) {
+            engine.recordAlert(reading, result, `alert-${reading.timestamp}`);
+        }
+        return result;
+    };
+
+    beforeEach(() => {
+        engine = new RulesEngine(
+            {
+                heart_rate: { high_threshold: 120, persist_samples: 1 },
+                spo2: { low_threshold: 90, persist_samples: 1 },
+                alerting: { cooldown_ms: 300_000, reason_cooldown_ms: { SPO2_LOW: 60_000 } },
+            },
+            600000,
+        );
+    });
+
+    it('should suppress repeats of the same reason within the cooldown', () => {
+        expect(publish(vitals(125, 98, 0)).suppressed).toBeUndefined();
+        expect(publish(vitals(125, 98, 60)).suppressed).toBe(true);
+        expect(publish(vitals(125, 98, 299)).suppressed).toBe(true);
+        expect(publish(vitals(125, 98, 300)).suppressed).toBeUndefined();
+    });
+
+    it('should escalate instead of re-alerting when severity increases', () => {
+        expect(publish(vitals(125, 98, 0)).severity).toBe('low');
+
+        const escalated = publish(vitals(145, 98, 30));
+        expect(escalated.severity).toBe('high');
+        expect(escalated.suppressed).toBe(true);
+        expect(escalated.escalations).toEqual([
+            {
+                alertEventId: `alert-${vitals(125, 98, 0).timestamp}`,
+                codes: ['HEART_RATE_HIGH'],
+                previousSeverity: 'low',
+                severity: 'high',
+                trigger: 'severity_increase',
+                suggestedAction: 'Urgent: Check patient status and notify physician.',
+                raisedAt: start,
+                escalatedAt: start + 30_000,
+            },
+        ]);
+
+        expect(publish(vitals(145, 98, 60)).escalations).toBeUndefined();
+        expect(publish(vitals(125, 98, 90)).suppressed).toBe(true);
+    });
+
+    it('should re-alert on severity increase when escalation events are disabled', () => {
+        engine = new RulesEngine(
+            {
+                heart_rate: { high_threshold: 120, persist_samples: 1 },
+                alerting: { cooldown_ms: 300_000, realert_on_escalation: false },
+            },
+            600000,
+        );
+
+        publish(vitals(125, 98, 0));
+        const result = publish(vitals(145, 98, 30));
+        expect(result.escalations).toBeUndefined();
+        expect(result.suppressed).toBe(true);
+    });
+
+    it('should alert when a new reason joins a suppressed one', () => {
+        publish(vitals(125, 98, 0));
+
+        const result = publish(vitals(125, 88, 30));
+        expect(result.reasons!.map((r) => r.code)).toEqual(['HEART_RATE_HIGH', 'SPO2_LOW']);
+        expect(result.suppressed).toBeUndefined();
+    });
+
+    it('should apply per reason cooldowns', () => {
+        publish(vitals(80, 88, 0));
+        expect(publish(vitals(80, 88, 30)).suppressed).toBe(true);
+        expect(publish(vitals(80, 88, 60)).suppressed).toBeUndefined();
+    });
+
+    it('should not start the cooldown until the alert is recorded', () => {
+        expect(engine.evaluate(vitals(125, 98, 0)).suppressed).toBeUndefined();
+        expect(engine.evaluate(vitals(125, 98, 30)).suppressed).toBeUndefined();
+    });
+});
+
+describe('RulesEngine alert episodes', () => {
+    const start = Date.parse('2024-01-01T12:00:00Z');
+
+    const vitals = (spo2: number, seconds: number, heartRate = 80): VitalsData => ({
+        patient_id: 'episode-1',
+        heart_rate: heartRate,
+        oxygen_saturation: spo2,
+        timestamp: new Date(start + seconds * 1000).toISOString(),
+    });
+
+    let engine: RulesEngine;
+
+    /** Evaluate and, like the consumer, record what would be published */
+    const publish = (reading: VitalsData) => {
+        const result = engine.evaluate(reading);
+        for (const resolution of result.resolved ?? []) {
+            engine.recordResolved(reading.patient_id, resolution);
+        }
+        if (result.shouldAlert && !result.suppressed) {
+            engine.recordAlert(reading, result, `alert-${reading.timestamp}`);
+        }
+        return result;
+    };
+
+    beforeEach(() => {
+        engine = new RulesEngine(
+            {
+                spo2: { low_threshold: 90, persist_samples: 1, hysteresis: 2 },
+                alerting: { cooldown_ms: 600_000, resolve: { samples: 2 } },
+            },
+            600000,
+        );
+    });
+
+    it('should resolve an episode after the configured in-range samples', () => {
+        publish(vitals(88, 0));
+
+        expect(publish(vitals(95, 30)).resolved).toBeUndefined();
+        const result = publish(vitals(95, 60));
+
+        expect(result.resolved).toEqual([
+            {
+                code: 'SPO2_LOW',
+                alertEventId: `alert-${vitals(88, 0).timestamp}`,
+                severity: 'medium',
+                raisedAt: start,
+                resolvedAt: start + 60_000,
+            },
+        ]);
+        expect(publish(vitals(95, 90)).resolved).toBeUndefined();
+    });
+
+    it('should not count readings inside the hysteresis band', () => {
+        publish(vitals(88, 0));
+
+        expect(publish(vitals(91, 30)).resolved).toBeUndefined();
+        expect(publish(vitals(92, 60)).resolved).toBeUndefined();
+        expect(publish(vitals(93, 90)).resolved).toBeUndefined();
+        expect(publish(vitals(93, 120)).resolved).toHaveLength(1);
+    });
+
+    it('should restart the count when the vital relapses', () => {
+        publish(vitals(88, 0));
+
+        publish(vitals(95, 30));
+        expect(publish(vitals(89, 60)).suppressed).toBe(true);
+        expect(publish(vitals(95, 90)).resolved).toBeUndefined();
+        expect(publish(vitals(95, 120)).resolved).toHaveLength(1);
+    });
+
+    it('should keep reporting a resolution until it is recorded', () => {
+        engine.evaluate(vitals(88, 0));
+        engine.recordAlert(vitals(88, 0), engine.evaluate(vitals(88, 1)), 'alert-1');
+
+        engine.evaluate(vitals(95, 30));
+        expect(engine.evaluate(vitals(95, 60)).resolved).toHaveLength(1);
+        expect(engine.evaluate(vitals(95, 90)).resolved).toHaveLength(1);
+    });
+
+    it('should alert straight away on relapse after resolution', () => {
+        publish(vitals(88, 0));
+        publish(vitals(95, 30));
+        publish(vitals(95, 60));
+
+        const relapse = publish(vitals(88, 90));
+        expect(relapse.shouldAlert).toBe(true);
+        expect(relapse.suppressed).toBeUndefined();
+    });
+
+    it('should resolve by duration in reading time', () => {
+        engine = new RulesEngine(
+            {
+                spo2: { low_threshold: 90, persist_samples: 1 },
+                rules: [
+                    {
+                        id: 'tachycardia',
+                        code: 'TACHYCARDIA',
+                        fields: ['heart_rate'],
+                        condition: { field: 'heart_rate', op: 'gt', value: 120 },
+                        severity: 'medium',
+                        suggested_action: 'Review patient.',
+                        resolve: { duration_ms: 120_000 },
+                    },
+                ],
+            },
+            600000,
+        );
+
+        publish(vitals(97, 0, 130));
+        expect(publish(vitals(97, 60, 90)).resolved).toBeUndefined();
+        expect(publish(vitals(97, 120, 90)).resolved).toBeUndefined();
+        expect(publish(vitals(97, 180, 90)).resolved![0].code).toBe('TACHYCARDIA');
+    });
+});
+
+describe('RulesEngine unacknowledged escalation', () => {
+    const start = Date.parse('2024-01-01T12:00:00Z');
+
+    const vitals = (spo2: number, seconds: number): VitalsData => ({
+        patient_id: 'unacknowledged-1',
+        heart_rate: 80,
+        oxygen_saturation: spo2,
+        timestamp: new Date(start + seconds * 1000).toISOString(),
+    });
+
+    let engine: RulesEngine;
+
+    const publish = (reading: VitalsData) => {
+        const result = engine.evaluate(reading);
+        for (const escalation of result.escalations ?? []) {
+            engine.recordEscalation(reading.patient_id, escalation);
+        }
+        if (result.shouldAlert && !result.suppressed) {
+            engine.recordAlert(reading, result, 'alert-1');
+        }
+        return result;
+    };
+
+    beforeEach(() => {
+        engine = new RulesEngine(
+            {
+                spo2: { low_threshold: 90, persist_samples: 1 },
+                alerting: {
+                    cooldown_ms: 3_600_000,
+                    unacknowledged_escalation: { after_ms: 600_000, suggested_action: 'Call rapid response team.' },
+                    resolve: { samples: 2 },
+                },
+            },
+            600000,
+        );
+    });
+
+    it('should escalate a high-severity episode open past the configured time once', () => {
+        expect(publish(vitals(80, 0)).severity).toBe('high');
+        expect(publish(vitals(80, 300)).escalations).toBeUndefined();
+
+        const result = publish(vitals(80, 600));
+        expect(result.escalations).toEqual([
+            {
+                alertEventId: 'alert-1',
+                codes: ['SPO2_LOW'],
+                previousSeverity: 'high',
+                severity: 'high',
+                trigger: 'unacknowledged',
+                suggestedAction: 'Call rapid response team.',
+                raisedAt: start,
+                escalatedAt: start + 600_000,
+            },
+        ]);
+
+        expect(publish(vitals(80, 900)).escalations).toBeUndefined();
+    });
+
+    it('should escalate even when the reading itself does not alert', () => {
+        publish(vitals(80, 0));
+
+        const result = publish(vitals(91, 600));
+        expect(result.shouldAlert).toBe(false);
+        expect(result.escalations![0].trigger).toBe('unacknowledged');
+    });
+
+    it('should not escalate an episode the reading resolves', () => {
+        publish(vitals(80, 0));
+        publish(vitals(91, 540));
+
+        const result = publish(vitals(91, 600));
+        expect(result.resolved).toHaveLength(1);
+        expect(result.escalations).toBeUndefined();
+    });
+
+    it('should not escalate episodes below the minimum severity', () => {
+        publish(vitals(88, 0));
+        expect(publish(vitals(88, 900)).escalations).toBeUndefined();
+    });
+});
+
+describe('RulesEngine acknowledgements', () => {
+    const start = Date.parse('2024-01-01T12:00:00Z');
+
+    const vitals = (spo2: number, seconds: number): VitalsData => ({
+        patient_id: 'ack-1',
+        heart_rate: 80,
+        oxygen_saturation: spo2,
+        timestamp: new Date(start + seconds * 1000).toISOString(),
+    });
+
+    let engine: RulesEngine;
+
+    const publish = (reading: VitalsData) => {
+        const result = engine.evaluate(reading);
+        for (const escalation of result.escalations ?? []) {
+            engine.recordEscalation(reading.patient_id, escalation);
+        }
+        if (result.shouldAlert && !result.suppressed) {
+            engine.recordAlert(reading, result, `alert-${reading.timestamp}`);
+        }
+        return result;
+    };
+
+    beforeEach(() => {
+        engine = new RulesEngine(
+            {
+                spo2: { low_threshold: 90, persist_samples: 1 },
+                alerting: {
+                    unacknowledged_escalation: { after_ms: 600_000, suggested_action: 'Call rapid response team.' },
+                },
+            },
+            600000,
+        );
+    });
+
+    it('should suppress re-alerts for an acknowledged reason', () => {
+        publish(vitals(88, 0));
+        expect(publish(vitals(88, 30)).suppressed).toBeUndefined();
+
+        expect(engine.acknowledge({ patient_id: 'ack-1', acknowledged_by: 'nurse-7' }, 'acknowledged')).toBe(1);
+        expect(publish(vitals(88, 60)).suppressed).toBe(true);
+        expect(engine.getAcknowledgements()).toMatchObject([
+            { patient_id: 'ack-1', reason_code: 'SPO2_LOW', type: 'acknowledged', severity: 'medium', acknowledged_by: 'nurse-7' },
+        ]);
+    });
+
+    it('should lift the acknowledgement when severity escalates', () => {
+        publish(vitals(88, 0));
+        engine.acknowledge({ patient_id: 'ack-1' }, 'acknowledged');
+
+        const escalated = publish(vitals(80, 30));
+        expect(escalated.escalations![0].severity).toBe('high');
+        expect(engine.getAcknowledgements()).toEqual([]);
+    });
+
+    it('should suppress only until the snooze expires', () => {
+        publish(vitals(88, 0));
+        engine.acknowledge(
+            { patient_id: 'ack-1', acknowledged_at: new Date(start).toISOString(), snooze_ms: 120_000 },
+            'snoozed',
+        );
+
+        expect(publish(vitals(88, 60)).suppressed).toBe(true);
+        expect(publish(vitals(88, 120)).suppressed).toBeUndefined();
+    });
+
+    it('should not escalate acknowledged episodes for going unacknowledged', () => {
+        publish(vitals(80, 0));
+        engine.acknowledge({ patient_id: 'ack-1', reason_codes: ['SPO2_LOW'] }, 'acknowledged');
+
+        expect(publish(vitals(80, 600)).escalations).toBeUndefined();
+    });
+
+    it('should ignore acknowledgements for other alerts', () => {
+        publish(vitals(88, 0));
+        expect(engine.acknowledge({ patient_id: 'ack-1', alert_event_id: 'other' }, 'acknowledged')).toBe(0);
+        expect(engine.acknowledge({ patient_id: 'unknown' }, 'acknowledged')).toBe(0);
+    });
+});
+
+describe('RulesEngine severity table', () => {
+    const at = (offsetMs: number) => new Date(Date.parse('2025-01-01T00:00:00Z') + offsetMs).toISOString();
+
+    it('should replace a threshold rule\'s severity and action by reason code', () => {
+        const engine = new RulesEngine(
+            {
+                spo2: { low_threshold: 90 },
+                severity_table: {
+                    SPO2_LOW: {
+                        severity: 'medium',
+                        suggested_action: 'Check probe placement and oxygen delivery.',
+                        escalation_tiers: [
+                            { when: { field: 'oxygen_saturation', op: 'lt', value: 80 }, severity: 'high' },
+                        ],
+                    },
+                },
+            },
+            600000,
+        );
+
+        const mild = engine.evaluate({ patient_id: 'table-1', oxygen_saturation: 88, timestamp: at(0) });
+        expect(mild.severity).toBe('medium');
+        expect(mild.suggestedAction).toBe('Check probe placement and oxygen delivery.');
+
+        // The table's tiers replace the built-in ones: 84% no longer escalates
+        const moderate = engine.evaluate({ patient_id: 'table-2', oxygen_saturation: 84, timestamp: at(0) });
+        expect(moderate.severity).toBe('medium');
+
+        const severe = engine.evaluate({ patient_id: 'table-3', oxygen_saturation: 78, timestamp: at(0) });
+        expect(severe.severity).toBe('high');
+        expect(severe.suggestedAction).toBe('Check probe placement and oxygen delivery.');
+    });
+
+    it('should keep the built-in table for codes it does not list', () => {
+        const engine = new RulesEngine(
+            { spo2: { low_threshold: 90 }, severity_table: { HEART_RATE_HIGH: { severity: 'medium' } } },
+            600000,
+        );
+
+        const result = engine.evaluate({ patient_id: 'table-4', oxygen_saturation: 87, timestamp: at(0) });
+        expect(result.severity).toBe('medium');
+        expect(result.suggestedAction).toContain('oxygen');
+    });
+
+    it('should apply combination rules for specific reason codes', () => {
+        const engine = new RulesEngine(
+            {
+                heart_rate: { high_threshold: 120 },
+                spo2: { low_threshold: 90 },
+                combinations: [
+                    {
+                        codes: ['HEART_RATE_HIGH', 'SPO2_LOW'],
+                        severity: 'high',
+                        suggested_action: 'Suspected hypoxaemic tachycardia: call the rapid response team.',
+                    },
+                ],
+            },
+            600000,
+        );
+
+        const result = engine.evaluate({
+            patient_id: 'table-5',
+            heart_rate: 130,
+            oxygen_saturation: 89,
+            timestamp: at(0),
+        });
+        expect(result.severity).toBe('high');
+        expect(result.suggestedAction).toBe('Suspected hypoxaemic tachycardia: call the rapid response team.');
+    });
+
+    it('should use configured NEWS2 actions', () => {
+        const engine = new RulesEngine(
+            { news2: { enabled: true, actions: { high: 'Activate the critical care outreach team.' } } },
+            600000,
+        );
+
+        const result = engine.evaluate({
+            patient_id: 'table-6',
+            heart_rate: 135,
+            oxygen_saturation: 90,
+            respiratory_rate: 26,
+            systolic_bp: 88,
+            temperature: 39.5,
+            consciousness: 'A',
+            supplemental_oxygen: false,
+            timestamp: at(0),
+        });
+        expect(result.severity).toBe('high');
+        expect(result.suggestedAction).toBe('Activate the critical care outreach team.');
+    });
+});
+
+describe('RulesEngine alert evidence', () => {
+    const at = (seconds: number) => new Date(Date.parse('2025-01-01T00:00:00Z') + seconds * 1000).toISOString();
+
+    it('should record the violating readings that satisfied persistence', () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120, persist_samples: 2 } }, 600000, 'v7');
+
+        engine.evaluate({ patient_id: 'evidence-1', heart_rate: 125, oxygen_saturation: 97, timestamp: at(0) });
+        const result = engine.evaluate({ patient_id: 'evidence-1', heart_rate: 128, oxygen_saturation: 97, timestamp: at(30) });
+
+        expect(result.reasons![0].evidence).toEqual({
+            source: 'rule',
+            rule_id: 'heart_rate_high',
+            observed: { heart_rate: 128 },
+            threshold: 120,
+            readings: [
+                { timestamp: at(0), values: { heart_rate: 125 } },
+                { timestamp: at(30), values: { heart_rate: 128 } },
+            ],
+            severity: 'low',
+        });
+        expect(result.evidence).toEqual({ rules_version: 'v7', severity: { decided_by: 'rule', codes: ['HEART_RATE_HIGH'] } });
+    });
+
+    it('should drop readings from a streak that cleared', () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120 } }, 600000);
+
+        engine.evaluate({ patient_id: 'evidence-2', heart_rate: 125, oxygen_saturation: 97, timestamp: at(0) });
+        engine.evaluate({ patient_id: 'evidence-2', heart_rate: 80, oxygen_saturation: 97, timestamp: at(30) });
+        const result = engine.evaluate({ patient_id: 'evidence-2', heart_rate: 126, oxygen_saturation: 97, timestamp: at(60) });
+
+        expect(result.reasons![0].evidence!.readings).toHaveLength(1);
+    });
+
+    it('should name the tier condition that escalated the severity', () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120 } }, 600000);
+
+        const result = engine.evaluate({ patient_id: 'evidence-3', heart_rate: 150, oxygen_saturation: 97, timestamp: at(0) });
+
+        expect(result.reasons![0].evidence).toMatchObject({
+            severity: 'high',
+            escalated_by: { field: 'heart_rate', op: 'gt', value: 140 },
+        });
+    });
+
+    it('should attribute the severity to a combination rule when one applies', () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120 }, spo2: { low_threshold: 90 } }, 600000);
+
+        const result = engine.evaluate({ patient_id: 'evidence-4', heart_rate: 125, oxygen_saturation: 88, timestamp: at(0) });
+
+        expect(result.severity).toBe('high');
+        expect(result.evidence!.severity).toEqual({
+            decided_by: 'combination',
+            codes: ['HEART_RATE_HIGH', 'SPO2_LOW'],
+        });
+    });
+
+    it('should attribute the severity to NEWS2 when its score outranks the rules', () => {
+        const engine = new RulesEngine({ heart_rate: { high_threshold: 120 }, news2: { enabled: true } }, 600000);
+
+        const result = engine.evaluate({
+            patient_id: 'evidence-5',
+            heart_rate: 125,
+            oxygen_saturation: 90,
+            respiratory_rate: 26,
+            systolic_bp: 88,
+            temperature: 39.5,
+            consciousness: 'A',
+            supplemental_oxygen: false,
+            timestamp: at(0),
+        });
+
+        expect(result.evidence!.severity).toEqual({ decided_by: 'news2', codes: ['NEWS2_ELEVATED'] });
+        expect(result.reasons!.find((reason) => reason.code === 'NEWS2_ELEVATED')!.evidence).toMatchObject({
+            source: 'news2',
+            score: result.news2!.total,
+            threshold: 5,
+            severity: 'high',
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNews2, news2Severity } from '../../../dist/rules/news2.js';
+import type { VitalsData } from '../../../dist/rules/types.js';
+
+describe('NEWS2', () => {
+    const completeVitals: VitalsData = {
+        patient_id: 'patient-1',
+        heart_rate: 75,
+        oxygen_saturation: 97,
+        respiratory_rate: 16,
+        systolic_bp: 125,
+        temperature: 37.0,
+        consciousness: 'A',
+        supplemental_oxygen: false,
+        timestamp: new Date().toISOString(),
+    };
+
+    describe('Sub-scores', () => {
+        it('should score a healthy complete reading as zero', () => {
+            const result = calculateNews2(completeVitals);
+
+            expect(result.total).toBe(0);
+            expect(result.complete).toBe(true);
+            expect(result.missing_parameters).toEqual([]);
+            expect(result.severity).toBeUndefined();
+        });
+
+        it('should score each parameter using the NEWS2 bands', () => {
+            const result = calculateNews2({
+                ...completeVitals,
+                respiratory_rate: 22,
+                oxygen_saturation: 93,
+                supplemental_oxygen: true,
+                systolic_bp: 105,
+                heart_rate: 115,
+                consciousness: 'V',
+                temperature: 38.5,
+            });
+
+            expect(result.sub_scores).toEqual({
+                respiratory_rate: 2,
+                spo2: 2,
+                supplemental_oxygen: 2,
+                systolic_bp: 1,
+                pulse: 2,
+                consciousness: 3,
+                temperature: 1,
+            });
+            expect(result.total).toBe(13);
+            expect(result.severity).toBe('high');
+        });
+
+        it('should use SpO2 scale 2 when configured', () => {
+            const onAir = calculateNews2({ ...completeVitals, oxygen_saturation: 89 }, { spo2_scale: 2 });
+            expect(onAir.sub_scores.spo2).toBe(0);
+            expect(onAir.spo2_scale).toBe(2);
+
+            const onOxygen = calculateNews2(
+                { ...completeVitals, oxygen_saturation: 97, supplemental_oxygen: true },
+                { spo2_scale: 2 },
+            );
+            expect(onOxygen.sub_scores.spo2).toBe(3);
+
+            const scale1 = calculateNews2({ ...completeVitals, oxygen_saturation: 89 });
+            expect(scale1.sub_scores.spo2).toBe(3);
+        });
+    });
+
+    describe('Missing parameters', () => {
+        it('should report missing parameters instead of scoring them as zero', () => {
+            const result = calculateNews2({
+                patient_id: 'patient-2',
+                heart_rate: 135,
+                oxygen_saturation: 97,
+                timestamp: new Date().toISOString(),
+            });
+
+            expect(result.complete).toBe(false);
+            expect(result.missing_parameters).toEqual([
+                'respiratory_rate',
+                'supplemental_oxygen',
+                'systolic_bp',
+                'consciousness',
+                'temperature',
+            ]);
+            expect(result.sub_scores).toEqual({ spo2: 0, pulse: 3 });
+            expect(result.total).toBe(3);
+        });
+    });
+
+    describe('Severity bands', () => {
+        it('should map scores to severity bands', () => {
+            expect(news2Severity(0, false)).toBeUndefined();
+            expect(news2Severity(4, false)).toBe('low');
+            expect(news2Severity(3, true)).toBe('medium');
+            expect(news2Severity(5, false)).toBe('medium');
+            expect(news2Severity(6, false)).toBe('medium');
+            expect(news2Severity(7, false)).toBe('high');
+        });
+    });
+});
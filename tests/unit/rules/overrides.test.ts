@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import { loadRules } from '../../../dist/rules/loader.js';
+import { mergeRules } from '../../../dist/rules/compiler.js';
+import { PatientOverrideStore } from '../../../dist/rules/overrides.js';
+import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('Patient overrides', () => {
+    const globalRules: RulesConfig = {
+        heart_rate: { high_threshold: 120, low_threshold: 50, persist_samples: 2 },
+        spo2: { low_threshold: 90, persist_samples: 1 },
+    };
+
+    const copdReading: VitalsData = {
+        patient_id: 'copd-1',
+        heart_rate: 80,
+        oxygen_saturation: 89,
+        timestamp: new Date().toISOString(),
+    };
+
+    let store: PatientOverrideStore;
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        store = new PatientOverrideStore(new SchemaValidator('./contracts'));
+        engine = new RulesEngine(globalRules, 600000, 'v1', store);
+    });
+
+    describe('mergeRules', () => {
+        it('should merge threshold blocks field by field', () => {
+            const merged = mergeRules(globalRules, { spo2: { low_threshold: 86 } });
+            expect(merged.spo2).toEqual({ low_threshold: 86, persist_samples: 1 });
+            expect(merged.heart_rate).toEqual(globalRules.heart_rate);
+        });
+
+        it('should replace declarative rules by id', () => {
+            const rule = {
+                id: 'a',
+                code: 'A',
+                fields: ['heart_rate' as const],
+                condition: { field: 'heart_rate' as const, op: 'gt' as const, value: 100 },
+                severity: 'low' as const,
+                suggested_action: 'x',
+            };
+            const merged = mergeRules(
+                { rules: [rule, { ...rule, id: 'b' }] },
+                { rules: [{ ...rule, condition: { field: 'heart_rate', op: 'gt', value: 110 } }] },
+            );
+            expect(merged.rules!.map((r) => r.id)).toEqual(['a', 'b']);
+            expect(merged.rules![0].condition).toEqual({ field: 'heart_rate', op: 'gt', value: 110 });
+        });
+
+        it('should replace a declarative rule with the rule a threshold block generates for its id', () => {
+            const rule = {
+                id: 'spo2_low',
+                code: 'SPO2_LOW',
+                fields: ['oxygen_saturation' as const],
+                condition: { field: 'oxygen_saturation' as const, op: 'lt' as const, value: 90 },
+                severity: 'low' as const,
+                suggested_action: 'x',
+            };
+            const merged = mergeRules({ rules: [rule, { ...rule, id: 'other' }] }, { spo2: { low_threshold: 88 } });
+
+            expect(merged.rules!.map((r) => r.id)).toEqual(['other']);
+            expect(merged.spo2).toEqual({ low_threshold: 88 });
+        });
+
+        it('should drop a block threshold replaced by a declarative rule', () => {
+            const merged = mergeRules(globalRules, {
+                rules: [{
+                    id: 'heart_rate_high',
+                    code: 'HEART_RATE_HIGH',
+                    fields: ['heart_rate'],
+                    condition: { field: 'heart_rate', op: 'gt', value: 130 },
+                    severity: 'low',
+                    suggested_action: 'x',
+                }],
+            });
+
+            expect(merged.heart_rate).toEqual({ low_threshold: 50, persist_samples: 2 });
+            expect(merged.rules!.map((r) => r.id)).toEqual(['heart_rate_high']);
+        });
+    });
+
+    describe('Engine', () => {
+        it('should use global rules for patients without overrides', () => {
+            const result = engine.evaluate(copdReading);
+            expect(result.shouldAlert).toBe(true);
+            expect(result.effectiveRules).toEqual({ source: 'global', rules_version: 'v1', cohort: 'default' });
+        });
+
+        it('should apply a patient override over the global rules', () => {
+            store.apply({ patient_id: 'copd-1', overrides: { spo2: { low_threshold: 88 } } }, 'nats');
+
+            const result = engine.evaluate(copdReading);
+            expect(result.shouldAlert).toBe(false);
+            expect(result.effectiveRules!.source).toBe('patient_override');
+            expect(result.effectiveRules!.overrides).toEqual({ spo2: { low_threshold: 88 } });
+
+            const lower = engine.evaluate({ ...copdReading, oxygen_saturation: 86 });
+            expect(lower.shouldAlert).toBe(true);
+            expect(lower.reasons![0].message).toBe('SpO2 86% below threshold 88%');
+        });
+
+        it('should revert to global rules when the override is cleared', () => {
+            store.apply({ patient_id: 'copd-1', overrides: { spo2: { low_threshold: 88 } } }, 'nats');
+            engine.evaluate(copdReading);
+
+            store.apply({ patient_id: 'copd-1', overrides: null }, 'nats');
+            expect(engine.evaluate(copdReading).shouldAlert).toBe(true);
+        });
+
+        it('should reject invalid overrides', () => {
+            expect(store.apply({ patient_id: 'copd-1', overrides: { spo2: { low_treshold: 88 } } as any }, 'nats')).toBe(false);
+            expect(store.get('copd-1')).toBeUndefined();
+        });
+
+        it('should reject an override that is invalid once merged over the rules in force', () => {
+            const checked = new PatientOverrideStore(new SchemaValidator('./contracts'), () => globalRules);
+
+            expect(checked.apply({ patient_id: 'copd-1', overrides: { heart_rate: { low_threshold: 130 } } }, 'nats'))
+                .toBe(false);
+            expect(checked.apply({ patient_id: 'copd-1', overrides: { spo2: { low_threshold: 88 } } }, 'nats'))
+                .toBe(true);
+        });
+    });
+
+    describe('Shipped rules', () => {
+        it('should apply the COPD override over rules/default.json', () => {
+            const rules = loadRules('./rules/default.json', new SchemaValidator('./contracts'));
+            const checked = new PatientOverrideStore(new SchemaValidator('./contracts'), () => rules);
+            const shipped = new RulesEngine(rules, 600000, 'v1', checked);
+
+            expect(checked.apply({ patient_id: 'copd-1', overrides: { spo2: { low_threshold: 88 } } }, 'nats'))
+                .toBe(true);
+
+            const result = shipped.evaluate(copdReading);
+            expect(result.reasons?.map((reason) => reason.code) ?? []).not.toContain('SPO2_LOW');
+            expect(result.effectiveRules!.source).toBe('patient_override');
+
+            const lower = shipped.evaluate({ ...copdReading, oxygen_saturation: 86 });
+            expect(lower.reasons!.map((reason) => reason.code)).toContain('SPO2_LOW');
+        });
+    });
+
+    describe('File loading', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'overrides-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should load a JSON array of overrides', () => {
+            const path = join(dir, 'overrides.json');
+            writeFileSync(path, JSON.stringify([{ patient_id: 'p1', overrides: { spo2: { low_threshold: 88 } } }]));
+
+            store.loadFile(path);
+            expect(store.get('p1')!.overrides).toEqual({ spo2: { low_threshold: 88 } });
+            expect(store.get('p1')!.source).toBe('file');
+        });
+
+        it('should load NDJSON overrides and skip invalid lines', () => {
+            const path = join(dir, 'overrides.ndjson');
+            writeFileSync(
+                path,
+                [
+                    JSON.stringify({ patient_id: 'p1', overrides: { spo2: { low_threshold: 88 } } }),
+                    JSON.stringify({ patient_id: 'p2', overrides: { spo2: { low_threshold: 'low' } } }),
+                    '',
+                ].join('\n'),
+            );
+
+            store.loadFile(path);
+            expect(store.size()).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('Duplicate and late readings', () => {
+    const rules: RulesConfig = { heart_rate: { high_threshold: 120, persist_samples: 3 } };
+
+    const start = Date.parse('2025-01-01T00:00:00Z');
+    const reading = (offsetMs: number, heartRate = 125, deviceId?: string): VitalsData => ({
+        patient_id: 'patient-1',
+        heart_rate: heartRate,
+        oxygen_saturation: 97,
+        timestamp: new Date(start + offsetMs).toISOString(),
+        ...(deviceId && { device_id: deviceId }),
+    });
+
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        engine = new RulesEngine(rules, 600000, undefined, undefined, undefined, undefined, undefined, {
+            dedupWindowMs: 60000,
+            maxClockSkewMs: 60000,
+        });
+    });
+
+    it('should recognize a reading with the same timestamp and device as a duplicate', () => {
+        expect(engine.admitReading(reading(0, 125, 'oximeter-1'))).toBe('new');
+        expect(engine.admitReading(reading(0, 125, 'oximeter-1'))).toBe('duplicate');
+        expect(engine.admitReading(reading(0, 125, 'monitor-2'))).toBe('new');
+        expect(engine.admitReading(reading(30000))).toBe('new');
+        expect(engine.admitReading(reading(30000))).toBe('duplicate');
+    });
+
+    it('should classify older readings as late, and expired beyond the dedup window', () => {
+        engine.admitReading(reading(120000));
+
+        expect(engine.admitReading(reading(90000))).toBe('late');
+        expect(engine.admitReading(reading(90000))).toBe('duplicate');
+        expect(engine.admitReading(reading(30000))).toBe('expired');
+        expect(engine.admitReading(reading(150000))).toBe('new');
+    });
+
+    it('should reject a reading from beyond the clock skew without moving the newest reading', () => {
+        const now = start + 60000;
+
+        expect(engine.admitReading(reading(24 * 3600000), now)).toBe('future');
+        expect(engine.admitReading(reading(0), now)).toBe('new');
+        expect(engine.admitReading(reading(30000), now)).toBe('new');
+        expect(engine.admitReading(reading(90000), now)).toBe('new');
+        expect(engine.admitReading(reading(60000), now)).toBe('late');
+    });
+
+    it('should restore the state from before a reading whose handling is retried', () => {
+        engine.admitReading(reading(0));
+        engine.evaluate(reading(0));
+        const snapshot = engine.snapshotPatient('patient-1');
+        engine.admitReading(reading(30000));
+        engine.evaluate(reading(30000));
+        engine.restorePatient(snapshot);
+
+        expect(engine.admitReading(reading(30000))).toBe('new');
+        expect(engine.evaluate(reading(30000)).shouldAlert).toBe(false);
+        expect(engine.evaluate(reading(60000)).shouldAlert).toBe(true);
+    });
+
+    it('should keep an acknowledgement given while a retried reading was handled', () => {
+        engine = new RulesEngine({ ...rules, alerting: { resolve: { samples: 2 } } }, 600000);
+        engine.evaluate(reading(0, 130));
+        engine.evaluate(reading(30000, 130));
+        const fired = engine.evaluate(reading(60000, 130));
+        engine.recordAlert(reading(60000, 130), fired, 'alert-1');
+
+        const snapshot = engine.snapshotPatient('patient-1');
+        engine.admitReading(reading(90000, 80));
+        engine.evaluate(reading(90000, 80));
+        engine.acknowledge({ patient_id: 'patient-1', acknowledged_by: 'nurse-1' }, 'acknowledged');
+        engine.restorePatient(snapshot);
+
+        expect(engine.getAcknowledgements().map((summary) => summary.alert_event_id)).toEqual(['alert-1']);
+        expect(engine.admitReading(reading(90000, 80))).toBe('new');
+        expect(engine.evaluate(reading(90000, 80)).resolved).toBeUndefined();
+        expect(engine.evaluate(reading(120000, 80)).resolved).toHaveLength(1);
+    });
+
+    it('should drop a patient first seen in a reading whose handling is retried', () => {
+        const snapshot = engine.snapshotPatient('patient-1');
+        engine.admitReading(reading(0));
+        engine.restorePatient(snapshot);
+
+        expect(engine.getTrackedPatientsCount()).toBe(0);
+    });
+
+    it('should evaluate a read-only reading without counting it towards persistence', () => {
+        engine.evaluate(reading(0));
+        engine.evaluate(reading(20000), { readOnly: true });
+        engine.evaluate(reading(10000), { readOnly: true });
+
+        expect(engine.evaluate(reading(30000)).shouldAlert).toBe(false);
+        expect(engine.evaluate(reading(60000)).shouldAlert).toBe(true);
+    });
+
+    it('should neither resolve episodes nor report recovery on a read-only evaluation', () => {
+        engine.evaluate(reading(0, 130));
+        engine.evaluate(reading(30000, 130));
+        const fired = engine.evaluate(reading(60000, 130));
+        engine.recordAlert(reading(60000, 130), fired, 'alert-1');
+
+        expect(fired.shouldAlert).toBe(true);
+        expect(engine.evaluate(reading(45000, 80), { readOnly: true }).resolved).toBeUndefined();
+        expect(engine.evaluate(reading(90000, 80)).resolved).toHaveLength(1);
+    });
+});
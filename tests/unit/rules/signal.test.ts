@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import type { RulesConfig, VitalsData } from '../../../dist/rules/types.js';
+
+describe('Device signal loss', () => {
+    const rules: RulesConfig = {
+        spo2: { low_threshold: 90 },
+        signal_loss: { after_ms: 60000, cadence_multiplier: 3 },
+    };
+
+    const start = Date.parse('2025-01-01T00:00:00Z');
+    const reading = (offsetMs: number, patientId = 'patient-1'): VitalsData => ({
+        patient_id: patientId,
+        heart_rate: 80,
+        oxygen_saturation: 97,
+        timestamp: new Date(start + offsetMs).toISOString(),
+    });
+
+    /** Deliver a reading at the matching wall-clock time */
+    const deliver = (engine: RulesEngine, offsetMs: number, patientId?: string) => {
+        vi.setSystemTime(start + offsetMs);
+        return engine.evaluate(reading(offsetMs, patientId));
+    };
+
+    let engine: RulesEngine;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        engine = new RulesEngine(rules, 600000);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should report a device silent for longer than after_ms', () => {
+        deliver(engine, 0);
+
+        expect(engine.findSignalLosses(start + 59000)).toEqual([]);
+        expect(engine.findSignalLosses(start + 60000)).toEqual([
+            { patientId: 'patient-1', lastSeenAt: start, lastReadingAt: start, silentMs: 60000, thresholdMs: 60000 },
+        ]);
+    });
+
+    it('should wait for a multiple of the learnt cadence when it is longer', () => {
+        for (let i = 0; i <= 5; i++) {
+            deliver(engine, i * 30000);
+        }
+        const last = start + 150000;
+
+        expect(engine.findSignalLosses(last + 60000)).toEqual([]);
+        expect(engine.findSignalLosses(last + 90000)).toEqual([
+            {
+                patientId: 'patient-1',
+                lastSeenAt: last,
+                lastReadingAt: last,
+                silentMs: 90000,
+                thresholdMs: 90000,
+                expectedIntervalMs: 30000,
+            },
+        ]);
+    });
+
+    it('should report a loss once, and a recovery on the next reading', () => {
+        deliver(engine, 0);
+        engine.recordSignalLost('patient-1', 'lost-1', start + 60000);
+
+        expect(engine.findSignalLosses(start + 120000)).toEqual([]);
+        expect(engine.getSilentDevicesCount()).toBe(1);
+
+        const result = deliver(engine, 180000);
+        expect(result.signalRecovered).toEqual({
+            lostEventId: 'lost-1',
+            lostAt: start + 60000,
+            lastSeenAt: start,
+            recoveredAt: start + 180000,
+        });
+
+        // Reported again until the recovery is published
+        expect(deliver(engine, 181000).signalRecovered?.lostEventId).toBe('lost-1');
+
+        engine.recordSignalRecovered('patient-1', result.signalRecovered!);
+        expect(deliver(engine, 182000).signalRecovered).toBeUndefined();
+        expect(engine.getSilentDevicesCount()).toBe(0);
+    });
+
+    it('should not monitor devices when signal_loss is not configured', () => {
+        const unmonitored = new RulesEngine({ spo2: { low_threshold: 90 } }, 600000);
+        vi.setSystemTime(start);
+        unmonitored.evaluate(reading(0));
+
+        expect(unmonitored.findSignalLosses(start + 3600000)).toEqual([]);
+    });
+
+    it('should keep a silent device until its loss is reported, then for one TTL', () => {
+        const shortTtl = new RulesEngine({ ...rules, signal_loss: { after_ms: 5000000 } }, 1000);
+        deliver(shortTtl, 0, 'patient-2');
+
+        vi.advanceTimersByTime(10000);
+        expect(shortTtl.getTrackedPatientsCount()).toBe(1);
+
+        shortTtl.recordSignalLost('patient-2', 'lost-2', Date.now());
+        vi.advanceTimersByTime(3000);
+        expect(shortTtl.getTrackedPatientsCount()).toBe(0);
+    });
+});
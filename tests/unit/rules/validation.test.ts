@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
+import { validateRules, RulesValidationError } from '../../../dist/rules/validation.js';
+
+describe('Rules validation', () => {
+    const validator = new SchemaValidator('./contracts');
+
+    const rule = {
+        id: 'hr_high',
+        code: 'HEART_RATE_HIGH',
+        fields: ['heart_rate'],
+        condition: { field: 'heart_rate', op: 'gt', value: 120 },
+        severity: 'low',
+        suggested_action: 'Monitor patient.',
+    };
+
+    it('should accept the default rules file', () => {
+        const rules = JSON.parse(readFileSync('./rules/default.json', 'utf-8'));
+        expect(validateRules(rules, validator)).toEqual([]);
+    });
+
+    it('should report misspelled properties with their path', () => {
+        const issues = validateRules({ heart_rate: { low_treshold: 50 } }, validator);
+        expect(issues).toContainEqual({ path: '$.heart_rate.low_treshold', message: 'unknown property' });
+    });
+
+    it('should report non-numeric thresholds', () => {
+        const issues = validateRules({ spo2: { low_threshold: '90' } }, validator);
+        expect(issues).toContainEqual({ path: '$.spo2.low_threshold', message: 'must be number' });
+    });
+
+    it('should report persist_samples below 1', () => {
+        const issues = validateRules({ spo2: { low_threshold: 90, persist_samples: 0 } }, validator);
+        expect(issues[0].path).toBe('$.spo2.persist_samples');
+    });
+
+    it('should report inverted thresholds', () => {
+        const issues = validateRules({ heart_rate: { low_threshold: 130, high_threshold: 120 } }, validator);
+        expect(issues).toEqual([
+            { path: '$.heart_rate', message: 'low_threshold 130 must be below high_threshold 120' },
+        ]);
+    });
+
+    it('should report malformed conditions and undeclared fields', () => {
+        const issues = validateRules(
+            {
+                rules: [
+                    { ...rule, condition: { field: 'heart_rate', op: 'gt', value: 1, between: [1, 2] } },
+                    { ...rule, id: 'rr', condition: { not: { field: 'respiratory_rate', between: [20, 12] } } },
+                ],
+            },
+            validator,
+        );
+
+        expect(issues.map((issue) => issue.path)).toEqual([
+            '$.rules[0].condition',
+            '$.rules[1].condition.not.between',
+            '$.rules[1].fields',
+        ]);
+    });
+
+    it('should report duplicate rule ids including threshold blocks', () => {
+        const issues = validateRules(
+            { heart_rate: { high_threshold: 120 }, rules: [{ ...rule, id: 'heart_rate_high' }] },
+            validator,
+        );
+        expect(issues).toEqual([{ path: '$.rules[0].id', message: 'duplicate rule id "heart_rate_high"' }]);
+    });
+
+    it('should accept a rule set redefining a threshold block rule as the engine compiles it', () => {
+        const issues = validateRules(
+            {
+                heart_rate: { high_threshold: 120 },
+                rule_sets: { icu: { rules: [{ ...rule, id: 'heart_rate_high' }] } },
+                cohorts: [{ rule_set: 'icu', care_units: ['ICU'] }],
+            },
+            validator,
+        );
+        expect(issues).toEqual([]);
+    });
+
+    it('should format issues into a readable error', () => {
+        const error = new RulesValidationError([{ path: '$.spo2', message: 'bad' }]);
+        expect(error.message).toBe('Rules file is invalid:\n  - $.spo2: bad');
+    });
+});
+
+describe('Trend rule validation', () => {
+    const validator = new SchemaValidator('./contracts');
+
+    it('should accept rise, fall and slope conditions', () => {
+        const issues = validateRules(
+            {
+                rules: [
+                    {
+                        id: 'hr_rising',
+                        code: 'HEART_RATE_RISING',
+                        fields: ['heart_rate'],
+                        condition: { field: 'heart_rate', rise: { within_ms: 1200000, value: 30 } },
+                        severity: 'medium',
+                        suggested_action: 'Reassess.',
+                    },
+                    {
+                        id: 'spo2_falling',
+                        code: 'SPO2_FALLING',
+                        fields: ['oxygen_saturation'],
+                        condition: {
+                            field: 'oxygen_saturation',
+                            slope: { window_ms: 1800000, per_ms: 600000, op: 'lt', value: -2 },
+                        },
+                        severity: 'medium',
+                        suggested_action: 'Check oxygenation.',
+                    },
+                ],
+            },
+            validator,
+        );
+
+        expect(issues).toEqual([]);
+    });
+
+    it('should reject slope conditions without a window', () => {
+        const issues = validateRules(
+            {
+                rules: [
+                    {
+                        id: 'spo2_falling',
+                        code: 'SPO2_FALLING',
+                        fields: ['oxygen_saturation'],
+                        condition: { field: 'oxygen_saturation', slope: { per_ms: 600000, op: 'lt', value: -2 } },
+                        severity: 'medium',
+                        suggested_action: 'Check oxygenation.',
+                    },
+                ],
+            },
+            validator,
+        );
+
+        expect(issues).toContainEqual({ path: '$.rules[0].condition.slope.window_ms', message: 'is required' });
+    });
+});
+
+describe('Persistence validation', () => {
+    const validator = new SchemaValidator('./contracts');
+
+    it('should reject more than one persistence mode', () => {
+        const issues = validateRules(
+            { heart_rate: { high_threshold: 120, persist_samples: 2, persist_duration_ms: 60000 } },
+            validator,
+        );
+        expect(issues).toEqual([
+            { path: '$.heart_rate', message: 'use only one of persist_samples, persist_duration_ms' },
+        ]);
+    });
+
+    it('should reject M greater than N', () => {
+        const issues = validateRules(
+            { spo2: { low_threshold: 90, persist_window: { min_violations: 4, of_samples: 3, window_ms: 60000 } } },
+            validator,
+        );
+        expect(issues[0].path).toBe('$.spo2.persist_window');
+    });
+});
+
+describe('Severity table validation', () => {
+    const validator = new SchemaValidator('./contracts');
+
+    it('should reject unknown severities', () => {
+        const issues = validateRules(
+            { spo2: { low_threshold: 90 }, severity_table: { SPO2_LOW: { severity: 'critical' } } },
+            validator,
+        );
+        expect(issues[0].path).toBe('$.severity_table.SPO2_LOW.severity');
+    });
+
+    it('should reject tiers reading fields the rules with that code do not list', () => {
+        const issues = validateRules(
+            {
+                spo2: { low_threshold: 90 },
+                severity_table: {
+                    SPO2_LOW: {
+                        escalation_tiers: [{ when: { field: 'heart_rate', op: 'gt', value: 130 }, severity: 'high' }],
+                    },
+                },
+            },
+            validator,
+        );
+        expect(issues).toEqual([
+            { path: '$.severity_table.SPO2_LOW.escalation_tiers', message: 'tiers read "heart_rate" which rule "spo2_low" does not list' },
+        ]);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RulesEngine } from '../../../dist/rules/engine.js';
+import { RulesWatcher } from '../../../dist/rules/watcher.js';
+import { loadVersionedRules } from '../../../dist/rules/loader.js';
+import { SchemaValidator } from '../../../dist/contracts/schema-validator.js';
+import type { VitalsData } from '../../../dist/rules/types.js';
+
+describe('Rules hot reload', () => {
+    let dir: string;
+    let rulesPath: string;
+    let engine: RulesEngine;
+    let watcher: RulesWatcher;
+
+    const vitals: VitalsData = {
+        patient_id: 'reload-1',
+        heart_rate: 125,
+        oxygen_saturation: 98,
+        timestamp: new Date().toISOString(),
+    };
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'rules-'));
+        rulesPath = join(dir, 'rules.json');
+        writeFileSync(rulesPath, JSON.stringify({ heart_rate: { high_threshold: 120, persist_samples: 2 } }));
+
+        const validator = new SchemaValidator('./contracts');
+        const { rules, version } = loadVersionedRules(rulesPath, validator);
+        engine = new RulesEngine(rules, 600000, version);
+        watcher = new RulesWatcher(rulesPath, engine, validator);
+    });
+
+    afterEach(() => {
+        watcher.stop();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should apply a valid rules file and change the version', () => {
+        const before = engine.getRulesVersion();
+        writeFileSync(rulesPath, JSON.stringify({ heart_rate: { high_threshold: 130, persist_samples: 2 } }));
+
+        expect(watcher.reload('test')).toBe(true);
+        expect(engine.getRulesVersion()).not.toBe(before);
+        expect(engine.getRulesVersion()).toMatch(/^[0-9a-f]{12}$/);
+    });
+
+    it('should keep the current rules when the new file is invalid', () => {
+        const before = engine.getRulesVersion();
+        writeFileSync(rulesPath, '{ "heart_rate": ');
+
+        expect(watcher.reload('test')).toBe(false);
+        expect(engine.getRulesVersion()).toBe(before);
+    });
+
+    it('should keep the current rules when the new file fails validation', () => {
+        const before = engine.getRulesVersion();
+        writeFileSync(rulesPath, JSON.stringify({ heart_rate: { high_treshold: 130 } }));
+
+        expect(watcher.reload('test')).toBe(false);
+        expect(engine.getRulesVersion()).toBe(before);
+    });
+
+    it('should keep violation counters for unchanged rule ids', () => {
+        expect(engine.evaluate(vitals).shouldAlert).toBe(false);
+
+        writeFileSync(rulesPath, JSON.stringify({ heart_rate: { high_threshold: 110, persist_samples: 2 } }));
+        watcher.reload('test');
+
+        const result = engine.evaluate(vitals);
+        expect(result.shouldAlert).toBe(true);
+        expect(result.rulesVersion).toBe(engine.getRulesVersion());
+    });
+
+    it('should drop violation counters for removed rule ids', () => {
+        engine.evaluate(vitals);
+
+        writeFileSync(rulesPath, JSON.stringify({ spo2: { low_threshold: 90 } }));
+        watcher.reload('test');
+        writeFileSync(rulesPath, JSON.stringify({ heart_rate: { high_threshold: 120, persist_samples: 2 } }));
+        watcher.reload('test');
+
+        expect(engine.evaluate(vitals).shouldAlert).toBe(false);
+    });
+});